@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { DEFAULT_TIME_ZONE, timeIn, todayIn } from '../../../../lib/dates';
+import { buildDigest, digestContactCount, isDigestEmpty, loadDigestContacts } from '../../../../lib/digest';
+import { EMAIL_DIGEST_SECTIONS, createMailer, isMailConfigured, renderEmailDigest, unsubscribeUrl } from '../../../../lib/email';
+import { fromDbNotificationSettings, isDigestDue, isEmailAddress, isEmailVerified } from '../../../../lib/notificationSettings';
+import type { DbNotificationSettings } from '../../../../lib/supabase';
+
+// Supabase クライアント（サーバーサイド用。全ユーザーの設定と連絡先を読むため service role キーが必要）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// 1ユーザー分のまとめの送信結果
+interface DigestResult {
+  userId: string;
+  date: string;
+  notified: number;
+  error?: string;
+}
+
+// ユーザーのまとめ（期限切れ・本日・今後7日間）を、そのユーザーのメールアドレスに送る
+const sendDigest = async (
+  mailer: ReturnType<typeof createMailer>,
+  settings: DbNotificationSettings,
+  todayStr: string,
+  appUrl: string
+): Promise<DigestResult> => {
+  const result = { userId: settings.user_id, date: todayStr, notified: 0 };
+
+  const { contacts, error } = await loadDigestContacts(supabase, settings.user_id);
+  if (error) return { ...result, error: `Database error: ${error}` };
+
+  const digest = buildDigest(contacts, todayStr, EMAIL_DIGEST_SECTIONS);
+
+  // 送る内容がない日は送らない（送信済みとして記録し、この日は再確認しない）
+  if (!isDigestEmpty(digest)) {
+    const unsubscribe = unsubscribeUrl(appUrl, settings.email_unsubscribe_token!);
+    const message = renderEmailDigest(digest, { appUrl, unsubscribeUrl: unsubscribe });
+    try {
+      await mailer.sendMail({
+        from: process.env.MAIL_FROM,
+        to: settings.email_address!,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        // メールソフトの「配信停止」ボタン（RFC 8058 のワンクリック）
+        headers: { 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' },
+        list: { unsubscribe },
+      });
+    } catch (sendError) {
+      return { ...result, error: `SMTP error: ${sendError instanceof Error ? sendError.message : String(sendError)}` };
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('notification_settings')
+    .update({ email_last_sent_on: todayStr })
+    .eq('user_id', settings.user_id);
+
+  if (updateError) return { ...result, error: `Database error: ${updateError.message}` };
+
+  return { ...result, notified: isDigestEmpty(digest) ? 0 : digestContactCount(digest) };
+};
+
+// 毎朝のまとめを、ユーザーごとに設定した時刻にその人のメールアドレスに送る（15分ごとに実行）
+// Slack のまとめ（/api/cron/slack-notify）と同じく、各ユーザーには自分の連絡先だけを送る
+export async function GET(request: Request) {
+  // Cron認証（Vercelからのリクエストのみ許可）
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    // 開発環境では認証をスキップ
+    if (process.env.NODE_ENV === 'production' && process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  if (!isMailConfigured()) {
+    return NextResponse.json({ error: 'SMTP is not configured' }, { status: 503 });
+  }
+
+  try {
+    const now = new Date();
+    // まとめのリンク先（APP_URL を設定していなければ、このリクエストの URL から決める）
+    const appUrl = process.env.APP_URL || new URL(request.url).origin;
+
+    const { data: settings, error } = await supabase
+      .from('notification_settings')
+      .select('*')
+      .eq('email_enabled', true)
+      .not('email_address', 'is', null)
+      .not('email_verified_address', 'is', null);
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
+    }
+
+    const { data: userSettings } = await supabase.from('user_settings').select('user_id, time_zone');
+    const timeZones = new Map((userSettings || []).map(s => [s.user_id as string, s.time_zone as string]));
+
+    // 送信時刻を過ぎていて、今日まだ送っていないユーザー（確認のリンクを開いたアドレスにだけ送る）
+    const due = ((settings || []) as DbNotificationSettings[]).flatMap(s => {
+      const timeZone = timeZones.get(s.user_id) || DEFAULT_TIME_ZONE;
+      const todayStr = todayIn(timeZone, now);
+      return isEmailAddress(s.email_address || '') && isEmailVerified(fromDbNotificationSettings(s)) && isDigestDue(s.email_send_time || '', s.email_last_sent_on, todayStr, timeIn(timeZone, now))
+        ? [{ settings: s, todayStr }]
+        : [];
+    });
+
+    // 1人の失敗で他のユーザーへの送信を止めない（失敗したユーザーは次回の実行で再送される）
+    const mailer = createMailer();
+    const results: DigestResult[] = [];
+    for (const { settings: s, todayStr } of due) {
+      const result = await sendDigest(mailer, s, todayStr, appUrl);
+      if (result.error) console.error(`Email digest failed for ${result.userId}:`, result.error);
+      results.push(result);
+    }
+    mailer.close();
+
+    console.log(`Sent email digests to ${results.filter(r => !r.error).length}/${due.length} users`);
+    return NextResponse.json({
+      success: results.every(r => !r.error),
+      users: results.length,
+      notified: results.reduce((sum, r) => sum + r.notified, 0),
+      failed: results.filter(r => r.error).map(r => r.userId),
+    });
+
+  } catch (error) {
+    console.error('Cron job error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
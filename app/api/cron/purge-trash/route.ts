@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { TRASH_RETENTION_DAYS, trashCutoff } from '../../../../lib/trash';
+
+// Supabase クライアント（サーバーサイド用。全ユーザーの行を削除するため service role キーが必要）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// ゴミ箱に移動してから保持期間を過ぎた連絡先を完全に削除する（毎日 JST 3:00）
+export async function GET(request: Request) {
+  // Cron認証（Vercelからのリクエストのみ許可）
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    // 開発環境では認証をスキップ
+    if (process.env.NODE_ENV === 'production' && process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  try {
+    const cutoff = trashCutoff();
+
+    const { data, error } = await supabase
+      .from('contacts')
+      .delete()
+      .not('deleted_at', 'is', null)
+      .lt('deleted_at', cutoff)
+      .select('id');
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
+    }
+
+    console.log(`Purged ${data?.length || 0} contacts deleted before ${cutoff}`);
+    return NextResponse.json({
+      success: true,
+      retentionDays: TRASH_RETENTION_DAYS,
+      cutoff,
+      purged: data?.length || 0,
+    });
+
+  } catch (error) {
+    console.error('Cron job error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,294 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { DEFAULT_TIME_ZONE, addDays, todayIn } from '../../../../lib/dates';
+import { fromDbContact } from '../../../../lib/contacts';
+import type { Contact } from '../../../../lib/contacts';
+import { contactUrl } from '../../../../lib/digest';
+import { createMailer, isMailConfigured, renderEmailReminders, unsubscribeUrl } from '../../../../lib/email';
+import { chatDestinationOf, fromDbNotificationSettings, isChatDestination, isEmailAddress, isEmailVerified } from '../../../../lib/notificationSettings';
+import type { ChatChannel } from '../../../../lib/notificationSettings';
+import { NOTIFIERS } from '../../../../lib/notifiers';
+import {
+  MAX_REMINDER_DAYS_BEFORE,
+  allRemindersOf,
+  isReminderDue,
+  normalizeCategoryReminderRules,
+  reminderNotificationOf,
+} from '../../../../lib/reminders';
+import type { CategoryReminderRules, Reminder } from '../../../../lib/reminders';
+import { isPushConfigured, sendPush } from '../../../../lib/webPush';
+import type { DbContact, DbNotificationSettings, DbPushSubscription } from '../../../../lib/supabase';
+
+// Supabase クライアント（サーバーサイド用。全ユーザーの連絡先と送信記録を扱うため service role キーが必要）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// 送信記録の保持期間（二重送信の判定には期日の前後数日分あれば足りる）
+const DELIVERY_RETENTION_DAYS = 30;
+
+// 送信先（送信記録の channel。チャットは選んだチャットの名前で記録する）
+type Channel = ChatChannel | 'email' | 'push';
+
+// 送る通知1件
+interface DueReminder {
+  row: DbContact;
+  contact: Contact;
+  reminder: Reminder;
+}
+
+// ユーザーが有効にしている送信先
+interface UserChannels {
+  chat?: { channel: ChatChannel; destination: string };
+  email?: { address: string; unsubscribeToken: string };
+  pushDevices: DbPushSubscription[];
+}
+
+const channelsOf = (channels: UserChannels): Channel[] => [
+  ...(channels.chat ? [channels.chat.channel] : []),
+  ...(channels.email ? ['email' as const] : []),
+  ...(channels.pushDevices.length > 0 ? ['push' as const] : []),
+];
+
+// 送信記録の一意キー（reminder_deliveries_unique_idx と同じ列）
+const deliveryKey = (contactId: string, dueAt: Date, offsetMinutes: number, rule: string, channel: string) =>
+  `${contactId}:${dueAt.getTime()}:${offsetMinutes}:${rule}:${channel}`;
+
+// チャット：ユーザーの通知を1つのメッセージにまとめ、選んだチャットの形式で送る。送れなかった通知を返す
+const sendChat = async (
+  { channel, destination }: NonNullable<UserChannels['chat']>,
+  items: DueReminder[],
+  appUrl: string
+): Promise<DueReminder[]> => {
+  const result = await NOTIFIERS[channel].sendReminders(destination, items, { appUrl });
+  if (result.ok) return [];
+  console.error(`${channel} error:`, result.error);
+  return items;
+};
+
+// メール：ユーザーの通知を1通にまとめて送る。送れなかった通知を返す
+const sendEmail = async (
+  mailer: ReturnType<typeof createMailer>,
+  email: NonNullable<UserChannels['email']>,
+  items: DueReminder[],
+  appUrl: string
+): Promise<DueReminder[]> => {
+  const unsubscribe = unsubscribeUrl(appUrl, email.unsubscribeToken);
+  const message = renderEmailReminders(items, { appUrl, unsubscribeUrl: unsubscribe });
+  try {
+    await mailer.sendMail({
+      from: process.env.MAIL_FROM,
+      to: email.address,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      headers: { 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' },
+      list: { unsubscribe },
+    });
+    return [];
+  } catch (sendError) {
+    console.error('SMTP error:', sendError);
+    return items;
+  }
+};
+
+// プッシュ通知：1件ずつユーザーの全端末に送る。1台にも届かなかった通知を返す
+const sendPushes = async (
+  devices: DbPushSubscription[],
+  items: DueReminder[],
+  appUrl: string,
+  gone: Set<string>
+): Promise<DueReminder[]> => {
+  const failed: DueReminder[] = [];
+  for (const item of items) {
+    const { contact, reminder } = item;
+    const payload = { ...reminderNotificationOf(contact, reminder), tag: reminder.key, url: contactUrl(appUrl, contact.id) };
+    const results = await Promise.all(devices.filter(d => !gone.has(d.endpoint)).map(async device => {
+      const result = await sendPush(device, payload);
+      if (result === 'gone') gone.add(device.endpoint);
+      return result;
+    }));
+    if (!results.includes('sent') && results.includes('failed')) failed.push(item);
+  }
+  return failed;
+};
+
+// 期日の通知（時刻の◯分前と、◯日前・当日・期限切れのルール）を、ユーザーが有効にしている送信先（選んだチャット・メール・プッシュ通知）に送る（5分ごと）
+// 送信前に reminder_deliveries に送信先ごとに記録して、同じ通知を二重に送らない（送信に失敗したら記録を消して次回再送する）
+export async function GET(request: Request) {
+  // Cron認証（Vercelからのリクエストのみ許可）
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    // 開発環境では認証をスキップ
+    if (process.env.NODE_ENV === 'production' && process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  try {
+    const now = new Date();
+    const todayStr = todayIn(DEFAULT_TIME_ZONE, now);
+    // 通知のリンク先（APP_URL を設定していなければ、このリクエストの URL から決める）
+    const appUrl = process.env.APP_URL || new URL(request.url).origin;
+
+    // チャット・メールで期日の通知を受け取るユーザー（設定のないユーザーには送らない）
+    const { data: notificationSettings, error: settingsError } = await supabase
+      .from('notification_settings')
+      .select('*')
+      .or('reminder_channel.not.is.null,email_enabled.eq.true');
+
+    if (settingsError) {
+      console.error('Supabase error:', settingsError);
+      return NextResponse.json({ error: 'Database error', details: settingsError.message }, { status: 500 });
+    }
+
+    // プッシュ通知を購読している端末（VAPID の鍵がなければ送らない）
+    const { data: subscriptionRows, error: subscriptionError } = isPushConfigured()
+      ? await supabase.from('push_subscriptions').select('*')
+      : { data: [], error: null };
+
+    if (subscriptionError) {
+      console.error('Supabase error:', subscriptionError);
+      return NextResponse.json({ error: 'Database error', details: subscriptionError.message }, { status: 500 });
+    }
+
+    const channels = new Map<string, UserChannels>();
+    const channelsFor = (userId: string) => {
+      if (!channels.has(userId)) channels.set(userId, { pushDevices: [] });
+      return channels.get(userId)!;
+    };
+    ((notificationSettings || []) as DbNotificationSettings[]).forEach(s => {
+      const notification = fromDbNotificationSettings(s);
+      const chatChannel = notification.reminderChannel;
+      const destination = chatChannel ? chatDestinationOf(chatChannel, notification) : '';
+      if (chatChannel && isChatDestination(chatChannel, destination) && NOTIFIERS[chatChannel].isConfigured()) {
+        channelsFor(s.user_id).chat = { channel: chatChannel, destination };
+      }
+      // メールは確認のリンクを開いたアドレスにだけ送る
+      if (s.email_enabled && isMailConfigured() && isEmailAddress(s.email_address || '') && isEmailVerified(notification) && s.email_unsubscribe_token) {
+        channelsFor(s.user_id).email = { address: s.email_address!, unsubscribeToken: s.email_unsubscribe_token };
+      }
+    });
+    ((subscriptionRows || []) as DbPushSubscription[]).forEach(s => channelsFor(s.user_id).pushDevices.push(s));
+
+    if (channels.size === 0) {
+      return NextResponse.json({ success: true, sent: 0 });
+    }
+
+    const userIds = [...channels.keys()];
+    const { data: settings } = await supabase
+      .from('user_settings')
+      .select('user_id, time_zone, category_reminder_rules')
+      .in('user_id', userIds);
+    const timeZones = new Map((settings || []).map(s => [s.user_id as string, s.time_zone as string]));
+    const ruleDefaults = new Map<string, CategoryReminderRules>((settings || [])
+      .map(s => [s.user_id as string, normalizeCategoryReminderRules(s.category_reminder_rules)]));
+
+    // 通知は最大で期日の MAX_REMINDER_DAYS_BEFORE 日前のため、タイムゾーンの差を含めてその先までの期日を対象にする
+    // 期限切れの連絡先は本日に繰り越されている
+    const { data: rows, error } = await supabase
+      .from('contacts')
+      .select('*')
+      .in('user_id', userIds)
+      .eq('status', 'pending')
+      .is('deleted_at', null)
+      .gte('deadline', addDays(todayStr, -1))
+      .lte('deadline', addDays(todayStr, MAX_REMINDER_DAYS_BEFORE + 1));
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
+    }
+
+    // 通知の時刻は各ユーザーのタイムゾーンで計算する
+    const due: DueReminder[] = ((rows || []) as DbContact[]).flatMap(row => {
+      const contact = fromDbContact(row);
+      const userId = row.user_id || '';
+      return allRemindersOf(contact, timeZones.get(userId) || DEFAULT_TIME_ZONE, ruleDefaults.get(userId))
+        .filter(reminder => isReminderDue(reminder, now))
+        .map(reminder => ({ row, contact, reminder }));
+    });
+
+    if (due.length === 0) {
+      return NextResponse.json({ success: true, sent: 0 });
+    }
+
+    // 送信記録を送信先ごとに先に書き込み、書き込めた（まだ送っていない）ものだけを送る
+    const { data: claimed, error: claimError } = await supabase
+      .from('reminder_deliveries')
+      .upsert(due.flatMap(({ row, reminder }) => channelsOf(channels.get(row.user_id || '')!).map(channel => ({
+        contact_id: row.id,
+        user_id: row.user_id,
+        due_at: reminder.dueAt.toISOString(),
+        offset_minutes: reminder.offsetMinutes,
+        rule: reminder.rule || '',
+        channel,
+      }))), { onConflict: 'contact_id,due_at,offset_minutes,rule,channel', ignoreDuplicates: true })
+      .select('id, contact_id, due_at, offset_minutes, rule, channel');
+
+    if (claimError) {
+      console.error('Supabase error:', claimError);
+      return NextResponse.json({ error: 'Database error', details: claimError.message }, { status: 500 });
+    }
+
+    const claimIds = new Map((claimed || []).map(c => [
+      deliveryKey(c.contact_id, new Date(c.due_at), c.offset_minutes, c.rule, c.channel),
+      c.id as number,
+    ]));
+    const claimIdOf = ({ row, reminder }: DueReminder, channel: Channel) =>
+      claimIds.get(deliveryKey(row.id!, reminder.dueAt, reminder.offsetMinutes, reminder.rule || '', channel));
+
+    // ユーザー・送信先ごとに送る。1人・1つの送信先の失敗で、ほかへの送信を止めない
+    const mailer = isMailConfigured() ? createMailer() : null;
+    const gone = new Set<string>();
+    const unsent: number[] = [];
+    const sent: Record<Channel, number> = { slack: 0, teams: 0, discord: 0, line: 0, email: 0, push: 0 };
+    const failedUsers = new Set<string>();
+    for (const [userId, userChannels] of channels) {
+      for (const channel of channelsOf(userChannels)) {
+        const items = due.filter(item => (item.row.user_id || '') === userId && claimIdOf(item, channel) !== undefined);
+        if (items.length === 0) continue;
+
+        const failed = channel === 'email'
+          ? await sendEmail(mailer!, userChannels.email!, items, appUrl)
+          : channel === 'push'
+            ? await sendPushes(userChannels.pushDevices, items, appUrl, gone)
+            : await sendChat(userChannels.chat!, items, appUrl);
+
+        sent[channel] += items.length - failed.length;
+        if (failed.length > 0) {
+          failedUsers.add(userId);
+          unsent.push(...failed.map(item => claimIdOf(item, channel)!));
+        }
+      }
+    }
+    mailer?.close();
+
+    // 次回の実行で再送できるよう、送れなかった通知の送信記録を取り消す
+    if (unsent.length > 0) {
+      await supabase.from('reminder_deliveries').delete().in('id', unsent);
+    }
+    // 無効になった購読（アンインストール・通知の許可の取り消しなど）を削除
+    if (gone.size > 0) {
+      await supabase.from('push_subscriptions').delete().in('endpoint', [...gone]);
+    }
+
+    // 古い送信記録を削除
+    await supabase
+      .from('reminder_deliveries')
+      .delete()
+      .lt('sent_at', new Date(now.getTime() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString());
+
+    console.log(`Sent reminders: ${Object.entries(sent).map(([channel, count]) => `${channel} ${count}`).join(', ')}`);
+    return NextResponse.json({
+      success: failedUsers.size === 0,
+      sent,
+      failed: [...failedUsers],
+      removedSubscriptions: gone.size,
+    });
+
+  } catch (error) {
+    console.error('Cron job error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+
+// Supabase クライアント（サーバーサイド用。全ユーザーの行を更新するため service role キーが必要）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// 期限切れの未完了の連絡先を本日に繰り越す（毎時5分。各ユーザーのタイムゾーンで日付が変わった後に繰り越す）
+// 今日の判定はユーザーごとの設定（user_settings.time_zone）に従って DB 側で行う
+export async function GET(request: Request) {
+  // Cron認証（Vercelからのリクエストのみ許可）
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    // 開発環境では認証をスキップ
+    if (process.env.NODE_ENV === 'production' && process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('roll_overdue_contacts');
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
+    }
+
+    console.log(`Rolled ${data ?? 0} overdue contacts`);
+    return NextResponse.json({ success: true, rolled: data ?? 0 });
+
+  } catch (error) {
+    console.error('Cron job error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,14 +1,65 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-
-// Supabase クライアント（サーバーサイド用）
+import { DEFAULT_TIME_ZONE, timeIn, todayIn } from '../../../../lib/dates';
+import { buildDigest, digestContactCount, isDigestEmpty, loadDigestContacts, normalizeDigestSections } from '../../../../lib/digest';
+import { chatDestinationOf, fromDbNotificationSettings, isChatDestination, isDigestDue } from '../../../../lib/notificationSettings';
+import type { ChatChannel } from '../../../../lib/notificationSettings';
+import { NOTIFIERS } from '../../../../lib/notifiers';
+import type { DbNotificationSettings } from '../../../../lib/supabase';
+
+// Supabase クライアント（サーバーサイド用。全ユーザーの設定と連絡先を読むため service role キーが必要）
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-// Slack Webhook URL
-const SLACK_WEBHOOK_URL = process.env.SLACK_WEBHOOK_URL || '';
+// 1ユーザー分のまとめの送信結果
+interface DigestResult {
+  userId: string;
+  date: string;
+  notified: number;
+  error?: string;
+}
+
+// 送り先のチャット（まとめを送るチャットと、その送信先）
+interface DigestTarget {
+  channel: ChatChannel;
+  destination: string;
+}
+
+// ユーザーのまとめ（設定で選んだ項目）を、そのユーザーが選んだチャットの形式で送る
+const sendDigest = async (
+  settings: DbNotificationSettings,
+  { channel, destination }: DigestTarget,
+  todayStr: string,
+  appUrl: string
+): Promise<DigestResult> => {
+  const result = { userId: settings.user_id, date: todayStr, notified: 0 };
+
+  const { contacts, error } = await loadDigestContacts(supabase, settings.user_id);
+  if (error) return { ...result, error: `Database error: ${error}` };
+
+  const digest = buildDigest(contacts, todayStr, normalizeDigestSections(settings.slack_digest_sections));
+
+  // 送る内容がない日は送らない（送信済みとして記録し、この日は再確認しない）
+  if (!isDigestEmpty(digest)) {
+    const sent = await NOTIFIERS[channel].sendDigest(destination, digest, { appUrl });
+    if (!sent.ok) {
+      return { ...result, error: `${channel} error: ${sent.error}` };
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('notification_settings')
+    .update({ slack_last_sent_on: todayStr })
+    .eq('user_id', settings.user_id);
+
+  if (updateError) return { ...result, error: `Database error: ${updateError.message}` };
 
+  return { ...result, notified: isDigestEmpty(digest) ? 0 : digestContactCount(digest) };
+};
+
+// 毎朝のまとめを、ユーザーごとに設定した時刻にその人が選んだチャット（Slack・Teams・Discord・LINE）に送る（15分ごとに実行）
+// 各ユーザーには自分の連絡先だけを送る（送信時刻・今日はユーザーのタイムゾーンで判定）
 export async function GET(request: Request) {
   // Cron認証（Vercelからのリクエストのみ許可）
   const authHeader = request.headers.get('authorization');
@@ -20,92 +71,51 @@ export async function GET(request: Request) {
   }
 
   try {
-    // 今日の日付を取得（日本時間）
     const now = new Date();
-    // 日本時間に変換
-    const jstNow = new Date(now.toLocaleString('en-US', { timeZone: 'Asia/Tokyo' }));
-    const year = jstNow.getFullYear();
-    const month = String(jstNow.getMonth() + 1).padStart(2, '0');
-    const day = String(jstNow.getDate()).padStart(2, '0');
-    const todayStr = `${year}-${month}-${day}`;
-    
-    console.log('Today (JST):', todayStr);
-
-    // まず全データを取得してデバッグ
-    const { data: allContacts, error: allError } = await supabase
-      .from('contacts')
-      .select('name, deadline, priority, status')
-      .limit(5);
-    
-    console.log('All contacts sample:', allContacts);
-    console.log('All contacts error:', allError);
-
-    // 当日期日 & 優先度A & 未完了のcontactsを取得
-    const { data: contacts, error } = await supabase
-      .from('contacts')
+    // まとめのリンク先（APP_URL を設定していなければ、このリクエストの URL から決める）
+    const appUrl = process.env.APP_URL || new URL(request.url).origin;
+
+    const { data: settings, error } = await supabase
+      .from('notification_settings')
       .select('*')
-      .eq('deadline', todayStr)
-      .eq('status', 'pending')
-      .eq('priority', 'A')
-      .order('name', { ascending: true });
+      .not('digest_channel', 'is', null);
 
     if (error) {
       console.error('Supabase error:', error);
-      return NextResponse.json({ error: 'Database error', details: error.message, allSample: allContacts }, { status: 500 });
-    }
-
-    console.log('Found contacts:', contacts?.length || 0);
-
-    // 通知するcontactsがない場合
-    if (!contacts || contacts.length === 0) {
-      console.log('No contacts to notify for today');
-      return NextResponse.json({ 
-        message: 'No contacts to notify', 
-        date: todayStr, 
-        debug: { 
-          supabaseUrl: !!supabaseUrl, 
-          serviceKey: !!supabaseServiceKey,
-          allSample: allContacts,
-          allError: allError?.message
-        } 
-      });
+      return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
     }
 
-    // Slackメッセージを作成
-    let message = `📅 *本日の期日* (${todayStr})\n\n`;
-    message += `🔴 *【優先度A】* ${contacts.length}件\n\n`;
-
-    contacts.forEach(c => {
-      message += `• ${c.name} - ${c.purpose}\n`;
-    });
-
-    message += `\n━━━━━━━━━━━━━━━━━━`;
-
-    // Slackに送信
-    const slackResponse = await fetch(SLACK_WEBHOOK_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        text: message,
-        username: '期日管理Bot',
-        icon_emoji: ':calendar:',
-      }),
+    const { data: userSettings } = await supabase.from('user_settings').select('user_id, time_zone');
+    const timeZones = new Map((userSettings || []).map(s => [s.user_id as string, s.time_zone as string]));
+
+    // 送信時刻を過ぎていて、今日まだ送っていないユーザー（送信先が正しく、サーバーの設定がそろっているチャットのみ）
+    const due = ((settings || []) as DbNotificationSettings[]).flatMap(s => {
+      const notification = fromDbNotificationSettings(s);
+      const channel = notification.digestChannel;
+      const destination = channel ? chatDestinationOf(channel, notification) : '';
+      if (!channel || !isChatDestination(channel, destination) || !NOTIFIERS[channel].isConfigured()) return [];
+
+      const timeZone = timeZones.get(s.user_id) || DEFAULT_TIME_ZONE;
+      const todayStr = todayIn(timeZone, now);
+      return isDigestDue(s.slack_send_time, s.slack_last_sent_on, todayStr, timeIn(timeZone, now))
+        ? [{ settings: s, target: { channel, destination }, todayStr }]
+        : [];
     });
 
-    if (!slackResponse.ok) {
-      const errorText = await slackResponse.text();
-      console.error('Slack error:', errorText);
-      return NextResponse.json({ error: 'Slack notification failed' }, { status: 500 });
+    // 1人の失敗で他のユーザーへの送信を止めない（失敗したユーザーは次回の実行で再送される）
+    const results: DigestResult[] = [];
+    for (const { settings: s, target, todayStr } of due) {
+      const result = await sendDigest(s, target, todayStr, appUrl);
+      if (result.error) console.error(`Digest failed for ${result.userId}:`, result.error);
+      results.push(result);
     }
 
-    console.log(`Successfully notified ${contacts.length} contacts`);
+    console.log(`Sent digests to ${results.filter(r => !r.error).length}/${due.length} users`);
     return NextResponse.json({
-      success: true,
-      date: todayStr,
-      notified: contacts.length,
-      contacts: contacts.map(c => ({ name: c.name, priority: c.priority })),
+      success: results.every(r => !r.error),
+      users: results.length,
+      notified: results.reduce((sum, r) => sum + r.notified, 0),
+      failed: results.filter(r => r.error).map(r => r.userId),
     });
 
   } catch (error) {
@@ -113,4 +123,3 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
-
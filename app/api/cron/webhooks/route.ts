@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { attemptWebhookDelivery } from '../../../../lib/webhookDelivery';
+import type { DbWebhookDelivery, DbWebhookEndpoint } from '../../../../lib/supabase';
+
+// Supabase クライアント（サーバーサイド用。全ユーザーの送信待ちと送信先の鍵を読むため service role キーが必要）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// 1回の実行で送る件数（残りは次回の実行で送る）
+const BATCH_SIZE = 50;
+
+// 送信中とみなす時間（この間は別の実行が同じ送信待ちを送らない。送信に失敗すれば再送の時刻で上書きする）
+const CLAIM_MS = 5 * 60 * 1000;
+
+// 送信ログの保持期間
+const DELIVERY_RETENTION_DAYS = 30;
+
+// 送信待ちの Webhook（連絡先のイベント）を送る（1分ごと）。失敗したものは lib/webhookDelivery.ts の間隔で再送する
+export async function GET(request: Request) {
+  // Cron認証（Vercelからのリクエストのみ許可）
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    // 開発環境では認証をスキップ
+    if (process.env.NODE_ENV === 'production' && process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  try {
+    const now = new Date();
+
+    const { data: pending, error } = await supabase
+      .from('webhook_deliveries')
+      .select('id')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', now.toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
+    }
+
+    // 次に送る時刻を先に進め、進められた（ほかの実行が送っていない）ものだけを送る
+    const { data: claimed, error: claimError } = (pending || []).length === 0
+      ? { data: [], error: null }
+      : await supabase
+        .from('webhook_deliveries')
+        .update({ next_attempt_at: new Date(now.getTime() + CLAIM_MS).toISOString() })
+        .in('id', (pending || []).map(d => d.id))
+        .eq('status', 'pending')
+        .lte('next_attempt_at', now.toISOString())
+        .select();
+
+    if (claimError) {
+      console.error('Supabase error:', claimError);
+      return NextResponse.json({ error: 'Database error', details: claimError.message }, { status: 500 });
+    }
+
+    const deliveries = (claimed || []) as DbWebhookDelivery[];
+    const { data: endpointRows, error: endpointError } = deliveries.length === 0
+      ? { data: [], error: null }
+      : await supabase
+        .from('webhook_endpoints')
+        .select('*')
+        .in('id', [...new Set(deliveries.map(d => d.endpoint_id))]);
+
+    if (endpointError) {
+      console.error('Supabase error:', endpointError);
+      return NextResponse.json({ error: 'Database error', details: endpointError.message }, { status: 500 });
+    }
+
+    const endpoints = new Map(((endpointRows || []) as DbWebhookEndpoint[]).map(e => [e.id, e]));
+    const results = await Promise.all(deliveries
+      .filter(d => endpoints.has(d.endpoint_id))
+      .map(d => attemptWebhookDelivery(supabase, d, endpoints.get(d.endpoint_id)!, { now })));
+
+    // 古い送信ログを削除（送信待ちは残す）
+    await supabase
+      .from('webhook_deliveries')
+      .delete()
+      .neq('status', 'pending')
+      .lt('created_at', new Date(now.getTime() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString());
+
+    const succeeded = results.filter(r => r.status === 'succeeded').length;
+    console.log(`Delivered ${succeeded}/${results.length} webhooks`);
+    return NextResponse.json({
+      success: true,
+      attempted: results.length,
+      succeeded,
+      retrying: results.filter(r => r.status === 'pending').length,
+      failed: results.filter(r => r.status === 'failed').length,
+    });
+
+  } catch (error) {
+    console.error('Cron job error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { DEFAULT_TIME_ZONE, todayIn } from '../../../../lib/dates';
+import { buildDigest, digestContactCount, loadDigestContacts, normalizeDigestSections, renderSlackDigest } from '../../../../lib/digest';
+
+// Supabase クライアント（ログインユーザーのアクセストークンで RLS を効かせるため anon キーを使う）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+
+// 毎朝の Slack のまとめを、送らずにそのまま返す（設定画面のプレビュー用）
+// Authorization: Bearer <アクセストークン> が必要。?sections=overdue,today で保存前の項目を試せる
+export async function GET(request: Request) {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return NextResponse.json({ error: 'Supabase is not configured' }, { status: 503 });
+  }
+
+  const token = request.headers.get('authorization')?.replace(/^Bearer /, '');
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [{ data: settings }, { data: userSettings }] = await Promise.all([
+      supabase.from('notification_settings').select('slack_digest_sections').eq('user_id', user.id).maybeSingle(),
+      supabase.from('user_settings').select('time_zone').eq('user_id', user.id).maybeSingle(),
+    ]);
+
+    const { contacts, error } = await loadDigestContacts(supabase, user.id);
+    if (error) {
+      return NextResponse.json({ error: 'Database error', details: error }, { status: 500 });
+    }
+
+    const requested = new URL(request.url).searchParams.get('sections');
+    const sections = normalizeDigestSections(requested !== null ? requested.split(',') : settings?.slack_digest_sections);
+    const today = todayIn(userSettings?.time_zone || DEFAULT_TIME_ZONE);
+    const digest = buildDigest(contacts, today, sections);
+    const appUrl = process.env.APP_URL || new URL(request.url).origin;
+
+    return NextResponse.json({
+      date: today,
+      sections,
+      contacts: digestContactCount(digest),
+      payload: renderSlackDigest(digest, { appUrl, actions: !!process.env.SLACK_SIGNING_SECRET }),
+    });
+  } catch (error) {
+    console.error('Digest preview error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { EMAIL_VERIFICATION_TTL_HOURS } from '../../../../lib/email';
+
+// Supabase クライアント（サーバーサイド用。ログインなしでトークンから設定を変更するため service role キーが必要）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// トークンの設定（期限切れなら null。設定は変えない）
+const pendingSettingsOf = async (token: string | null): Promise<{ user_id: string; email_address: string } | null> => {
+  if (!token || !UUID_PATTERN.test(token)) return null;
+
+  const { data, error } = await supabase
+    .from('notification_settings')
+    .select('user_id, email_address')
+    .eq('email_verification_token', token)
+    .gt('email_verification_sent_at', new Date(Date.now() - EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000).toISOString())
+    .not('email_address', 'is', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error:', error);
+    return null;
+  }
+  return data;
+};
+
+// トークンのアドレスを確認済みにする（トークンは1回だけ使える）
+const confirm = async (token: string | null): Promise<boolean> => {
+  const settings = await pendingSettingsOf(token);
+  if (!settings) return false;
+
+  const { data, error } = await supabase
+    .from('notification_settings')
+    .update({ email_verified_address: settings.email_address, email_verification_token: null })
+    .eq('user_id', settings.user_id)
+    .eq('email_verification_token', token!)
+    .eq('email_address', settings.email_address)
+    .select('user_id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error:', error);
+    return false;
+  }
+  return !!data;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// body は HTML（呼び出し側でエスケープ済み）
+const page = (body: string, status: number) => new NextResponse(
+  `<!DOCTYPE html>
+<html lang="ja">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><meta name="robots" content="noindex"><title>メールアドレスの確認</title></head>
+<body style="margin:0;padding:48px 16px;background:#f1f5f9;font-family:sans-serif;color:#1e293b;text-align:center;">
+${body}
+</body>
+</html>`,
+  { status, headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } }
+);
+
+const message = (text: string) => `  <p style="font-size:16px;">${text}</p>`;
+
+const INVALID = 'リンクが正しくないか、有効期限が切れています。アプリの「⚙️ 通知設定」から確認メールを送り直してください';
+
+// 確認メールのリンク。確認の画面を表示するだけで、確認はボタン（POST）で行う
+// （メールのセキュリティチェックやリンクの先読みが開いただけで確認済みにならないようにする）
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token');
+  const settings = await pendingSettingsOf(token);
+  if (!settings) {
+    return page(message(INVALID), 404);
+  }
+
+  // token は UUID の形式を確認済み
+  return page(`${message(`<strong>${escapeHtml(settings.email_address)}</strong> で通知を受け取りますか？`)}
+  <form method="post" action="?token=${token}">
+    <button type="submit" style="margin:8px 0 16px;padding:10px 20px;border:0;border-radius:8px;background:#2563eb;color:#ffffff;font-size:15px;font-weight:bold;cursor:pointer;">受け取る</button>
+  </form>
+  <p style="font-size:13px;color:#64748b;">心当たりがなければ、この画面を閉じてください（確認しなければ何も送りません）</p>`, 200);
+}
+
+// 確認の画面のボタン
+export async function POST(request: Request) {
+  return await confirm(new URL(request.url).searchParams.get('token'))
+    ? page(message('メールアドレスを確認しました。通知設定でメールを有効にしていれば、まとめと期日の通知をこのアドレスに送ります'), 200)
+    : page(message(INVALID), 404);
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+
+// Supabase クライアント（サーバーサイド用。ログインなしでトークンから設定を変更するため service role キーが必要）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// トークンのユーザーのメール配信を止める（再開は通知設定の画面から）
+const unsubscribe = async (token: string | null): Promise<boolean> => {
+  if (!token || !UUID_PATTERN.test(token)) return false;
+
+  const { data, error } = await supabase
+    .from('notification_settings')
+    .update({ email_enabled: false })
+    .eq('email_unsubscribe_token', token)
+    .select('user_id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error:', error);
+    return false;
+  }
+  return !!data;
+};
+
+// トークンが有効か（確認画面を出す前に調べる。設定は変えない）
+const isValidToken = async (token: string | null): Promise<boolean> => {
+  if (!token || !UUID_PATTERN.test(token)) return false;
+
+  const { data, error } = await supabase
+    .from('notification_settings')
+    .select('user_id')
+    .eq('email_unsubscribe_token', token)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error:', error);
+    return false;
+  }
+  return !!data;
+};
+
+// body は HTML（呼び出し側でエスケープ済み）
+const page = (body: string, status: number) => new NextResponse(
+  `<!DOCTYPE html>
+<html lang="ja">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><meta name="robots" content="noindex"><title>メール配信の停止</title></head>
+<body style="margin:0;padding:48px 16px;background:#f1f5f9;font-family:sans-serif;color:#1e293b;text-align:center;">
+${body}
+  <p style="font-size:13px;color:#64748b;">配信を再開するには、アプリの「⚙️ 通知設定」でメールを有効にしてください</p>
+</body>
+</html>`,
+  { status, headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } }
+);
+
+const message = (text: string) => `  <p style="font-size:16px;">${text}</p>`;
+
+// メール本文の「配信を停止する」リンク。確認の画面を表示するだけで、停止はボタン（POST）で行う
+// （メールのセキュリティチェックやリンクの先読みが開いただけで停止しないようにする）
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token');
+  if (!await isValidToken(token)) {
+    return page(message('リンクが正しくないか、すでに無効になっています'), 404);
+  }
+
+  // token は UUID の形式を確認済み
+  return page(`${message('毎朝のまとめメールの配信を停止しますか？')}
+  <form method="post" action="?token=${token}">
+    <input type="hidden" name="confirmed" value="1">
+    <button type="submit" style="margin:8px 0 16px;padding:10px 20px;border:0;border-radius:8px;background:#2563eb;color:#ffffff;font-size:15px;font-weight:bold;cursor:pointer;">配信を停止する</button>
+  </form>`, 200);
+}
+
+// 確認の画面のボタンと、メールソフトの「配信停止」ボタン（List-Unsubscribe-Post による RFC 8058 のワンクリック）
+// 画面のボタンからなら結果の画面を、メールソフトからなら JSON を返す
+export async function POST(request: Request) {
+  const ok = await unsubscribe(new URL(request.url).searchParams.get('token'));
+  const form = await request.formData().catch(() => null);
+  if (form?.get('confirmed') === '1') {
+    return ok
+      ? page(message('毎朝のまとめメールの配信を停止しました'), 200)
+      : page(message('リンクが正しくないか、すでに無効になっています'), 404);
+  }
+  return NextResponse.json({ success: ok }, { status: ok ? 200 : 404 });
+}
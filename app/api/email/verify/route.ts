@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import {
+  EMAIL_VERIFICATION_INTERVAL_SECONDS,
+  confirmEmailUrl,
+  createMailer,
+  isMailConfigured,
+  renderEmailVerification,
+} from '../../../../lib/email';
+import { isEmailAddress } from '../../../../lib/notificationSettings';
+import type { EmailVerificationResult } from '../../../../lib/supabase';
+
+// Supabase クライアント（ログインユーザーの確認は anon キー、確認の列の書き込みは service role キー）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+// ログイン中のユーザー（なければ null）
+const userOf = async (request: Request) => {
+  const token = request.headers.get('authorization')?.replace(/^Bearer /, '');
+  if (!token) return null;
+  const { data: { user }, error } = await createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false },
+  }).auth.getUser(token);
+  return error ? null : user;
+};
+
+// 保存している送信先のアドレスに確認メールを送る（設定画面から呼ぶ）。リンクを開くまでメールは送らない
+// Authorization: Bearer <アクセストークン> が必要。ログインに使っている確認済みのアドレスなら、送らずに確認済みにする
+// 確認メールは EMAIL_VERIFICATION_INTERVAL_SECONDS 秒に1通まで（429）
+export async function POST(request: Request) {
+  if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+    return NextResponse.json({ error: 'Supabase is not configured' }, { status: 503 });
+  }
+
+  try {
+    const user = await userOf(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { data: settings, error } = await supabase
+      .from('notification_settings')
+      .select('email_address, email_verified_address, email_verification_sent_at')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
+    }
+    const address = settings?.email_address || '';
+    if (!isEmailAddress(address)) {
+      return NextResponse.json({ error: 'Email address is not set' }, { status: 400 });
+    }
+
+    const verified: EmailVerificationResult = { status: 'verified', email_address: address };
+    if (settings!.email_verified_address === address) {
+      return NextResponse.json(verified);
+    }
+    if (user.email_confirmed_at && user.email?.toLowerCase() === address.toLowerCase()) {
+      const { error: updateError } = await supabase
+        .from('notification_settings')
+        .update({ email_verified_address: address, email_verification_token: null })
+        .eq('user_id', user.id)
+        .eq('email_address', address);
+
+      if (updateError) {
+        console.error('Supabase error:', updateError);
+        return NextResponse.json({ error: 'Database error', details: updateError.message }, { status: 500 });
+      }
+      return NextResponse.json(verified);
+    }
+
+    if (!isMailConfigured()) {
+      return NextResponse.json({ error: 'SMTP is not configured' }, { status: 503 });
+    }
+    const lastSentAt = settings!.email_verification_sent_at ? new Date(settings!.email_verification_sent_at).getTime() : 0;
+    if (Date.now() - lastSentAt < EMAIL_VERIFICATION_INTERVAL_SECONDS * 1000) {
+      return NextResponse.json({ error: 'Verification email was sent recently' }, { status: 429 });
+    }
+
+    // 送るアドレスが読み込んだときのままのときだけトークンを記録する（同時に変えられていたら送らない）
+    const token = randomUUID();
+    const { data: updated, error: updateError } = await supabase
+      .from('notification_settings')
+      .update({ email_verification_token: token, email_verification_sent_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .eq('email_address', address)
+      .select('user_id')
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Supabase error:', updateError);
+      return NextResponse.json({ error: 'Database error', details: updateError.message }, { status: 500 });
+    }
+    if (!updated) {
+      return NextResponse.json({ error: 'Email address was changed' }, { status: 409 });
+    }
+
+    // リンク先（APP_URL を設定していなければ、このリクエストの URL から決める）
+    const appUrl = process.env.APP_URL || new URL(request.url).origin;
+    const message = renderEmailVerification(confirmEmailUrl(appUrl, token));
+    const mailer = createMailer();
+    try {
+      await mailer.sendMail({
+        from: process.env.MAIL_FROM,
+        to: address,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+    } finally {
+      mailer.close();
+    }
+
+    const sent: EmailVerificationResult = { status: 'sent', email_address: address };
+    return NextResponse.json(sent);
+  } catch (error) {
+    console.error('Email verification error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
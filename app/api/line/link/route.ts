@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { LINE_LINK_TTL_MINUTES, createLineVerificationCode } from '../../../../lib/line';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DbLineLinkRequest, LineLinkApproval, LineLinkPreview } from '../../../../lib/supabase';
+
+// Supabase クライアント（ログインユーザーの確認は anon キー、連携の申請の読み書きは service role キー）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+// ログイン中のユーザー（なければ null）
+const userOf = async (request: Request) => {
+  const token = request.headers.get('authorization')?.replace(/^Bearer /, '');
+  if (!token) return null;
+  const { data: { user }, error } = await createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false },
+  }).auth.getUser(token);
+  return error ? null : user;
+};
+
+// まだ承認されていない、有効な申請
+const pendingRequestOf = (supabase: SupabaseClient, code: string) => supabase
+  .from('line_link_requests')
+  .select('*')
+  .eq('code', code)
+  .is('user_id', null)
+  .gt('expires_at', new Date().toISOString())
+  .maybeSingle();
+
+// 公式アカウントが返した連携用のリンクの内容（どの LINE ユーザーの申請か）を返す
+// Authorization: Bearer <アクセストークン> と ?code= が必要
+export async function GET(request: Request) {
+  if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+    return NextResponse.json({ error: 'Supabase is not configured' }, { status: 503 });
+  }
+
+  try {
+    if (!await userOf(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const code = new URL(request.url).searchParams.get('code');
+    if (!code) {
+      return NextResponse.json({ error: 'Bad request' }, { status: 400 });
+    }
+
+    const { data, error } = await pendingRequestOf(createClient(supabaseUrl, supabaseServiceKey), code);
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Link code is invalid or expired' }, { status: 404 });
+    }
+
+    const linkRequest = data as DbLineLinkRequest;
+    const preview: LineLinkPreview = {
+      line_display_name: linkRequest.line_display_name,
+      expires_at: linkRequest.expires_at,
+    };
+    return NextResponse.json(preview);
+  } catch (error) {
+    console.error('LINE link error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// 連携の申請を承認し、確認コードを返す（設定画面から呼ぶ）。連携は、申請した LINE ユーザーが確認コードを送ったときに登録する
+// Authorization: Bearer <アクセストークン> と { code } が必要。申請は1回だけ承認できる
+export async function POST(request: Request) {
+  if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+    return NextResponse.json({ error: 'Supabase is not configured' }, { status: 503 });
+  }
+
+  try {
+    const user = await userOf(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { code } = await request.json().catch(() => ({}));
+    if (typeof code !== 'string' || !code) {
+      return NextResponse.json({ error: 'Bad request' }, { status: 400 });
+    }
+
+    // 承認したユーザーと確認コードを記録する（ほかの人が同時に承認していたら何もしない）
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { data: approved, error: approveError } = await supabase
+      .from('line_link_requests')
+      .update({
+        user_id: user.id,
+        verification_code: createLineVerificationCode(),
+        expires_at: new Date(Date.now() + LINE_LINK_TTL_MINUTES * 60 * 1000).toISOString(),
+      })
+      .eq('code', code)
+      .is('user_id', null)
+      .gt('expires_at', new Date().toISOString())
+      .select()
+      .maybeSingle();
+
+    if (approveError) {
+      console.error('Supabase error:', approveError);
+      return NextResponse.json({ error: 'Database error', details: approveError.message }, { status: 500 });
+    }
+    if (!approved) {
+      return NextResponse.json({ error: 'Link code is invalid or expired' }, { status: 404 });
+    }
+
+    // 期限切れの申請を削除
+    await supabase.from('line_link_requests').delete().lt('expires_at', new Date().toISOString());
+
+    const approval: LineLinkApproval = {
+      line_display_name: approved.line_display_name,
+      expires_at: approved.expires_at,
+      verification_code: approved.verification_code,
+    };
+    return NextResponse.json(approval);
+  } catch (error) {
+    console.error('LINE link error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,170 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import {
+  LINE_LINK_MAX_ATTEMPTS,
+  LINE_LINK_TTL_MINUTES,
+  lineDisplayNameOf,
+  lineVerificationCodeOf,
+  replyLine,
+  verifyLineSignature,
+} from '../../../../lib/line';
+import type { LineWebhookEvent } from '../../../../lib/line';
+import type { DbLineLinkRequest } from '../../../../lib/supabase';
+
+// Supabase クライアント（サーバーサイド用。LINE からのイベントはログインセッションがないため service role キーが必要）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// 友だち追加した LINE ユーザーに、アプリで連携を承認するためのリンクを返す（承認前の古い申請は削除する）
+const startLink = async (lineUserId: string, replyToken: string, appUrl: string) => {
+  await supabase.from('line_link_requests').delete().eq('line_user_id', lineUserId).is('user_id', null);
+
+  const code = randomUUID();
+  const { error } = await supabase.from('line_link_requests').insert({
+    code,
+    line_user_id: lineUserId,
+    line_display_name: await lineDisplayNameOf(lineUserId),
+    expires_at: new Date(Date.now() + LINE_LINK_TTL_MINUTES * 60 * 1000).toISOString(),
+  });
+  if (error) {
+    console.error('Supabase error:', error);
+    return replyLine(replyToken, '⚠️ 連携用のリンクを作成できませんでした。しばらくしてからメッセージを送ってください');
+  }
+
+  const linkUrl = `${appUrl}/settings?line_link=${encodeURIComponent(code)}`;
+  return replyLine(replyToken, [
+    `期日の通知をこの LINE で受け取るには、${LINE_LINK_TTL_MINUTES}分以内に次のリンクを開いてログインし、連携を承認してください。`,
+    '表示された6桁の確認コードをこのトークに送ると連携が完了します（リンクは他の人に渡さないでください）',
+    linkUrl,
+  ].join('\n'));
+};
+
+// 確認コード：アプリで承認された申請のうち、この LINE ユーザーのもので確認コードが一致すれば連携する
+// 確認コードを LINE_LINK_MAX_ATTEMPTS 回間違えた申請は削除する（最初からやり直し）
+const completeLink = async (lineUserId: string, code: string, replyToken: string) => {
+  const { data, error } = await supabase
+    .from('line_link_requests')
+    .select('*')
+    .eq('line_user_id', lineUserId)
+    .not('user_id', 'is', null)
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) {
+    console.error('Supabase error:', error);
+    return replyLine(replyToken, '⚠️ データベースに接続できませんでした。しばらくしてからもう一度お試しください');
+  }
+
+  const approved = (data || []) as DbLineLinkRequest[];
+  if (approved.length === 0) {
+    return replyLine(replyToken, '連携の申請が見つかりません。届いたリンクをアプリで開いて承認し、表示された確認コードを送ってください');
+  }
+
+  const matched = approved.find(r => r.verification_code === code);
+  if (!matched) {
+    await Promise.all(approved.map(r => r.failed_attempts + 1 >= LINE_LINK_MAX_ATTEMPTS
+      ? supabase.from('line_link_requests').delete().eq('code', r.code)
+      : supabase.from('line_link_requests').update({ failed_attempts: r.failed_attempts + 1 }).eq('code', r.code)));
+    return replyLine(replyToken, '⚠️ 確認コードが違います。アプリの「⚙️ 通知設定」に表示されたコードを送ってください');
+  }
+
+  // 申請を取り出すと同時に削除する（同じ確認コードで二重に連携しない）
+  const { data: claimed } = await supabase
+    .from('line_link_requests')
+    .delete()
+    .eq('code', matched.code)
+    .select()
+    .maybeSingle();
+  const linkRequest = claimed as DbLineLinkRequest | null;
+  if (!linkRequest?.user_id) {
+    return replyLine(replyToken, '連携の申請の有効期限が切れました。何かメッセージを送ると、新しいリンクが届きます');
+  }
+
+  const { error: linkError } = await supabase
+    .from('notification_settings')
+    .upsert({
+      user_id: linkRequest.user_id,
+      line_user_id: lineUserId,
+      line_display_name: linkRequest.line_display_name,
+    }, { onConflict: 'user_id' });
+  if (linkError) {
+    console.error('Supabase error:', linkError);
+    return replyLine(replyToken, '⚠️ 連携できませんでした');
+  }
+
+  const { data: { user } } = await supabase.auth.admin.getUserById(linkRequest.user_id);
+  return replyLine(replyToken, `✅ アプリのアカウント${user?.email ? `（${user.email}）` : ''}と連携しました。「⚙️ 通知設定」で毎朝のまとめ・期日の通知の送り先に LINE を選んでください`);
+};
+
+// 1件のイベントを処理する（ユーザーとの1対1のトークのみ。グループ・複数人トークは無視する）
+const handleEvent = async (event: LineWebhookEvent, appUrl: string) => {
+  const lineUserId = event.source?.type === 'user' ? event.source.userId : undefined;
+  if (!lineUserId) return;
+
+  // ブロックされたら連携を解除する（プッシュメッセージが届かなくなるため）
+  if (event.type === 'unfollow') {
+    const { error } = await supabase
+      .from('notification_settings')
+      .update({ line_user_id: null, line_display_name: null })
+      .eq('line_user_id', lineUserId);
+    if (error) console.error('Supabase error:', error);
+    return;
+  }
+
+  if (!event.replyToken) return;
+  if (event.type === 'follow') return startLink(lineUserId, event.replyToken, appUrl);
+  if (event.type !== 'message' || event.message?.type !== 'text') return;
+
+  const code = lineVerificationCodeOf(event.message.text || '');
+  if (code) return completeLink(lineUserId, code, event.replyToken);
+
+  const { data: linked } = await supabase
+    .from('notification_settings')
+    .select('user_id')
+    .eq('line_user_id', lineUserId)
+    .limit(1);
+  if ((linked || []).length > 0) {
+    return replyLine(event.replyToken, 'この LINE はアプリと連携しています。通知の送り先や時刻はアプリの「⚙️ 通知設定」で変更できます');
+  }
+  return startLink(lineUserId, event.replyToken, appUrl);
+};
+
+// LINE の公式アカウントの Webhook（LINE Developers の Messaging API 設定の Webhook URL）
+// 友だち追加（follow）やメッセージで連携用のリンクを返し、確認コードのメッセージで連携を確定する
+export async function POST(request: Request) {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return NextResponse.json({ error: 'Supabase is not configured' }, { status: 503 });
+  }
+
+  const body = await request.text();
+
+  // LINE の署名を検証（開発環境で LINE_CHANNEL_SECRET がなければスキップ）
+  const channelSecret = process.env.LINE_CHANNEL_SECRET;
+  if (channelSecret) {
+    if (!verifyLineSignature(channelSecret, request.headers.get('x-line-signature'), body)) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+  } else if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'LINE is not configured' }, { status: 503 });
+  }
+
+  let events: LineWebhookEvent[];
+  try {
+    events = JSON.parse(body).events ?? [];
+  } catch {
+    return NextResponse.json({ error: 'Bad request' }, { status: 400 });
+  }
+
+  const appUrl = process.env.APP_URL || new URL(request.url).origin;
+  for (const event of events) {
+    try {
+      await handleEvent(event, appUrl);
+    } catch (error) {
+      console.error('LINE webhook error:', error);
+    }
+  }
+
+  // LINE は 200 以外の応答を再送するため、イベントの処理に失敗しても 200 を返す
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { verifyContactsSchema } from '../../../lib/schema';
+
+// Supabase クライアント（サーバーサイド用）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+
+// contacts テーブルの列が DbContact と一致しているか確認する（起動時に画面から呼ぶ）
+export async function GET() {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return NextResponse.json({ error: 'Supabase is not configured' }, { status: 503 });
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const result = await verifyContactsSchema(supabase);
+    if (!result.ok) {
+      console.error('Schema mismatch:', result);
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Schema check error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,227 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import { DEFAULT_TIME_ZONE, formatDisplayDate, todayIn } from '../../../../lib/dates';
+import { fromDbContact, toDbContact } from '../../../../lib/contacts';
+import { buildDigest, contactUrl, escapeSlack, isDigestEmpty, loadDigestContacts, renderSlackDigest } from '../../../../lib/digest';
+import { SLASH_COMMAND_USAGE, linkCodeOf, parseSlashCommand } from '../../../../lib/slashCommand';
+import { SLACK_LINK_MAX_ATTEMPTS, SLACK_LINK_TTL_MINUTES, verifySlackRequest } from '../../../../lib/slack';
+import type { DbContact, DbSlackLinkRequest } from '../../../../lib/supabase';
+
+// Supabase クライアント（サーバーサイド用。Slack からの操作はログインセッションがないため service role キーが必要）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// コマンドを実行した本人にだけ見える返信
+const ephemeral = (text: string, blocks?: unknown[]) =>
+  NextResponse.json({ response_type: 'ephemeral', text, ...(blocks ? { blocks } : {}) });
+
+// /deadline link <確認コード>：アプリで承認された申請のうち、この Slack ユーザーのもので確認コードが一致すれば連携する
+// 確認コードを SLACK_LINK_MAX_ATTEMPTS 回間違えた申請は削除する（最初からやり直し）
+const completeLink = async (teamId: string, slackUserId: string, slackUserName: string, code: string) => {
+  const { data, error } = await supabase
+    .from('slack_link_requests')
+    .select('*')
+    .eq('slack_team_id', teamId)
+    .eq('slack_user_id', slackUserId)
+    .not('user_id', 'is', null)
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) {
+    console.error('Supabase error:', error);
+    return ephemeral('⚠️ データベースに接続できませんでした。しばらくしてからもう一度お試しください');
+  }
+
+  const approved = (data || []) as DbSlackLinkRequest[];
+  if (approved.length === 0) {
+    return ephemeral('連携の申請が見つかりません。`/deadline` で届くリンクをアプリで開いて承認し、表示された確認コードを入力してください');
+  }
+
+  const matched = approved.find(r => r.verification_code === code);
+  if (!matched) {
+    await Promise.all(approved.map(r => r.failed_attempts + 1 >= SLACK_LINK_MAX_ATTEMPTS
+      ? supabase.from('slack_link_requests').delete().eq('code', r.code)
+      : supabase.from('slack_link_requests').update({ failed_attempts: r.failed_attempts + 1 }).eq('code', r.code)));
+    return ephemeral('⚠️ 確認コードが違います。アプリの「⚙️ 通知設定」に表示されたコードを入力してください');
+  }
+
+  // 申請を取り出すと同時に削除する（同じ確認コードで二重に連携しない）
+  const { data: claimed } = await supabase
+    .from('slack_link_requests')
+    .delete()
+    .eq('code', matched.code)
+    .select()
+    .maybeSingle();
+  const userId = (claimed as DbSlackLinkRequest | null)?.user_id;
+  if (!userId) {
+    return ephemeral('連携の申請の有効期限が切れました。もう一度 `/deadline` からやり直してください');
+  }
+
+  // 同じワークスペースで別の Slack ユーザーと連携しているアカウントには、上書きせずに断る
+  const { data: existing } = await supabase
+    .from('slack_user_links')
+    .select('slack_user_id')
+    .eq('slack_team_id', teamId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (existing) {
+    return ephemeral('⚠️ このアプリのアカウントは、このワークスペースの別の Slack アカウントと連携しています。アプリで解除してから連携してください');
+  }
+
+  // 連携は上書きしない（すでに連携している Slack ユーザーなら主キーの重複で失敗する）
+  const { error: linkError } = await supabase.from('slack_user_links').insert({
+    slack_team_id: teamId,
+    slack_user_id: slackUserId,
+    slack_user_name: slackUserName,
+    user_id: userId,
+  });
+  if (linkError) {
+    console.error('Supabase error:', linkError);
+    return ephemeral(linkError.code === '23505'
+      ? 'この Slack アカウントはすでにアプリと連携しています'
+      : '⚠️ 連携できませんでした');
+  }
+
+  const { data: { user } } = await supabase.auth.admin.getUserById(userId);
+  return ephemeral(`✅ アプリのアカウント${user?.email ? `（${escapeSlack(user.email)}）` : ''}と連携しました。\`/deadline help\` で使い方を確認できます`);
+};
+
+// スラッシュコマンド /deadline（Slack アプリの Slash Commands の Request URL）
+//   /deadline add 田中様 見積送付 明日 A … 連絡先を追加 / /deadline today … 今日の期日と期限切れ
+// Slack のユーザーがアプリのユーザーと連携していなければ、連携用のリンクを返す（/deadline link <確認コード> で連携を確定する）
+export async function POST(request: Request) {
+  const body = await request.text();
+
+  // Slack の署名を検証（開発環境で SLACK_SIGNING_SECRET がなければスキップ）
+  const signingSecret = process.env.SLACK_SIGNING_SECRET;
+  if (signingSecret) {
+    const valid = verifySlackRequest(
+      signingSecret,
+      request.headers.get('x-slack-request-timestamp'),
+      request.headers.get('x-slack-signature'),
+      body
+    );
+    if (!valid) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+  } else if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Slack is not configured' }, { status: 503 });
+  }
+
+  try {
+    const params = new URLSearchParams(body);
+    const teamId = params.get('team_id') || '';
+    const slackUserId = params.get('user_id') || '';
+    const slackUserName = params.get('user_name') || slackUserId;
+    const slackTeamName = params.get('team_domain') || teamId;
+    const text = params.get('text') || '';
+    const appUrl = process.env.APP_URL || new URL(request.url).origin;
+
+    if (!teamId || !slackUserId) {
+      return NextResponse.json({ error: 'Bad request' }, { status: 400 });
+    }
+
+    const { data: link, error: linkError } = await supabase
+      .from('slack_user_links')
+      .select('user_id')
+      .eq('slack_team_id', teamId)
+      .eq('slack_user_id', slackUserId)
+      .maybeSingle();
+
+    if (linkError) {
+      console.error('Supabase error:', linkError);
+      return ephemeral('⚠️ データベースに接続できませんでした。しばらくしてからもう一度お試しください');
+    }
+
+    const verificationCode = linkCodeOf(text);
+    if (verificationCode === '') {
+      return ephemeral('確認コードは `/deadline link 123456` のように6桁の数字で入力してください');
+    }
+    if (verificationCode !== null) {
+      return link
+        ? ephemeral('この Slack アカウントはすでにアプリと連携しています')
+        : await completeLink(teamId, slackUserId, slackUserName, verificationCode);
+    }
+
+    // 連携していない Slack ユーザーには、アプリで連携を承認するためのリンクを返す
+    if (!link) {
+      const code = randomUUID();
+      const { error } = await supabase.from('slack_link_requests').insert({
+        code,
+        slack_team_id: teamId,
+        slack_user_id: slackUserId,
+        slack_user_name: slackUserName,
+        slack_team_name: slackTeamName,
+        expires_at: new Date(Date.now() + SLACK_LINK_TTL_MINUTES * 60 * 1000).toISOString(),
+      });
+      if (error) {
+        console.error('Supabase error:', error);
+        return ephemeral('⚠️ 連携用のリンクを作成できませんでした');
+      }
+
+      const linkUrl = `${appUrl}/settings?slack_link=${encodeURIComponent(code)}`;
+      const message = `この Slack アカウントはまだアプリと連携していません。${SLACK_LINK_TTL_MINUTES}分以内に次のリンクを開いてログインし、連携を承認してください。表示された確認コードを \`/deadline link <確認コード>\` で送ると連携が完了します（リンクは他の人に渡さないでください）`;
+      return ephemeral(message, [
+        { type: 'section', text: { type: 'mrkdwn', text: message } },
+        {
+          type: 'actions',
+          elements: [{ type: 'button', text: { type: 'plain_text', text: 'アプリと連携する' }, url: linkUrl, action_id: 'open_link', style: 'primary' }],
+        },
+      ]);
+    }
+
+    const userId = link.user_id as string;
+    const { data: userSettings } = await supabase.from('user_settings').select('time_zone').eq('user_id', userId).maybeSingle();
+    const todayStr = todayIn(userSettings?.time_zone || DEFAULT_TIME_ZONE);
+    const command = parseSlashCommand(text, todayStr);
+
+    switch (command.kind) {
+      case 'add': {
+        // 操作者を履歴に残すため、ヘッダーを付けたクライアントで作成する（トリガー log_contact_activity が記録する）
+        const { data, error } = await createClient(supabaseUrl, supabaseServiceKey, {
+          global: { headers: { 'x-activity-actor': `slack:${slackUserName}` } },
+        })
+          .from('contacts')
+          .insert(toDbContact(command.contact, userId))
+          .select()
+          .single();
+
+        if (error) {
+          console.error('Supabase error:', error);
+          return ephemeral('⚠️ 追加できませんでした');
+        }
+
+        const created = fromDbContact(data as DbContact);
+        return ephemeral(
+          `✅ 追加しました：<${contactUrl(appUrl, created.id)}|${escapeSlack(created.name)}> ${escapeSlack(created.purpose)}（${formatDisplayDate(created.deadline)}・優先度${created.priority}）`
+        );
+      }
+
+      case 'today': {
+        const { contacts, error } = await loadDigestContacts(supabase, userId);
+        if (error) {
+          console.error('Supabase error:', error);
+          return ephemeral('⚠️ 連絡先を読み込めませんでした');
+        }
+
+        const digest = buildDigest(contacts, todayStr, ['overdue', 'today']);
+        if (isDigestEmpty(digest)) {
+          return ephemeral('🎉 今日の期日と期限切れはありません');
+        }
+        const message = renderSlackDigest(digest, { appUrl, actions: !!signingSecret });
+        return ephemeral(message.text, message.blocks);
+      }
+
+      case 'help':
+        return ephemeral(SLASH_COMMAND_USAGE);
+
+      case 'error':
+        return ephemeral(command.message);
+    }
+
+  } catch (error) {
+    console.error('Slack command error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
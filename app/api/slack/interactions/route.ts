@@ -0,0 +1,153 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { DEFAULT_TIME_ZONE, todayIn } from '../../../../lib/dates';
+import { fromDbContact, toDbPatch } from '../../../../lib/contacts';
+import { isQuickAction, quickActionOf } from '../../../../lib/contactActions';
+import { buildDigest, escapeSlack, loadDigestContacts, normalizeDigestSections, renderSlackDigest } from '../../../../lib/digest';
+import { verifySlackRequest } from '../../../../lib/slack';
+import type { CompanyHoliday } from '../../../../lib/holidays';
+import type { SlackBlockActionsPayload } from '../../../../lib/slack';
+import type { DbContact } from '../../../../lib/supabase';
+
+// Supabase クライアント（サーバーサイド用。Slack からの操作はログインセッションがないため service role キーが必要）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// 元のメッセージの書き換え先（Slack 以外の URL には送らない）
+const isSlackResponseUrl = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && parsed.hostname === 'hooks.slack.com';
+  } catch {
+    return false;
+  }
+};
+
+// 毎朝のまとめのボタン（完了・明日へ・1週間後）を押したときに Slack から呼ばれる（Slack アプリの Interactivity の Request URL）
+// 画面と同じ操作で連絡先を変更し（履歴は操作者を slack:<名前> として記録）、元のメッセージを最新のまとめに書き換える
+export async function POST(request: Request) {
+  const body = await request.text();
+
+  // Slack の署名を検証（開発環境で SLACK_SIGNING_SECRET がなければスキップ。scripts/slack-interaction.sh で試せる）
+  const signingSecret = process.env.SLACK_SIGNING_SECRET;
+  if (signingSecret) {
+    const valid = verifySlackRequest(
+      signingSecret,
+      request.headers.get('x-slack-request-timestamp'),
+      request.headers.get('x-slack-signature'),
+      body
+    );
+    if (!valid) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+  } else if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Slack is not configured' }, { status: 503 });
+  }
+
+  try {
+    const payload = JSON.parse(new URLSearchParams(body).get('payload') || '{}') as SlackBlockActionsPayload;
+    const action = payload.type === 'block_actions' ? payload.actions?.[0] : undefined;
+    if (!action?.value || !isQuickAction(action.action_id)) {
+      // アプリを開くボタン（URL のみ）などは何もしない
+      return new NextResponse(null, { status: 200 });
+    }
+
+    const { data: row, error } = await supabase
+      .from('contacts')
+      .select('*')
+      .eq('id', action.value)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
+    }
+
+    const userId = (row as DbContact | null)?.user_id;
+    if (!row || !userId) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 });
+    }
+
+    // 押した Slack のユーザーと連携しているユーザーの連絡先だけを操作できる（チャンネルの他のメンバーは操作できない）
+    const [{ data: settings }, { data: userSettings }, { data: link }, { data: holidays }] = await Promise.all([
+      supabase.from('notification_settings').select('slack_digest_sections').eq('user_id', userId).maybeSingle(),
+      supabase.from('user_settings').select('time_zone').eq('user_id', userId).maybeSingle(),
+      supabase.from('slack_user_links').select('user_id')
+        .eq('slack_team_id', payload.team?.id || payload.user?.team_id || '')
+        .eq('slack_user_id', payload.user?.id || '')
+        .eq('user_id', userId)
+        .maybeSingle(),
+      supabase.from('company_holidays').select('date, name').eq('user_id', userId),
+    ]);
+    if (!link) {
+      return NextResponse.json({ error: 'Slack user is not linked to this contact owner' }, { status: 403 });
+    }
+
+    const todayStr = todayIn(userSettings?.time_zone || DEFAULT_TIME_ZONE);
+    const contact = fromDbContact(row as DbContact);
+    const actor = `slack:${payload.user?.username || payload.user?.name || payload.user?.id || 'unknown'}`;
+
+    // note は mrkdwn で表示するため、名前はエスケープする
+    const name = escapeSlack(contact.name);
+    let note: string;
+    if (contact.status !== 'pending' || contact.deletedAt) {
+      note = `「${name}」はすでに完了または削除されています`;
+    } else {
+      // 繰り返しの次回は、画面と同じく会社の休日も避ける
+      const { patch, summary } = quickActionOf(contact, action.action_id, todayStr, (holidays || []) as CompanyHoliday[]);
+
+      // 操作者を履歴に残すため、ヘッダーを付けたクライアントで更新する（トリガー log_contact_activity が記録する）
+      const { data: updated, error: updateError } = await createClient(supabaseUrl, supabaseServiceKey, {
+        global: { headers: { 'x-activity-actor': actor } },
+      })
+        .from('contacts')
+        .update(toDbPatch(patch))
+        .eq('id', contact.id)
+        .eq('updated_at', contact.updatedAt!) // 読み込み後に画面などで変更されていたら何もしない
+        .select('id')
+        .maybeSingle();
+
+      if (updateError) {
+        console.error('Supabase error:', updateError);
+        return NextResponse.json({ error: 'Database error', details: updateError.message }, { status: 500 });
+      }
+      note = updated
+        ? `✅ ${escapeSlack(actor.slice('slack:'.length))} さんが「${name}」を${summary}`
+        : `「${name}」は他で変更されたため、操作しませんでした`;
+    }
+
+    // 元のメッセージを、操作後の最新のまとめに書き換える
+    const { contacts, error: loadError } = await loadDigestContacts(supabase, userId);
+    if (loadError) {
+      console.error('Supabase error:', loadError);
+      return NextResponse.json({ error: 'Database error', details: loadError }, { status: 500 });
+    }
+
+    const digest = buildDigest(contacts, todayStr, normalizeDigestSections(settings?.slack_digest_sections));
+    const message = {
+      ...renderSlackDigest(digest, { appUrl: process.env.APP_URL || new URL(request.url).origin, actions: true, note }),
+      replace_original: true,
+    };
+
+    if (isSlackResponseUrl(payload.response_url || '')) {
+      const slackResponse = await fetch(payload.response_url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(message),
+      });
+      if (!slackResponse.ok) {
+        console.error('Slack error:', await slackResponse.text());
+      }
+    }
+
+    // Slack は本文を使わない（ローカルで試すときに書き換え後のメッセージを確認できるよう返す）
+    return NextResponse.json(message);
+
+  } catch (error) {
+    console.error('Slack interaction error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import { DEFAULT_TIME_ZONE, todayIn } from '../../../../lib/dates';
+import { attemptWebhookDelivery } from '../../../../lib/webhookDelivery';
+import { WEBHOOK_TEST_EVENT } from '../../../../lib/webhooks';
+import type { DbContact, DbWebhookDelivery, DbWebhookEndpoint, WebhookTestResult } from '../../../../lib/supabase';
+
+// Supabase クライアント（ログインユーザーの確認は anon キー、送信ログの書き込みは service role キー）
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+// 連絡先がまだないときに送る例（期日はユーザーのタイムゾーンの今日）
+const sampleContact = (userId: string, now: Date, today: string): DbContact => ({
+  id: '00000000-0000-0000-0000-000000000000',
+  name: 'テスト株式会社 田中様',
+  purpose: 'Webhook のテスト送信',
+  deadline: today,
+  due_time: null,
+  reminder_offsets: [],
+  reminder_rules: null,
+  status: 'pending',
+  category: 'customer',
+  priority: 'C',
+  order: 0,
+  created_at: now.toISOString(),
+  updated_at: now.toISOString(),
+  completed_at: null,
+  user_id: userId,
+  deleted_at: null,
+  original_deadline: null,
+  postpone_count: 0,
+});
+
+// 送信先にテストのイベント（webhook.test）をすぐに送り、結果を返す（設定画面の「テスト送信」）
+// Authorization: Bearer <アクセストークン> と { endpointId } が必要。data は最近更新した連絡先（なければ例）
+// テスト送信は再送しない。結果は送信ログと同じく、状態・HTTP ステータス・失敗の種類（lib/webhooks.ts の WebhookError）のみ返す
+export async function POST(request: Request) {
+  if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+    return NextResponse.json({ error: 'Supabase is not configured' }, { status: 503 });
+  }
+
+  const token = request.headers.get('authorization')?.replace(/^Bearer /, '');
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    // 送信先と連絡先は、ログインユーザーのトークンで読む（自分のものしか読めない）
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+
+    const { data: { user }, error: authError } = await userClient.auth.getUser(token);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { endpointId } = await request.json().catch(() => ({}));
+    if (typeof endpointId !== 'string' || !endpointId) {
+      return NextResponse.json({ error: 'Bad request' }, { status: 400 });
+    }
+
+    const { data: endpoint } = await userClient
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('id', endpointId)
+      .maybeSingle();
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+    }
+
+    const [{ data: latest }, { data: userSettings }] = await Promise.all([
+      userClient
+        .from('contacts')
+        .select('*')
+        .is('deleted_at', null)
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      userClient.from('user_settings').select('time_zone').eq('user_id', user.id).maybeSingle(),
+    ]);
+
+    const now = new Date();
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { data: delivery, error } = await supabase
+      .from('webhook_deliveries')
+      .insert({
+        endpoint_id: endpoint.id,
+        user_id: user.id,
+        event: WEBHOOK_TEST_EVENT,
+        payload: {
+          id: randomUUID(),
+          event: WEBHOOK_TEST_EVENT,
+          created_at: now.toISOString(),
+          data: (latest as DbContact | null) ?? sampleContact(user.id, now, todayIn(userSettings?.time_zone || DEFAULT_TIME_ZONE, now)),
+        },
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
+    }
+
+    // 無効にしている送信先にも、テストは送る
+    const result = await attemptWebhookDelivery(
+      supabase,
+      delivery as DbWebhookDelivery,
+      { ...(endpoint as DbWebhookEndpoint), enabled: true },
+      { retry: false, now }
+    );
+    const body: WebhookTestResult = {
+      id: result.id,
+      status: result.status,
+      response_status: result.response_status,
+      last_error: result.last_error,
+    };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Webhook test error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
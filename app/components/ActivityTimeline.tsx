@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { ApiResult } from '../../lib/supabase';
+import { describeActivity, describeActor } from '../../lib/activity';
+import type { ContactActivity } from '../../lib/activity';
+
+const ACTIVITY_ICONS: Record<ContactActivity['type'], string> = {
+  created: '➕',
+  edited: '✏️',
+  completed: '✅',
+  reopened: '↩️',
+  rescheduled: '📅',
+  priority_changed: '🎯',
+  category_changed: '🏷️',
+  deleted: '🗑️',
+  restored: '♻️',
+};
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('ja-JP', { year: 'numeric', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// 最後に完了してからの日数
+const daysSince = (date: string) => Math.floor((Date.now() - new Date(date).getTime()) / (24 * 60 * 60 * 1000));
+
+// 連絡先カードの操作履歴（開いたときに読み込む）
+export function ActivityTimeline({
+  contactId,
+  load,
+  currentUserEmail,
+}: {
+  contactId: string;
+  load: (contactId: string) => Promise<ApiResult<ContactActivity[]>>;
+  currentUserEmail?: string;
+}) {
+  const [activities, setActivities] = useState<ContactActivity[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    load(contactId).then(result => {
+      if (cancelled) return;
+      if (result.ok) {
+        setActivities(result.data);
+      } else {
+        setError(result.error.message);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [contactId, load]);
+
+  if (error) {
+    return <p className="mt-2 text-xs text-red-600">履歴を読み込めませんでした</p>;
+  }
+
+  if (!activities) {
+    return (
+      <div className="mt-2 flex items-center gap-2 text-xs text-gray-400">
+        <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-gray-400"></div>
+        履歴を読み込み中...
+      </div>
+    );
+  }
+
+  if (activities.length === 0) {
+    return <p className="mt-2 text-xs text-gray-400">履歴はまだありません</p>;
+  }
+
+  const lastCompleted = activities.find(a => a.type === 'completed');
+
+  return (
+    <div className="mt-2 rounded-lg bg-slate-50 border border-slate-100 p-2 sm:p-3">
+      <p className="text-xs font-semibold text-slate-700 mb-2">
+        {lastCompleted
+          ? `最後の対応：${formatDateTime(lastCompleted.createdAt)}（${daysSince(lastCompleted.createdAt)}日前）`
+          : 'まだ完了した記録はありません'}
+      </p>
+      <ol className="relative border-l border-slate-200 ml-1.5 space-y-2">
+        {activities.map(activity => (
+          <li key={activity.id} className="ml-3">
+            <span className="absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full bg-white text-[10px]">
+              {ACTIVITY_ICONS[activity.type]}
+            </span>
+            <p className="text-xs text-slate-800">{describeActivity(activity)}</p>
+            <p className="text-[11px] text-slate-400">
+              {formatDateTime(activity.createdAt)}・{describeActor(activity.actor, currentUserEmail)}
+            </p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
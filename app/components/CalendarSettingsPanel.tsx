@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from 'react';
+import { TIME_ZONE_OPTIONS, formatDisplayDate } from '../../lib/dates';
+import { nationalHolidays } from '../../lib/holidays';
+import type { CompanyHoliday } from '../../lib/holidays';
+
+const formatDay = (date: string) =>
+  formatDisplayDate(date, { year: 'numeric', month: 'numeric', day: 'numeric', weekday: 'short' });
+
+// 「今日」を決めるタイムゾーン、祝日の一覧と会社の休日の設定
+export function CalendarSettingsPanel({
+  today,
+  timeZone,
+  companyHolidays,
+  onTimeZoneChange,
+  onChange,
+  onClose,
+}: {
+  today: string;
+  timeZone: string;
+  companyHolidays: CompanyHoliday[];
+  onTimeZoneChange: (timeZone: string) => void;
+  onChange: (holidays: CompanyHoliday[]) => void;
+  onClose: () => void;
+}) {
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+
+  // 今日から1年分の祝日
+  const year = Number(today.slice(0, 4));
+  const oneYearLater = `${year + 1}${today.slice(4)}`;
+  const upcoming = [...nationalHolidays(year), ...nationalHolidays(year + 1)]
+    .filter(([d]) => d >= today && d < oneYearLater)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const addHoliday = () => {
+    if (!date) return;
+    onChange([...companyHolidays.filter(h => h.date !== date), { date, name: name.trim() || '会社休日' }]);
+    setDate('');
+    setName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+          <div>
+            <h2 className="text-base sm:text-lg font-bold text-gray-800">🗓️ 日付と休日の設定</h2>
+            <p className="text-xs text-gray-500">「営業日」を選んだ期日は、土日・祝日・会社の休日を避けます</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600" title="閉じる">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-4">
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">タイムゾーン</h3>
+            <select
+              value={timeZone}
+              onChange={e => onTimeZoneChange(e.target.value)}
+              className="px-2 py-1 text-sm border rounded"
+            >
+              {!TIME_ZONE_OPTIONS.some(option => option.value === timeZone) && (
+                <option value={timeZone}>{timeZone}</option>
+              )}
+              {TIME_ZONE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              「今日」の判定（期限切れの繰り越し・今日の期日・通知）に使います。現在の今日: {formatDay(today)}
+            </p>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">会社の休日</h3>
+            <div className="flex gap-2 mb-2">
+              <input
+                type="date"
+                value={date}
+                onChange={e => setDate(e.target.value)}
+                className="px-2 py-1 text-sm border rounded"
+              />
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="名称（例：年末年始休業）"
+                className="flex-1 min-w-0 px-2 py-1 text-sm border rounded"
+              />
+              <button
+                onClick={addHoliday}
+                disabled={!date}
+                className="px-3 py-1 text-xs font-semibold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+              >
+                追加
+              </button>
+            </div>
+            {companyHolidays.length === 0 ? (
+              <p className="text-xs text-gray-400">登録されていません</p>
+            ) : (
+              <ul className="space-y-1">
+                {companyHolidays.map(holiday => (
+                  <li key={holiday.date} className="flex items-center gap-2 text-sm">
+                    <span className="w-36 text-gray-600">{formatDay(holiday.date)}</span>
+                    <span className="flex-1 text-gray-800 truncate">{holiday.name}</span>
+                    <button
+                      onClick={() => onChange(companyHolidays.filter(h => h.date !== holiday.date))}
+                      className="text-xs text-gray-400 hover:text-red-600"
+                    >
+                      削除
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">今後1年の祝日</h3>
+            <ul className="space-y-1">
+              {upcoming.map(([holidayDate, holidayName]) => (
+                <li key={holidayDate} className="flex items-center gap-2 text-sm">
+                  <span className="w-36 text-gray-600">{formatDay(holidayDate)}</span>
+                  <span className="text-gray-800">{holidayName}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
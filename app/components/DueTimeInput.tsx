@@ -0,0 +1,67 @@
+"use client";
+
+import { REMINDER_OFFSET_OPTIONS } from '../../lib/reminders';
+
+// 期日の時刻（任意）と、時刻の何分前に通知するか
+export function DueTimeInput({
+  time,
+  offsets,
+  onTimeChange,
+  onOffsetsChange,
+  className = '',
+}: {
+  time: string;
+  offsets: number[];
+  onTimeChange: (time: string) => void;
+  onOffsetsChange: (offsets: number[]) => void;
+  className?: string;
+}) {
+  const toggleOffset = (minutes: number) => {
+    onOffsetsChange(offsets.includes(minutes)
+      ? offsets.filter(m => m !== minutes)
+      : [...offsets, minutes].sort((a, b) => a - b));
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1">
+        <input
+          type="time"
+          value={time}
+          onChange={e => onTimeChange(e.target.value)}
+          className={className}
+          title="時刻（任意）"
+        />
+        {time && (
+          <button
+            type="button"
+            onClick={() => onTimeChange('')}
+            className="px-1 text-xs text-gray-400 hover:text-gray-600"
+            title="時刻をなくす（終日）"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+      {time && (
+        <div className="flex gap-1 flex-wrap">
+          <span className="text-xs text-gray-500">🔔</span>
+          {REMINDER_OFFSET_OPTIONS.map(option => (
+            <button
+              key={option.minutes}
+              type="button"
+              onClick={() => toggleOffset(option.minutes)}
+              className={`px-1.5 py-0.5 text-xs rounded border ${
+                offsets.includes(option.minutes)
+                  ? 'bg-indigo-500 text-white border-indigo-500'
+                  : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { describeNonBusinessDay, rollToBusinessDay } from '../../lib/holidays';
+import type { CompanyHoliday } from '../../lib/holidays';
+
+// 日付の入力欄の下に、土日・祝日・会社の休日であることを表示する
+export function HolidayHint({
+  date,
+  companyHolidays,
+  onShift,
+}: {
+  date: string;
+  companyHolidays: CompanyHoliday[];
+  onShift: (date: string) => void;
+}) {
+  const label = date ? describeNonBusinessDay(date, companyHolidays) : undefined;
+  if (!label) return null;
+
+  return (
+    <p className="mt-1 text-xs text-red-600">
+      {label}（休日）
+      <button
+        type="button"
+        onClick={() => onShift(rollToBusinessDay(date, companyHolidays))}
+        className="ml-2 text-indigo-600 hover:text-indigo-800 underline"
+      >
+        翌営業日にする
+      </button>
+    </p>
+  );
+}
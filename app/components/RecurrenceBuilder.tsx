@@ -0,0 +1,316 @@
+"use client";
+
+import { useState } from 'react';
+import { formatDisplayDate, weekdayOf } from '../../lib/dates';
+import {
+  createRule,
+  describeRecurrence,
+  describeRecurrenceEnd,
+  expandOccurrences,
+  formatRRule,
+  parseRRule,
+  withMonthDay,
+} from '../../lib/recurrence';
+import type { Occurrence, RecurrenceFrequency, RecurrenceRule } from '../../lib/recurrence';
+import type { CompanyHoliday } from '../../lib/holidays';
+
+// よく使う繰り返し
+const PRESETS: { label: string; rule: string }[] = [
+  { label: '毎日', rule: 'FREQ=DAILY' },
+  { label: '平日毎日', rule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' },
+  { label: '毎週', rule: 'FREQ=WEEKLY' },
+  { label: '隔週 月・木', rule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH' },
+  { label: '毎月', rule: 'FREQ=MONTHLY' },
+  { label: '毎月第2火曜', rule: 'FREQ=MONTHLY;BYDAY=2TU' },
+  { label: '月末', rule: 'FREQ=MONTHLY;BYMONTHDAY=-1' },
+  { label: '四半期ごと', rule: 'FREQ=MONTHLY;INTERVAL=3' },
+];
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = { DAILY: '日', WEEKLY: '週', MONTHLY: 'か月', YEARLY: '年' };
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0]; // 月曜始まりで表示
+const ORDINAL_OPTIONS = [
+  { value: 1, label: '第1' },
+  { value: 2, label: '第2' },
+  { value: 3, label: '第3' },
+  { value: 4, label: '第4' },
+  { value: -1, label: '最終' },
+];
+const PREVIEW_COUNT = 5;
+
+type MonthlyMode = 'same' | 'monthday' | 'weekday';
+type EndMode = 'never' | 'until' | 'count';
+
+const monthlyModeOf = (rule: RecurrenceRule): MonthlyMode =>
+  rule.byMonthDay.length > 0 ? 'monthday' : rule.byDay.some(d => d.ordinal !== undefined) ? 'weekday' : 'same';
+
+const endModeOf = (rule: RecurrenceRule): EndMode =>
+  rule.until ? 'until' : rule.count !== undefined ? 'count' : 'never';
+
+const formatPreviewDate = (date: string) =>
+  formatDisplayDate(date, { year: 'numeric', month: 'numeric', day: 'numeric', weekday: 'short' });
+
+// 繰り返しのルールを組み立てる（startDate の翌日以降の回をプレビューし、最初の回を次回の期日にする）
+// 適用すると新しいシリーズとして始まる（COUNT は最初の回から数える）
+export function RecurrenceBuilder({
+  startDate,
+  initialRule,
+  companyHolidays,
+  applyLabel = 'この繰り返しで次回を設定',
+  onApply,
+}: {
+  startDate: string;
+  initialRule?: string;
+  companyHolidays: CompanyHoliday[];
+  applyLabel?: string;
+  onApply: (rule: string, first: Occurrence) => void;
+}) {
+  const [rule, setRule] = useState<RecurrenceRule>(
+    () => (initialRule && parseRRule(initialRule)) || createRule('WEEKLY')
+  );
+  const [text, setText] = useState(() => formatRRule(rule));
+  const [textError, setTextError] = useState(false);
+
+  const update = (next: RecurrenceRule) => {
+    setRule(next);
+    setText(formatRRule(next));
+    setTextError(false);
+  };
+
+  // RRULE を直接入力した場合は、解釈できたときだけルールに反映する
+  const updateText = (value: string) => {
+    setText(value);
+    const parsed = parseRRule(value);
+    setTextError(!parsed);
+    if (parsed) setRule(parsed);
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    const selected = rule.byDay.some(d => d.weekday === weekday);
+    update({
+      ...rule,
+      byDay: selected ? rule.byDay.filter(d => d.weekday !== weekday) : [...rule.byDay, { weekday }],
+    });
+  };
+
+  const setMonthlyMode = (mode: MonthlyMode) => {
+    const base = { ...rule, byDay: [], byMonthDay: [], bySetPos: [] };
+    if (mode === 'monthday') update({ ...base, byMonthDay: [Number(startDate.slice(8, 10))] });
+    else if (mode === 'weekday') update({ ...base, byDay: [{ weekday: weekdayOf(startDate), ordinal: 1 }] });
+    else update(base);
+  };
+
+  const setEndMode = (mode: EndMode) => {
+    if (mode === 'until') update({ ...rule, until: expandOccurrences(withMonthDay(rule, startDate), startDate, startDate, 1)[0]?.anchor ?? startDate, count: undefined });
+    else if (mode === 'count') update({ ...rule, until: undefined, count: 10 });
+    else update({ ...rule, until: undefined, count: undefined });
+  };
+
+  // 日を指定しない毎月・毎年のルールは、開始日の日で保存する（2月の後も31日に戻る）
+  const applied = withMonthDay(rule, startDate);
+  const preview = textError
+    ? []
+    : expandOccurrences(applied, startDate, startDate, Math.min(PREVIEW_COUNT, applied.count ?? PREVIEW_COUNT), companyHolidays);
+  const endMode = endModeOf(rule);
+  const end = describeRecurrenceEnd(rule);
+  const monthlyMode = monthlyModeOf(rule);
+  const ordinalDay = rule.byDay.find(d => d.ordinal !== undefined);
+
+  return (
+    <div className="space-y-2">
+      {/* よく使う繰り返し */}
+      <div className="flex gap-1.5 flex-wrap">
+        {PRESETS.map(preset => (
+          <button
+            key={preset.rule}
+            onClick={() => update({
+              ...parseRRule(preset.rule)!,
+              shiftToBusinessDay: rule.shiftToBusinessDay,
+              until: rule.until,
+              count: rule.count,
+            })}
+            className={`px-2 py-1 text-xs font-semibold rounded-lg border transition-all ${
+              formatRRule({ ...rule, shiftToBusinessDay: false, until: undefined, count: undefined }) === preset.rule
+                ? 'bg-emerald-500 text-white border-emerald-500'
+                : 'bg-white text-emerald-700 border-emerald-200 hover:bg-emerald-50'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {/* 間隔と頻度 */}
+      <div className="flex items-center gap-2 text-xs">
+        <input
+          type="number"
+          min="1"
+          value={rule.interval}
+          onChange={e => update({ ...rule, interval: Math.max(1, parseInt(e.target.value) || 1) })}
+          className="w-16 px-2 py-1 border rounded"
+        />
+        <select
+          value={rule.freq}
+          onChange={e => update(createRule(e.target.value as RecurrenceFrequency, {
+            interval: rule.interval,
+            shiftToBusinessDay: rule.shiftToBusinessDay,
+            until: rule.until,
+            count: rule.count,
+          }))}
+          className="px-2 py-1 border rounded"
+        >
+          {(Object.keys(FREQUENCY_UNITS) as RecurrenceFrequency[]).map(freq => (
+            <option key={freq} value={freq}>{FREQUENCY_UNITS[freq]}ごと</option>
+          ))}
+        </select>
+      </div>
+
+      {/* 曜日（毎週） */}
+      {rule.freq === 'WEEKLY' && (
+        <div className="flex gap-1">
+          {WEEKDAY_ORDER.map(weekday => (
+            <button
+              key={weekday}
+              onClick={() => toggleWeekday(weekday)}
+              className={`w-7 h-7 text-xs font-semibold rounded-full border ${
+                rule.byDay.some(d => d.weekday === weekday)
+                  ? 'bg-indigo-500 text-white border-indigo-500'
+                  : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {WEEKDAY_LABELS[weekday]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* 日付・第N曜日（毎月） */}
+      {rule.freq === 'MONTHLY' && (
+        <div className="flex items-center gap-2 flex-wrap text-xs">
+          <select
+            value={monthlyMode}
+            onChange={e => setMonthlyMode(e.target.value as MonthlyMode)}
+            className="px-2 py-1 border rounded"
+          >
+            <option value="same">期日と同じ日</option>
+            <option value="monthday">日付を指定</option>
+            <option value="weekday">第N曜日</option>
+          </select>
+          {monthlyMode === 'monthday' && (
+            <select
+              value={rule.byMonthDay[0]}
+              onChange={e => update({ ...rule, byMonthDay: [Number(e.target.value)] })}
+              className="px-2 py-1 border rounded"
+            >
+              {Array.from({ length: 31 }, (_, i) => i + 1).map(day => (
+                <option key={day} value={day}>{day}日</option>
+              ))}
+              <option value={-1}>末日</option>
+            </select>
+          )}
+          {monthlyMode === 'weekday' && ordinalDay && (
+            <>
+              <select
+                value={ordinalDay.ordinal}
+                onChange={e => update({ ...rule, byDay: [{ ...ordinalDay, ordinal: Number(e.target.value) }] })}
+                className="px-2 py-1 border rounded"
+              >
+                {ORDINAL_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <select
+                value={ordinalDay.weekday}
+                onChange={e => update({ ...rule, byDay: [{ ...ordinalDay, weekday: Number(e.target.value) }] })}
+                className="px-2 py-1 border rounded"
+              >
+                {WEEKDAY_ORDER.map(weekday => (
+                  <option key={weekday} value={weekday}>{WEEKDAY_LABELS[weekday]}曜日</option>
+                ))}
+              </select>
+            </>
+          )}
+        </div>
+      )}
+
+      <label className="flex items-center gap-1.5 text-xs text-gray-700">
+        <input
+          type="checkbox"
+          checked={rule.shiftToBusinessDay}
+          onChange={e => update({ ...rule, shiftToBusinessDay: e.target.checked })}
+        />
+        営業日（土日・祝日に当たる回は翌営業日にする）
+      </label>
+
+      {/* 終了条件 */}
+      <div className="flex items-center gap-2 flex-wrap text-xs">
+        <span className="text-gray-700">終了:</span>
+        <select
+          value={endMode}
+          onChange={e => setEndMode(e.target.value as EndMode)}
+          className="px-2 py-1 border rounded"
+        >
+          <option value="never">なし</option>
+          <option value="until">日付まで</option>
+          <option value="count">回数</option>
+        </select>
+        {endMode === 'until' && (
+          <input
+            type="date"
+            value={rule.until}
+            onChange={e => e.target.value && update({ ...rule, until: e.target.value })}
+            className="px-2 py-1 border rounded"
+          />
+        )}
+        {endMode === 'count' && (
+          <>
+            <input
+              type="number"
+              min="1"
+              value={rule.count}
+              onChange={e => update({ ...rule, count: Math.max(1, parseInt(e.target.value) || 1) })}
+              className="w-16 px-2 py-1 border rounded"
+            />
+            <span>回</span>
+          </>
+        )}
+      </div>
+
+      {/* RRULE の直接入力 */}
+      <div className="text-xs">
+        <input
+          type="text"
+          value={text}
+          onChange={e => updateText(e.target.value)}
+          spellCheck={false}
+          className={`w-full px-2 py-1 font-mono border rounded ${textError ? 'border-red-400 bg-red-50' : ''}`}
+        />
+        {textError && <p className="text-red-600 mt-0.5">RRULE として解釈できません</p>}
+      </div>
+
+      {/* 今後の予定 */}
+      {!textError && (
+        <div className="text-xs text-gray-600">
+          <p className="font-semibold text-indigo-800">
+            {describeRecurrence(applied)}{end ? `（${end}）` : ''}・今後{preview.length}回:
+          </p>
+          {preview.length === 0 ? (
+            <p className="text-gray-400">該当する日がありません</p>
+          ) : (
+            <ul className="flex gap-x-3 flex-wrap">
+              {preview.map(occurrence => <li key={occurrence.date}>{formatPreviewDate(occurrence.date)}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => onApply(formatRRule(applied), preview[0])}
+        disabled={preview.length === 0}
+        className="px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm bg-gradient-to-r from-emerald-500 to-teal-500 text-white font-semibold rounded-lg sm:rounded-xl hover:from-emerald-600 hover:to-teal-600 shadow-md hover:shadow-lg transition-all disabled:opacity-50"
+      >
+        {applyLabel}
+      </button>
+    </div>
+  );
+}
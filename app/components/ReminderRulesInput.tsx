@@ -0,0 +1,56 @@
+"use client";
+
+import { REMINDER_RULE_OPTIONS, describeReminderRule, normalizeReminderRules } from '../../lib/reminders';
+import type { ReminderRule } from '../../lib/reminders';
+
+// 期日を基準にした通知のルール（◯日前・当日・期限切れの間は毎日）
+// rules が undefined なら「既定」（連絡先ではカテゴリの既定、カテゴリでは時刻のない連絡先だけ当日と期限切れの通知）
+export function ReminderRulesInput({
+  rules,
+  onChange,
+  defaultLabel = '既定',
+  defaultRules,
+}: {
+  rules?: string[];
+  onChange: (rules?: string[]) => void;
+  defaultLabel?: string;
+  defaultRules?: ReminderRule[]; // 既定のときに適用されるルール（表示用）
+}) {
+  const selected = rules ? normalizeReminderRules(rules) : null;
+
+  const toggleRule = (rule: ReminderRule) => {
+    const current = selected ?? [];
+    onChange(normalizeReminderRules(current.includes(rule) ? current.filter(r => r !== rule) : [...current, rule]));
+  };
+
+  const buttonClass = (active: boolean) => `px-1.5 py-0.5 text-xs rounded border ${
+    active
+      ? 'bg-indigo-500 text-white border-indigo-500'
+      : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+  }`;
+
+  return (
+    <div className="flex gap-1 flex-wrap items-center">
+      <span className="text-xs text-gray-500" title="期日の通知">📣</span>
+      <button
+        type="button"
+        onClick={() => onChange(undefined)}
+        className={buttonClass(!selected)}
+        title={defaultRules ? (defaultRules.map(describeReminderRule).join('・') || '通知なし') : undefined}
+      >
+        {defaultLabel}
+      </button>
+      {REMINDER_RULE_OPTIONS.map(option => (
+        <button
+          key={option.rule}
+          type="button"
+          onClick={() => toggleRule(option.rule)}
+          className={buttonClass(!!selected?.includes(option.rule))}
+        >
+          {option.label}
+        </button>
+      ))}
+      {selected && selected.length === 0 && <span className="text-xs text-gray-400">通知しない</span>}
+    </div>
+  );
+}
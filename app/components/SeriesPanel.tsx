@@ -0,0 +1,201 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { ApiResult } from '../../lib/supabase';
+import { formatDisplayDate } from '../../lib/dates';
+import type { Contact } from '../../lib/contacts';
+import type { ContactActivity } from '../../lib/activity';
+import type { CompanyHoliday } from '../../lib/holidays';
+import {
+  describeRecurrence,
+  describeRecurrenceEnd,
+  recurrenceAnchorOf,
+  recurrenceOf,
+  upcomingOccurrences,
+} from '../../lib/recurrence';
+import type { Occurrence } from '../../lib/recurrence';
+import { RecurrenceBuilder } from './RecurrenceBuilder';
+
+const UPCOMING_COUNT = 5;
+
+const formatDate = (date: string) =>
+  formatDisplayDate(date, { year: 'numeric', month: 'numeric', day: 'numeric', weekday: 'short' });
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// 繰り返しのシリーズ（過去の回・今後の回）と、この回だけ／以降すべての変更
+export function SeriesPanel({
+  contact,
+  today,
+  companyHolidays,
+  loadActivity,
+  onRescheduleThis,
+  onChangeFuture,
+  onPause,
+  onClose,
+}: {
+  contact: Contact;
+  today: string;
+  companyHolidays: CompanyHoliday[];
+  loadActivity: (contactId: string) => Promise<ApiResult<ContactActivity[]>>;
+  onRescheduleThis: (date: string) => void;
+  onChangeFuture: (rule: string, first: Occurrence) => void;
+  onPause: (until?: string) => void;
+  onClose: () => void;
+}) {
+  const [past, setPast] = useState<ContactActivity[] | null>(null);
+  const [thisDate, setThisDate] = useState(contact.deadline);
+  const [pauseUntil, setPauseUntil] = useState(contact.recurrencePausedUntil || '');
+  const [editingFuture, setEditingFuture] = useState(false);
+
+  // 過去の回は操作履歴の「完了」から作る
+  useEffect(() => {
+    let cancelled = false;
+    loadActivity(contact.id).then(result => {
+      if (!cancelled) setPast(result.ok ? result.data.filter(a => a.type === 'completed') : []);
+    });
+    return () => { cancelled = true; };
+  }, [contact.id, loadActivity]);
+
+  const rule = recurrenceOf(contact);
+  if (!rule) return null;
+
+  const progress = { completedCount: contact.occurrenceCount || 0, pausedUntil: contact.recurrencePausedUntil };
+  const upcoming = upcomingOccurrences(rule, recurrenceAnchorOf(contact), UPCOMING_COUNT, companyHolidays, progress);
+  const end = describeRecurrenceEnd(rule);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+          <div className="min-w-0">
+            <h2 className="text-base sm:text-lg font-bold text-gray-800 truncate">🔁 {contact.name}</h2>
+            <p className="text-xs text-gray-500">
+              {describeRecurrence(rule)}
+              {end && `・${end}`}
+              {rule.count !== undefined && `（${progress.completedCount}回完了）`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600" title="閉じる">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-4 text-sm">
+          <section>
+            <h3 className="font-semibold text-gray-700 mb-1">今後の予定</h3>
+            <ul className="space-y-0.5">
+              <li className="flex gap-2">
+                <span className="w-40 font-semibold text-indigo-700">{formatDate(contact.deadline)}</span>
+                <span className="text-xs text-indigo-600">この回</span>
+              </li>
+              {upcoming.map(occurrence => (
+                <li key={occurrence.date} className="flex gap-2 text-gray-700">
+                  <span className="w-40">{formatDate(occurrence.date)}</span>
+                  {occurrence.date !== occurrence.anchor && (
+                    <span className="text-xs text-gray-400">本来は {formatDate(occurrence.anchor)}</span>
+                  )}
+                </li>
+              ))}
+              {upcoming.length < UPCOMING_COUNT && (
+                <li className="text-xs text-gray-400">以降の予定はありません（繰り返しの終了）</li>
+              )}
+            </ul>
+            {contact.recurrencePausedUntil && (
+              <p className="mt-1 text-xs text-amber-700">⏸ {formatDate(contact.recurrencePausedUntil)} まで一時停止中</p>
+            )}
+          </section>
+
+          <section>
+            <h3 className="font-semibold text-gray-700 mb-1">過去の回</h3>
+            {past === null ? (
+              <p className="text-xs text-gray-400">読み込み中...</p>
+            ) : past.length === 0 ? (
+              <p className="text-xs text-gray-400">まだ完了した回はありません</p>
+            ) : (
+              <ul className="space-y-0.5">
+                {past.map(activity => (
+                  <li key={activity.id} className="flex gap-2 text-gray-600">
+                    <span className="w-40">{activity.details.deadline ? formatDate(activity.details.deadline) : '-'}</span>
+                    <span className="text-xs text-gray-400">{formatDateTime(activity.createdAt)} に完了</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="space-y-1">
+            <h3 className="font-semibold text-gray-700">この回だけ変更</h3>
+            <p className="text-xs text-gray-500">以降の回の予定は変わりません</p>
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={thisDate}
+                onChange={e => setThisDate(e.target.value)}
+                className="px-2 py-1 border rounded"
+              />
+              <button
+                onClick={() => thisDate && onRescheduleThis(thisDate)}
+                disabled={!thisDate || thisDate === contact.deadline}
+                className="px-3 py-1 text-xs font-semibold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+              >
+                この回の期日を変更
+              </button>
+            </div>
+          </section>
+
+          <section className="space-y-1">
+            <h3 className="font-semibold text-gray-700">一時停止</h3>
+            <p className="text-xs text-gray-500">指定した日より前の回を飛ばします</p>
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={pauseUntil}
+                min={today}
+                onChange={e => setPauseUntil(e.target.value)}
+                className="px-2 py-1 border rounded"
+              />
+              <button
+                onClick={() => pauseUntil && onPause(pauseUntil)}
+                disabled={!pauseUntil || pauseUntil <= today}
+                className="px-3 py-1 text-xs font-semibold bg-amber-500 text-white rounded-lg hover:bg-amber-600 disabled:opacity-50"
+              >
+                この日まで停止
+              </button>
+              {contact.recurrencePausedUntil && (
+                <button
+                  onClick={() => onPause(undefined)}
+                  className="px-3 py-1 text-xs font-semibold bg-white text-amber-700 border border-amber-300 rounded-lg hover:bg-amber-50"
+                >
+                  再開
+                </button>
+              )}
+            </div>
+          </section>
+
+          <section className="space-y-1">
+            <h3 className="font-semibold text-gray-700">以降すべてを変更</h3>
+            {editingFuture ? (
+              <RecurrenceBuilder
+                startDate={today}
+                initialRule={contact.recurrenceRule}
+                companyHolidays={companyHolidays}
+                applyLabel="この回と以降の回を変更"
+                onApply={onChangeFuture}
+              />
+            ) : (
+              <button
+                onClick={() => setEditingFuture(true)}
+                className="px-3 py-1 text-xs font-semibold bg-white text-emerald-700 border border-emerald-300 rounded-lg hover:bg-emerald-50"
+              >
+                繰り返しのルール・終了条件を編集
+              </button>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
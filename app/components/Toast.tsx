@@ -0,0 +1,81 @@
+"use client";
+
+import { useState, useCallback, useRef } from 'react';
+
+export type ToastKind = 'success' | 'error' | 'info';
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface ToastMessage {
+  id: number;
+  kind: ToastKind;
+  message: string;
+  action?: ToastAction;
+}
+
+// トースト表示用のフック（エラーは操作が必要なため長めに表示）
+export function useToast() {
+  const [toasts, setToasts] = useState<ToastMessage[]>([]);
+  const nextId = useRef(1);
+
+  const dismissToast = useCallback((id: number) => {
+    setToasts(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  const showToast = useCallback((toast: Omit<ToastMessage, 'id'>) => {
+    const id = nextId.current++;
+    setToasts(prev => [...prev, { ...toast, id }]);
+    setTimeout(() => dismissToast(id), toast.kind === 'error' ? 10000 : 4000);
+  }, [dismissToast]);
+
+  return { toasts, showToast, dismissToast };
+}
+
+export function ToastContainer({
+  toasts,
+  onDismiss,
+}: {
+  toasts: ToastMessage[];
+  onDismiss: (id: number) => void;
+}) {
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 max-w-sm w-[calc(100%-2rem)]">
+      {toasts.map(toast => (
+        <div
+          key={toast.id}
+          role={toast.kind === 'error' ? 'alert' : 'status'}
+          className={`flex items-start gap-3 p-3 rounded-xl shadow-xl border text-sm ${
+            toast.kind === 'error' ? 'bg-red-50 border-red-300 text-red-800' :
+            toast.kind === 'success' ? 'bg-emerald-50 border-emerald-300 text-emerald-800' :
+            'bg-white border-slate-200 text-slate-800'
+          }`}
+        >
+          <p className="flex-1 font-medium">{toast.message}</p>
+          {toast.action && (
+            <button
+              onClick={() => {
+                onDismiss(toast.id);
+                toast.action!.onClick();
+              }}
+              className="px-2 py-1 text-xs font-bold bg-white rounded-lg border border-current hover:opacity-80 whitespace-nowrap"
+            >
+              {toast.action.label}
+            </button>
+          )}
+          <button
+            onClick={() => onDismiss(toast.id)}
+            className="text-xs opacity-60 hover:opacity-100"
+            title="閉じる"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
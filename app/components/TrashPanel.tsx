@@ -0,0 +1,80 @@
+"use client";
+
+import type { Contact } from '../../lib/contacts';
+import { TRASH_RETENTION_DAYS, daysUntilPurge } from '../../lib/trash';
+
+// ゴミ箱の一覧（元に戻す・完全に削除）
+export function TrashPanel({
+  contacts,
+  loading,
+  onRestore,
+  onPurge,
+  onClose,
+}: {
+  contacts: Contact[];
+  loading: boolean;
+  onRestore: (ids: string[]) => void;
+  onPurge: (ids: string[]) => void;
+  onClose: () => void;
+}) {
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+          <div>
+            <h2 className="text-base sm:text-lg font-bold text-gray-800">🗑️ ゴミ箱</h2>
+            <p className="text-xs text-gray-500">{TRASH_RETENTION_DAYS}日経つと完全に削除されます</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600" title="閉じる">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-400"></div>
+            </div>
+          ) : contacts.length === 0 ? (
+            <p className="text-center text-sm text-gray-400 py-8">ゴミ箱は空です</p>
+          ) : (
+            contacts.map(contact => (
+              <div key={contact.id} className="flex items-center gap-2 rounded-lg border border-gray-100 p-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-gray-800 truncate">{contact.name}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {contact.purpose}・あと{daysUntilPurge(contact.deletedAt!)}日で削除
+                  </p>
+                </div>
+                <button
+                  onClick={() => onRestore([contact.id])}
+                  className="px-3 py-1 text-xs font-semibold bg-indigo-50 text-indigo-700 rounded-lg hover:bg-indigo-100 border border-indigo-200"
+                >
+                  元に戻す
+                </button>
+                <button
+                  onClick={() => onPurge([contact.id])}
+                  className="px-3 py-1 text-xs font-semibold bg-red-50 text-red-700 rounded-lg hover:bg-red-100 border border-red-200"
+                >
+                  完全に削除
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {contacts.length > 0 && !loading && (
+          <div className="px-4 py-3 border-t border-gray-100 flex justify-end">
+            <button
+              onClick={() => onPurge(contacts.map(c => c.id))}
+              className="px-3 py-1.5 text-xs font-semibold bg-red-600 text-white rounded-lg hover:bg-red-700"
+            >
+              ゴミ箱を空にする
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
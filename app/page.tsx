@@ -1,39 +1,70 @@
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { contactsApi, isSupabaseConfigured, supabase } from '../lib/supabase';
+import { describeApiError, isSupabaseConfigured, supabase } from '../lib/supabase';
+import type { ApiError, ApiResult, ContactQuery } from '../lib/supabase';
 import type { User } from '@supabase/supabase-js';
-
-type ContactStatus = 'pending' | 'completed';
-type ContactCategory = string;
-
-type ContactPriority = 'A' | 'B' | 'C';
-
-interface Contact {
-  id: string;
-  name: string;
-  purpose: string;
-  deadline: string;
-  status: ContactStatus;
-  category: ContactCategory;
-  priority?: ContactPriority; // 優先度 A > B > C
-  customCategory?: string; // カスタムカテゴリー名
-  createdAt: string;
-  completedAt?: string;
-  recurring?: string;
-  recurringDays?: number; // X日おき
-  recurringWeekday?: number; // 0-6 (日曜-土曜)
-  order?: number; // 表示順序
-  isOverdue?: boolean; // 期限切れフラグ
-  originalDeadline?: string; // 元の期日（期限切れの場合）
-}
+import { ToastContainer, useToast } from './components/Toast';
+import { LOCAL_ID_PREFIX, forceApply, offlineQueue, replayOutbox } from '../lib/offlineQueue';
+import type { NewMutation, SyncConflict } from '../lib/offlineQueue';
+import { subscribeToContacts } from '../lib/realtime';
+import type { ContactChange } from '../lib/realtime';
+import { actualDeadline, fromDbContact, matchesContactQuery, sortDueTime, toDbContact, toDbPatch } from '../lib/contacts';
+import type { Contact, ContactCategory, ContactPatch, ContactPriority, ContactStatus, NewContact } from '../lib/contacts';
+import { createContactRepository } from '../lib/contactRepository';
+import { fetchSchemaProblem } from '../lib/schema';
+import { TRASH_RETENTION_DAYS } from '../lib/trash';
+import { DEFAULT_TIME_ZONE, addDays, addMonths, formatDisplayDate, todayIn } from '../lib/dates';
+import { loadUserSettings, saveUserSettings } from '../lib/userSettings';
+import {
+  allRemindersOf,
+  describeReminderOffset,
+  describeReminderRule,
+  isReminderDue,
+  markReminderSent,
+  normalizeReminderRules,
+  reminderNotificationOf,
+  reminderRulesOf,
+  wasReminderSent,
+} from '../lib/reminders';
+import type { CategoryReminderRules } from '../lib/reminders';
+import { currentPushSubscription, isPushSupported, subscribeToPush } from '../lib/push';
+import {
+  describeRecurrence,
+  describeRecurrenceEnd,
+  recurrenceAnchorOf,
+  recurrenceOf,
+  upcomingOccurrences
+} from '../lib/recurrence';
+import type { Occurrence } from '../lib/recurrence';
+import { TrashPanel } from './components/TrashPanel';
+import { ActivityTimeline } from './components/ActivityTimeline';
+import { RecurrenceBuilder } from './components/RecurrenceBuilder';
+import { HolidayHint } from './components/HolidayHint';
+import { DueTimeInput } from './components/DueTimeInput';
+import { ReminderRulesInput } from './components/ReminderRulesInput';
+import { SeriesPanel } from './components/SeriesPanel';
+import { CalendarSettingsPanel } from './components/CalendarSettingsPanel';
+import { holidayName, rollToBusinessDay } from '../lib/holidays';
+import { loadCompanyHolidays, saveCompanyHolidays } from '../lib/companyHolidays';
+import type { CompanyHoliday } from '../lib/holidays';
+import { completionOf, reschedulePatch } from '../lib/contactActions';
+
+// 楽観的更新で保存先に書き込む変更内容
+type ContactOperation =
+  | { type: 'update'; ids: string[]; patch: ContactPatch; progressLabel?: string }
+  | { type: 'delete'; ids: string[]; progressLabel?: string }
+  | { type: 'reorder'; ids: string[]; progressLabel?: string };
 
 export default function Home() {
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [name, setName] = useState('');
   const [purpose, setPurpose] = useState('');
   const [deadline, setDeadline] = useState('');
+  const [dueTime, setDueTime] = useState(''); // 期日の時刻（空なら終日）
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>([]); // 時刻の何分前に通知するか
+  const [reminderRules, setReminderRules] = useState<string[] | undefined>(); // 期日の通知のルール（なければカテゴリの既定）
   const [category, setCategory] = useState<ContactCategory>('customer');
   const [customCategory, setCustomCategory] = useState('');
   const [showCustomInput, setShowCustomInput] = useState(false);
@@ -44,11 +75,15 @@ export default function Home() {
   const [loading, setLoading] = useState(false);
   const [useDatabase] = useState(() => isSupabaseConfigured());
   const [notificationEnabled, setNotificationEnabled] = useState(false);
+  const [pushSubscribed, setPushSubscribed] = useState(false); // この端末でプッシュ通知を購読しているか（画面を閉じていても届く）
   const [viewMode, setViewMode] = useState<'list' | 'kanban'>('list');
   const [editMode, setEditMode] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
   const [editPurpose, setEditPurpose] = useState('');
   const [editDeadline, setEditDeadline] = useState('');
+  const [editDueTime, setEditDueTime] = useState('');
+  const [editReminderOffsets, setEditReminderOffsets] = useState<number[]>([]);
+  const [editReminderRules, setEditReminderRules] = useState<string[] | undefined>();
   const [editCategory, setEditCategory] = useState<string>('customer');
   const [editPriority, setEditPriority] = useState<ContactPriority>('C');
   const [priority, setPriority] = useState<ContactPriority>('C');
@@ -60,7 +95,50 @@ export default function Home() {
   const [draggedContactId, setDraggedContactId] = useState<string | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set()); // 一括選択用
   const [bulkSelectMode, setBulkSelectMode] = useState(false); // 一括選択モード
+  const [bulkProgress, setBulkProgress] = useState<{ label: string; count: number } | null>(null); // 一括処理の進捗表示
+  const [isOnline, setIsOnline] = useState(true);
+  const [pendingCount, setPendingCount] = useState(0); // 未同期の変更件数
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]); // 同期できなかった変更
+  const [schemaProblem, setSchemaProblem] = useState<string | null>(null); // DBのスキーマ不一致
+  const [repositoryReady, setRepositoryReady] = useState(false); // 保存先の準備（移行など）が完了したか
+  const [debouncedSearch, setDebouncedSearch] = useState(''); // サーバーに問い合わせる検索語
+  const [nextCursor, setNextCursor] = useState<string | null>(null); // 次のページのカーソル
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [showTrash, setShowTrash] = useState(false); // ゴミ箱の表示
+  const [trashedContacts, setTrashedContacts] = useState<Contact[]>([]);
+  const [trashLoading, setTrashLoading] = useState(false);
+  const [timelineId, setTimelineId] = useState<string | null>(null); // 履歴を開いている連絡先
+  const [companyHolidays, setCompanyHolidays] = useState<CompanyHoliday[]>([]); // 会社の休日
+  const [showCalendarSettings, setShowCalendarSettings] = useState(false); // 日付と休日の設定の表示
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE); // 「今日」を決めるタイムゾーン（ユーザーごとの設定）
+  const [categoryReminderRules, setCategoryReminderRules] = useState<CategoryReminderRules>({}); // カテゴリごとの通知のルールの既定
+  const [businessDaysOnly, setBusinessDaysOnly] = useState(false); // 次回期日のボタンで休日を避けるか
+  const [seriesId, setSeriesId] = useState<string | null>(null); // シリーズを開いている連絡先
+  const [highlightedId, setHighlightedId] = useState<string | null>(null); // Slack のまとめのリンクから開いた連絡先
+  const syncingRef = useRef(false);
+  const timeZoneRef = useRef(DEFAULT_TIME_ZONE); // 保存先が期限切れを繰り越すときの「今日」に使う
+  const listRequestRef = useRef(0); // 最新の読み込み要求（古い応答で上書きしない）
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const inFlightRef = useRef(new Map<string, number>()); // 保存中の連絡先ID → 件数（自分の書き込みのエコーを無視する）
   const router = useRouter();
+  const { toasts, showToast, dismissToast } = useToast();
+
+  // 保存先（LocalStorage / Supabase / メモリ）。Supabaseはログイン後に確定する
+  const userId = user?.id;
+  const repository = useMemo(
+    () => createContactRepository(!!useDatabase, userId, () => todayIn(timeZoneRef.current)),
+    [useDatabase, userId]
+  );
+
+  // 利用者のタイムゾーンでの今日（YYYY-MM-DD）。期日の比較はすべてこの文字列で行う
+  const today = todayIn(timeZone);
+
+  // 一覧の絞り込み条件（サーバーに保存する場合はサーバー側で絞り込み・ページングする）
+  const listQuery = useMemo<ContactQuery>(() => ({
+    category: selectedCategory === 'all' ? undefined : selectedCategory,
+    search: debouncedSearch || undefined,
+    sort: sortMode === 'auto' ? 'deadline' : sortMode
+  }), [selectedCategory, debouncedSearch, sortMode]);
 
   // カスタムカテゴリを抽出する関数
   const extractCustomCategories = (contacts: Contact[]): string[] => {
@@ -106,28 +184,6 @@ export default function Home() {
     return defaultIcons[index];
   };
 
-  // 期限切れチェックと自動修正
-  const checkAndFixOverdueContacts = (contacts: Contact[]): Contact[] => {
-    const today = new Date().toISOString().split('T')[0];
-
-    return contacts.map(contact => {
-      const contactDate = new Date(contact.deadline);
-      const todayDate = new Date(today);
-
-      // 期限切れかつ未完了の場合
-      if (contactDate < todayDate && contact.status === 'pending') {
-        return {
-          ...contact,
-          originalDeadline: contact.originalDeadline || contact.deadline, // 初回のみ元の期日を保存
-          deadline: today, // 期日を今日に修正
-          isOverdue: true // 期限切れフラグを設定
-        };
-      }
-
-      return contact;
-    });
-  };
-
   // 履歴を保存する関数
   const saveToHistory = (newContacts: Contact[]) => {
     const newHistory = history.slice(0, historyIndex + 1);
@@ -154,151 +210,108 @@ export default function Home() {
     }
   };
 
+  // 連絡先の読み込み（サーバーに保存する場合は条件に一致する1ページ目のみ）
   const loadContacts = useCallback(async () => {
+    if (!repository) return;
+    const requestId = ++listRequestRef.current;
     setLoading(true);
+    setLoadingMore(false);
+
+    // LocalStorage 等は全件を手元に持つ（Undo/Redo の結果をまるごと保存するため）
+    const result = repository.remote
+      ? await repository.listPage(listQuery)
+      : await repository.list();
+    if (requestId !== listRequestRef.current) return;
+
+    if (!result.ok) {
+      // 読み込めなかった場合は空のリストで上書きせず、再試行を促す
+      showToast({
+        kind: 'error',
+        message: `連絡先を読み込めませんでした：${describeApiError(result.error)}`,
+        action: { label: '再試行', onClick: () => loadContacts() }
+      });
+      setLoading(false);
+      return;
+    }
 
-    if (useDatabase && user) {
-      // Supabaseから読み込み（ユーザー固有のデータ + 移行前のデータ）
-      const userContacts = await contactsApi.getAll(user.id);
-      const legacyContacts = await contactsApi.getAll(undefined); // user_idがNULLのデータ
-      const dbContacts = [...userContacts, ...legacyContacts];
-
-      // 移行前のデータ（user_idがNULL）がある場合、現在のユーザーに紐付ける
-      if (legacyContacts.length > 0) {
-        console.log('移行前のデータを発見。ユーザーに紐付けています...');
-        for (const contact of legacyContacts) {
-          if (contact.id) {
-            await contactsApi.update(contact.id, { user_id: user.id });
-          }
-        }
-        // 更新後、再度読み込み
-        const updatedContacts = await contactsApi.getAll(user.id);
-        const formattedContacts: Contact[] = updatedContacts.map(dbContact => ({
-          id: dbContact.id || '',
-          name: dbContact.name,
-          purpose: dbContact.purpose,
-          deadline: dbContact.deadline,
-          status: dbContact.status,
-          category: dbContact.category || 'customer',
-          priority: dbContact.priority || 'C',
-          createdAt: dbContact.created_at || '',
-          completedAt: dbContact.completed_at || undefined,
-          recurring: dbContact.recurring
-        }));
-
-        // 期限切れチェックと修正
-        const checkedContacts = checkAndFixOverdueContacts(formattedContacts);
-        setContacts(checkedContacts);
-
-        // カスタムカテゴリを抽出
-        const customCats = extractCustomCategories(checkedContacts);
-        setCustomCategories(customCats);
-
-        setLoading(false);
-        return;
-      }
-
-      // LocalStorageにデータがあり、Supabaseが空の場合、自動マイグレーション
-      // 旧キー名もチェック
-      const stored = localStorage.getItem('contacts') || localStorage.getItem('agent-details');
-      if (stored && dbContacts.length === 0) {
-        const localContacts = JSON.parse(stored);
-        console.log('自動マイグレーション: LocalStorage → Supabase');
-
-        // LocalStorageのデータをSupabaseに移行
-        for (const contact of localContacts) {
-          await contactsApi.create({
-            name: contact.name,
-            purpose: contact.purpose,
-            deadline: contact.deadline,
-            status: contact.status || 'pending',
-            category: contact.category || 'customer',
-            recurring: contact.recurring,
-            recurring_days: contact.recurringDays,
-            recurring_weekday: contact.recurringWeekday,
-            order: contact.order || 0,
-            user_id: user.id
-          });
-        }
+    // 期限切れの状態（元の期日・繰り越し回数）は保存先に記録されたものをそのまま使う
+    const loaded = Array.isArray(result.data) ? result.data : result.data.items;
+    setContacts(loaded);
+    setNextCursor(Array.isArray(result.data) ? null : result.data.nextCursor);
 
-        // マイグレーション完了後、LocalStorageをクリア
-        localStorage.removeItem('contacts');
-        localStorage.removeItem('agent-details');
-        alert('以前のデータを正常に移行しました');
-
-        // 再度Supabaseからデータを取得
-        const migratedContacts = await contactsApi.getAll(user.id);
-        const formattedContacts: Contact[] = migratedContacts.map(dbContact => ({
-          id: dbContact.id || '',
-          name: dbContact.name,
-          purpose: dbContact.purpose,
-          deadline: dbContact.deadline,
-          status: dbContact.status,
-          category: dbContact.category || 'customer',
-          priority: dbContact.priority || 'C',
-          createdAt: dbContact.created_at || '',
-          completedAt: dbContact.completed_at || undefined,
-          recurring: dbContact.recurring
-        }));
-
-        // 期限切れチェックと修正
-        const checkedContacts = checkAndFixOverdueContacts(formattedContacts);
-        setContacts(checkedContacts);
-
-        // カスタムカテゴリを抽出
-        const customCats = extractCustomCategories(checkedContacts);
-        setCustomCategories(customCats);
-      } else {
-        // 通常のデータ読み込み
-        const formattedContacts: Contact[] = dbContacts.map(dbContact => ({
-          id: dbContact.id || '',
-          name: dbContact.name,
-          purpose: dbContact.purpose,
-          deadline: dbContact.deadline,
-          status: dbContact.status,
-          category: dbContact.category || 'customer',
-          priority: dbContact.priority || 'C',
-          createdAt: dbContact.created_at || '',
-          completedAt: dbContact.completed_at || undefined,
-          recurring: dbContact.recurring
-        }));
-
-        // 期限切れチェックと修正
-        const checkedContacts = checkAndFixOverdueContacts(formattedContacts);
-        setContacts(checkedContacts);
-
-        // カスタムカテゴリを抽出
-        const customCats = extractCustomCategories(checkedContacts);
-        setCustomCategories(customCats);
-      }
-    } else if (!useDatabase) {
-      // LocalStorageから読み込み（ログインなしモード）
-      const stored = localStorage.getItem('contacts') || localStorage.getItem('agent-details');
-      if (stored) {
-        const parsedContacts = JSON.parse(stored).map((contact: Contact) => ({
-          ...contact,
-          category: contact.category || 'customer'
-        }));
-
-        // 期限切れチェックと修正
-        const checkedContacts = checkAndFixOverdueContacts(parsedContacts);
-        setContacts(checkedContacts);
-
-        // カスタムカテゴリを抽出
-        const customCats = extractCustomCategories(checkedContacts);
-        setCustomCategories(customCats);
-      }
+    // カスタムカテゴリを抽出（絞り込み中も他のカテゴリを選べるよう、既存の一覧に追加する）
+    const customCats = extractCustomCategories(loaded);
+    setCustomCategories(prev => [...new Set([...prev, ...customCats])]);
 
-      // LocalStorageからカスタムカテゴリも読み込み（バックアップとして）
-      const storedCategories = localStorage.getItem('customCategories');
-      if (storedCategories) {
-        const localCustomCats = JSON.parse(storedCategories);
-        setCustomCategories(prev => [...new Set([...prev, ...localCustomCats])]);
-      }
+    // LocalStorageからカスタムカテゴリも読み込み（バックアップとして）
+    const storedCategories = localStorage.getItem('customCategories');
+    if (storedCategories) {
+      const localCustomCats = JSON.parse(storedCategories);
+      setCustomCategories(prev => [...new Set([...prev, ...localCustomCats])]);
     }
 
     setLoading(false);
-  }, [useDatabase, user]);
+  }, [repository, listQuery, showToast]);
+
+  // 次のページを読み込んで末尾に追加
+  const loadMoreContacts = useCallback(async () => {
+    if (!repository || !nextCursor || loadingMore) return;
+    const requestId = listRequestRef.current;
+    setLoadingMore(true);
+
+    const result = await repository.listPage(listQuery, nextCursor);
+    if (requestId !== listRequestRef.current) return;
+    setLoadingMore(false);
+
+    if (!result.ok) {
+      showToast({
+        kind: 'error',
+        message: `続きを読み込めませんでした：${describeApiError(result.error)}`,
+        action: { label: '再試行', onClick: () => loadMoreContacts() }
+      });
+      return;
+    }
+
+    // リアルタイム通知や新規追加で読み込み済みの連絡先は重複させない
+    const page = result.data.items;
+    setContacts(prev => [...prev, ...page.filter(c => !prev.some(p => p.id === c.id))]);
+    setCustomCategories(prev => [...new Set([...prev, ...extractCustomCategories(page)])]);
+    setNextCursor(result.data.nextCursor);
+  }, [repository, listQuery, nextCursor, loadingMore, showToast]);
+
+  // 再接続時の読み直しで購読を張り直さないよう、最新の読み込み関数を参照する
+  const loadContactsRef = useRef(loadContacts);
+  useEffect(() => {
+    loadContactsRef.current = loadContacts;
+  }, [loadContacts]);
+
+  // 「営業日」の設定を読み込む
+  useEffect(() => {
+    setBusinessDaysOnly(localStorage.getItem('rollToBusinessDay') === 'true');
+  }, []);
+
+  // 会社の休日を読み込む。Supabase に保存する場合はログイン後に読み込む
+  useEffect(() => {
+    if (!repository) return;
+    loadCompanyHolidays(repository.remote ? userId : undefined).then(result => {
+      if (result.ok) {
+        setCompanyHolidays(result.data);
+      } else {
+        showToast({ kind: 'error', message: `会社の休日を読み込めませんでした: ${describeApiError(result.error)}` });
+      }
+    });
+  }, [repository, userId, showToast]);
+
+  // 利用者の設定（タイムゾーン・通知のルールの既定）を読み込む。Supabase に保存する場合はログイン後に読み込む
+  useEffect(() => {
+    if (!repository) return;
+    loadUserSettings(repository.remote ? userId : undefined).then(result => {
+      if (!result.ok) return;
+      timeZoneRef.current = result.data.timeZone;
+      setTimeZone(result.data.timeZone);
+      setCategoryReminderRules(result.data.categoryReminderRules);
+    });
+  }, [repository, userId]);
 
   // 認証状態の確認
   useEffect(() => {
@@ -343,47 +356,205 @@ export default function Home() {
     }
   }, [router, useDatabase]);
 
-  // データの読み込み
-  useEffect(() => {
-    if (user || !useDatabase) {
-      loadContacts();
+  // 未同期の変更（アウトボックス）を順に送信
+  const syncOutbox = useCallback(async () => {
+    if (!repository?.remote || syncingRef.current) return;
+    syncingRef.current = true;
+
+    try {
+      const result = await replayOutbox();
+
+      // 仮IDを実IDに置き換え、サーバー側のバージョンを反映
+      setContacts(prev => prev.map(c => {
+        const created = result.createdIds[c.id];
+        if (created) {
+          return { ...c, id: created.id || c.id, createdAt: created.created_at || c.createdAt, updatedAt: created.updated_at };
+        }
+        const updated = result.updatedRows.find(row => row.id === c.id);
+        return updated ? { ...c, updatedAt: updated.updated_at } : c;
+      }));
+
+      if (result.conflicts.length > 0) {
+        setSyncConflicts(prev => [...prev, ...result.conflicts]);
+      }
+      if (result.synced > 0 && result.remaining === 0) {
+        showToast({ kind: 'success', message: `${result.synced}件の変更を同期しました` });
+      }
+    } catch (error) {
+      console.error('Outbox replay failed:', error);
+    } finally {
+      syncingRef.current = false;
+      setPendingCount(await offlineQueue.count());
+    }
+  }, [repository, showToast]);
+
+  // 保存先の準備（スキーマの確認、未同期の変更の送信、以前のデータの移行）
+  const prepareRepository = useCallback(async () => {
+    setRepositoryReady(false);
+    if (!repository) return;
+
+    if (repository.remote) {
+      // 列が一致しないまま読み込むと空のリストに見えるため、先にスキーマを確認する
+      const problem = await fetchSchemaProblem();
+      setSchemaProblem(problem);
+      if (problem) return;
+
+      if (navigator.onLine) {
+        await syncOutbox();
+      }
+    }
+
+    if (repository.prepare) {
+      setLoading(true);
+      const prepared = await repository.prepare((label, count) => setBulkProgress({ label, count }));
+      setBulkProgress(null);
+      setLoading(false);
+      if (!prepared.ok) {
+        // 移行は全件成功か全件失敗のため、以前のデータは残っている
+        showToast({
+          kind: 'error',
+          message: `以前のデータを移行できませんでした：${describeApiError(prepared.error)}`,
+          action: { label: '再試行', onClick: () => prepareRepository() }
+        });
+        return;
+      }
+      if (prepared.data.migrated > 0) {
+        showToast({ kind: 'success', message: '以前のデータを正常に移行しました' });
+      }
     }
-  }, [loadContacts, user, useDatabase]);
+
+    setRepositoryReady(true);
+  }, [repository, syncOutbox, showToast]);
+
+  useEffect(() => {
+    prepareRepository();
+  }, [prepareRepository]);
+
+  // 検索語の入力が止まってからサーバーに問い合わせる
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // データの読み込み（準備の完了後、絞り込み条件が変わるたびに1ページ目から読み直す）
+  useEffect(() => {
+    if (repositoryReady) loadContacts();
+  }, [repositoryReady, loadContacts]);
+
+  // リストの末尾が見えたら次のページを読み込む
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMoreContacts();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMoreContacts]);
+
+  // 他の端末での変更をリアルタイムに反映
+  useEffect(() => {
+    if (!repository?.remote || !userId) return;
+
+    const applyRemoteChange = (change: ContactChange) => {
+      if (change.type === 'DELETE') {
+        setContacts(prev => prev.filter(c => c.id !== change.id));
+        return;
+      }
+
+      const incoming = change.row;
+      // 保存中の連絡先は、保存完了時のレスポンスを正とする
+      if (!incoming.id || inFlightRef.current.has(incoming.id)) return;
+
+      setContacts(prev => {
+        const existing = prev.find(c => c.id === incoming.id);
+        // 自分の書き込みのエコー（既に反映済みのバージョン）は無視
+        if (existing?.updatedAt && existing.updatedAt === incoming.updated_at) return prev;
+
+        const merged = { ...fromDbContact(incoming), customCategory: existing?.customCategory };
+        return existing
+          ? prev.map(c => c.id === incoming.id ? merged : c)
+          : [...prev, merged];
+      });
+    };
+
+    // 再接続時は切断中の変更を取りこぼしている可能性があるため、読み直す
+    const subscription = subscribeToContacts(userId, applyRemoteChange, () => loadContactsRef.current());
+
+    // スリープ復帰・オンライン復帰時に接続を確認
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') subscription.ensureConnected();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('online', subscription.ensureConnected);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('online', subscription.ensureConnected);
+      subscription.unsubscribe();
+    };
+  }, [repository, userId]);
+
+  // オンライン/オフラインの監視（復帰時にアウトボックスを送信）
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+    offlineQueue.count().then(setPendingCount).catch(() => setPendingCount(0));
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncOutbox();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncOutbox]);
 
   // ブラウザ通知の初期化
   useEffect(() => {
     if ('Notification' in window && Notification.permission === 'granted') {
       setNotificationEnabled(true);
     }
+    currentPushSubscription().then(subscription => setPushSubscribed(!!subscription));
   }, []);
 
-  // 定期的な通知チェック（1分ごと）
+  // 定期的な通知チェック（1分ごと。プッシュ通知を購読している端末はサーバーから届くため行わない）
   useEffect(() => {
-    if (!notificationEnabled) return;
+    if (!notificationEnabled || pushSubscribed) return;
+
+    // 通知ごとに1回だけ表示する（送信済みは端末の LocalStorage に記録）
+    const notify = (key: string, title: string, body: string) => {
+      if (wasReminderSent(key)) return;
+      markReminderSent(key);
+      const notification = new Notification(title, {
+        body,
+        icon: '/favicon.ico',
+        tag: key
+      });
+
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+      };
+    };
 
     const checkNotifications = () => {
       const now = new Date();
-      const todayStr = now.toDateString();
 
+      // 時刻のある連絡先は指定した時刻（◯分前）に、時刻のない連絡先は期日の朝から1日1回（サーバーのプッシュ通知と同じ）
       contacts
-        .filter(c => c.status === 'pending')
+        .filter(c => c.status === 'pending' && !c.deletedAt)
         .forEach(contact => {
-          const deadlineDate = new Date(contact.deadline);
-          const deadlineStr = deadlineDate.toDateString();
-
-          // 本日の期限
-          if (deadlineStr === todayStr) {
-            const notification = new Notification('期日管理システム - 本日の連絡', {
-              body: `${contact.name}への連絡: ${contact.purpose}`,
-              icon: '/favicon.ico',
-              tag: `deadline-${contact.id}` // 同じ通知の重複を防ぐ
+          allRemindersOf(contact, timeZone, categoryReminderRules)
+            .filter(reminder => isReminderDue(reminder, now))
+            .forEach(reminder => {
+              const { title, body } = reminderNotificationOf(contact, reminder);
+              notify(reminder.key, title, body);
             });
-
-            notification.onclick = () => {
-              window.focus();
-              notification.close();
-            };
-          }
         });
     };
 
@@ -394,14 +565,26 @@ export default function Home() {
     const interval = setInterval(checkNotifications, 60000);
 
     return () => clearInterval(interval);
-  }, [contacts, notificationEnabled]);
+  }, [categoryReminderRules, contacts, notificationEnabled, pushSubscribed, timeZone]);
 
-  // データの保存（LocalStorageのみ）
+  // 画面の状態をまるごと保存（LocalStorage など、Undo/Redo の結果も保存する保存先のみ）
   useEffect(() => {
-    if (!useDatabase && contacts.length > 0) {
-      localStorage.setItem('contacts', JSON.stringify(contacts));
+    if (repository?.saveSnapshot && contacts.length > 0) {
+      repository.saveSnapshot(contacts);
     }
-  }, [contacts, useDatabase]);
+  }, [contacts, repository]);
+
+  // Slack のまとめのリンク（/?contact=<id>）から開いたとき、その連絡先までスクロールして目立たせる
+  useEffect(() => {
+    const contactId = new URLSearchParams(window.location.search).get('contact');
+    if (!contactId) return;
+    const element = document.getElementById(`contact-${contactId}`);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(contactId);
+    window.history.replaceState(null, '', window.location.pathname);
+  }, [contacts, viewMode]);
 
   // 編集開始
   const startEdit = (contact: Contact) => {
@@ -409,36 +592,160 @@ export default function Home() {
     setEditName(contact.name);
     setEditPurpose(contact.purpose);
     setEditDeadline(contact.deadline);
+    setEditDueTime(contact.dueTime || '');
+    setEditReminderOffsets(contact.reminderOffsets || []);
+    setEditReminderRules(contact.reminderRules);
     setEditCategory(contact.category);
     setEditPriority(contact.priority || 'C');
   };
 
+  // 保存失敗をトーストで通知し、再試行を提示する
+  const notifyFailure = (message: string, error: ApiError, retry: () => void) => {
+    showToast({
+      kind: 'error',
+      message: `${message}：${describeApiError(error)}`,
+      action: { label: '再試行', onClick: retry }
+    });
+  };
+
+  // 保存結果のバージョン（updatedAt）をローカル状態に反映
+  const syncUpdatedAt = (data: Contact | Contact[] | void) => {
+    const saved = data ? (Array.isArray(data) ? data : [data]) : [];
+    if (saved.length === 0) return;
+    setContacts(prev => prev.map(c => {
+      const row = saved.find(r => r.id === c.id);
+      return row ? { ...c, updatedAt: row.updatedAt } : c;
+    }));
+  };
+
+  // 変更をアウトボックスに積む（オンライン復帰時に順に送信される）
+  const queueMutations = async (mutations: NewMutation[]) => {
+    for (const mutation of mutations) {
+      await offlineQueue.enqueue(mutation);
+    }
+    setPendingCount(await offlineQueue.count());
+  };
+
+  // 読み込み時点のバージョン（競合検出の基準）
+  const baseVersionOf = (id: string) => contacts.find(c => c.id === id)?.updatedAt;
+
+  // 変更内容を保存先に書き込む（複数件は1リクエストで全件成功か全件失敗）
+  const persistOperation = async (operation: ContactOperation): Promise<ApiResult<Contact | Contact[] | void>> => {
+    const { ids } = operation;
+    if (operation.progressLabel) {
+      setBulkProgress({ label: operation.progressLabel, count: ids.length });
+    }
+    try {
+      if (operation.type === 'reorder') return await repository!.reorder(ids);
+      if (operation.type === 'delete') {
+        return ids.length === 1 ? await repository!.delete(ids[0]) : await repository!.bulkDelete(ids);
+      }
+      return ids.length === 1
+        ? await repository!.update(ids[0], operation.patch)
+        : await repository!.bulkUpdate(ids, operation.patch);
+    } finally {
+      if (operation.progressLabel) setBulkProgress(null);
+    }
+  };
+
+  // オフライン時にアウトボックスへ積む形に変換
+  const toMutations = (operation: ContactOperation): NewMutation[] => {
+    if (operation.type === 'reorder') return [{ type: 'reorder', contactIds: operation.ids }];
+    if (operation.type === 'delete') return operation.ids.map(id => ({ type: 'delete' as const, contactId: id }));
+    const payload = toDbPatch(operation.patch);
+    return operation.ids.map(id => ({ type: 'update' as const, contactId: id, payload, baseUpdatedAt: baseVersionOf(id) }));
+  };
+
+  // 再試行：保存に成功したら、その時点のローカル状態に変更を反映する
+  const retryPersist = async (
+    apply: (list: Contact[]) => Contact[],
+    operation: ContactOperation,
+    failureMessage: string
+  ) => {
+    const result = await persistOperation(operation);
+    if (result.ok) {
+      setContacts(prev => apply(prev));
+      syncUpdatedAt(result.data);
+      showToast({ kind: 'success', message: '保存しました' });
+    } else {
+      notifyFailure(failureMessage, result.error, () => retryPersist(apply, operation, failureMessage));
+    }
+  };
+
+  // 楽観的更新：ローカル状態を先に更新し、保存に失敗したら元に戻して再試行を提示する
+  // サーバーに保存する場合、オフライン時は元に戻さずアウトボックスに積む
+  const applyOptimistic = async (
+    apply: (list: Contact[]) => Contact[],
+    operation: ContactOperation,
+    failureMessage: string
+  ): Promise<boolean> => {
+    if (!repository) return false;
+    const previousContacts = contacts;
+    setContacts(apply(contacts));
+
+    // 未送信の変更がある間は、順序を保つため後続の変更もキューに積む
+    if (repository.remote && (!navigator.onLine || pendingCount > 0)) {
+      await queueMutations(toMutations(operation));
+      if (navigator.onLine) syncOutbox();
+      return true;
+    }
+
+    // 保存中はリアルタイム通知のエコーで状態が巻き戻らないようにする
+    operation.ids.forEach(id => inFlightRef.current.set(id, (inFlightRef.current.get(id) || 0) + 1));
+    const result = await persistOperation(operation);
+    operation.ids.forEach(id => {
+      const remaining = (inFlightRef.current.get(id) || 1) - 1;
+      if (remaining > 0) {
+        inFlightRef.current.set(id, remaining);
+      } else {
+        inFlightRef.current.delete(id);
+      }
+    });
+
+    if (result.ok) {
+      syncUpdatedAt(result.data);
+      return true;
+    }
+
+    if (repository.remote && result.error.kind === 'network') {
+      await queueMutations(toMutations(operation));
+      return true;
+    }
+
+    setContacts(previousContacts);
+    notifyFailure(failureMessage, result.error, () => retryPersist(apply, operation, failureMessage));
+    return false;
+  };
+
   // 編集保存
   const saveEdit = async (id: string) => {
     if (!editName || !editPurpose || !editDeadline) {
-      alert('すべての項目を入力してください');
+      showToast({ kind: 'error', message: 'すべての項目を入力してください' });
       return;
     }
 
-    if (useDatabase) {
-      await contactsApi.update(id, {
-        name: editName,
-        purpose: editPurpose,
-        deadline: editDeadline,
-        category: editCategory,
-        priority: editPriority
-      });
-    }
+    const current = contacts.find(c => c.id === id);
+    const patch: ContactPatch = {
+      name: editName,
+      purpose: editPurpose,
+      category: editCategory,
+      priority: editPriority,
+      dueTime: editDueTime || undefined,
+      reminderOffsets: editDueTime ? editReminderOffsets : [],
+      reminderRules: editReminderRules,
+      ...(editDeadline !== current?.deadline ? reschedulePatch(editDeadline) : {})
+    };
 
-    const updatedContacts = contacts.map(c =>
-      c.id === id
-        ? { ...c, name: editName, purpose: editPurpose, deadline: editDeadline, category: editCategory, priority: editPriority, isOverdue: false, originalDeadline: undefined }
-        : c
-    );
-    // 期限切れチェック
-    const checkedContacts = checkAndFixOverdueContacts(updatedContacts);
-    setContacts(checkedContacts);
     setEditMode(null);
+    const saved = await applyOptimistic(
+      list => list.map(c => c.id === id ? { ...c, ...patch } : c),
+      { type: 'update', ids: [id], patch },
+      '変更を保存できませんでした'
+    );
+    if (!saved) {
+      // 入力内容を残したまま編集モードに戻す
+      setEditMode(id);
+    }
   };
 
   // 編集キャンセル
@@ -447,18 +754,75 @@ export default function Home() {
     setEditName('');
     setEditPurpose('');
     setEditDeadline('');
+    setEditDueTime('');
+    setEditReminderOffsets([]);
+    setEditReminderRules(undefined);
     setEditCategory('customer');
     setEditPriority('C');
   };
 
   // 削除
   const deleteContact = async (id: string) => {
-    if (!confirm('この連絡先を削除してもよろしいですか？')) return;
+    if (!confirm('この連絡先をゴミ箱に移動してもよろしいですか？')) return;
+
+    const deleted = await applyOptimistic(
+      list => list.filter(c => c.id !== id),
+      { type: 'delete', ids: [id] },
+      '削除できませんでした'
+    );
+    if (deleted) notifyTrashed([id]);
+  };
+
+  // ゴミ箱に移動したことを通知し、すぐに元に戻せるようにする
+  const notifyTrashed = (ids: string[]) => {
+    showToast({
+      kind: 'info',
+      message: `${ids.length}件をゴミ箱に移動しました（${TRASH_RETENTION_DAYS}日後に完全に削除されます）`,
+      action: { label: '元に戻す', onClick: () => restoreContacts(ids) }
+    });
+  };
+
+  // ゴミ箱を開く
+  const openTrash = async () => {
+    if (!repository) return;
+    setShowTrash(true);
+    setTrashLoading(true);
+    const result = await repository.listTrash();
+    setTrashLoading(false);
+    if (!result.ok) {
+      notifyFailure('ゴミ箱を読み込めませんでした', result.error, () => openTrash());
+      return;
+    }
+    setTrashedContacts(result.data);
+  };
 
-    if (useDatabase) {
-      await contactsApi.delete(id);
+  // ゴミ箱から元に戻す
+  const restoreContacts = async (ids: string[]) => {
+    if (!repository) return;
+    const result = await repository.restore(ids);
+    if (!result.ok) {
+      notifyFailure('元に戻せませんでした', result.error, () => restoreContacts(ids));
+      return;
     }
-    setContacts(contacts.filter(c => c.id !== id));
+
+    // リアルタイム通知で先に戻っている場合は重複させない
+    const restored = result.data;
+    setTrashedContacts(prev => prev.filter(c => !ids.includes(c.id)));
+    setContacts(prev => [...prev.filter(c => !ids.includes(c.id)), ...restored]);
+    showToast({ kind: 'success', message: `${restored.length}件を元に戻しました` });
+  };
+
+  // ゴミ箱から完全に削除
+  const purgeContacts = async (ids: string[]) => {
+    if (!repository) return;
+    if (!confirm(`${ids.length}件を完全に削除してもよろしいですか？この操作は元に戻せません。`)) return;
+
+    const result = await repository.purge(ids);
+    if (!result.ok) {
+      notifyFailure('完全に削除できませんでした', result.error, () => purgeContacts(ids));
+      return;
+    }
+    setTrashedContacts(prev => prev.filter(c => !ids.includes(c.id)));
   };
 
   // 一括選択の切り替え
@@ -484,7 +848,7 @@ export default function Home() {
   // 一括優先度設定
   const bulkSetPriority = async (newPriority: ContactPriority) => {
     if (selectedIds.size === 0) {
-      alert('連絡先を選択してください');
+      showToast({ kind: 'info', message: '連絡先を選択してください' });
       return;
     }
 
@@ -493,34 +857,60 @@ export default function Home() {
     // 履歴を保存
     saveToHistory(contacts);
 
-    const updatedContacts = contacts.map(contact => {
-      if (selectedIds.has(contact.id)) {
-        return { ...contact, priority: newPriority };
-      }
-      return contact;
-    });
+    const ids = [...selectedIds];
 
-    // データベースを更新
-    if (useDatabase) {
-      for (const id of selectedIds) {
-        await contactsApi.update(id, { priority: newPriority });
-      }
-    }
+    // 保存先を更新（全件成功か全件失敗）
+    const saved = await applyOptimistic(
+      list => list.map(contact => ids.includes(contact.id) ? { ...contact, priority: newPriority } : contact),
+      { type: 'update', ids, patch: { priority: newPriority }, progressLabel: '優先度を更新' },
+      '優先度の一括更新に失敗しました'
+    );
+
+    setLoading(false);
+    if (!saved) return;
 
-    setContacts(updatedContacts);
     setSelectedIds(new Set());
     setBulkSelectMode(false);
+    showToast({ kind: 'success', message: `${ids.length}件の優先度を ${newPriority} に設定しました` });
+  };
+
+  // 一括削除
+  const bulkDelete = async () => {
+    if (selectedIds.size === 0) {
+      showToast({ kind: 'info', message: '連絡先を選択してください' });
+      return;
+    }
+
+    if (!confirm(`${selectedIds.size}件の連絡先をゴミ箱に移動してもよろしいですか？`)) return;
+
+    setLoading(true);
+
+    // 履歴を保存
+    saveToHistory(contacts);
+
+    const ids = [...selectedIds];
+
+    // 保存先から削除（全件成功か全件失敗）
+    const deleted = await applyOptimistic(
+      list => list.filter(c => !ids.includes(c.id)),
+      { type: 'delete', ids, progressLabel: '削除' },
+      '一括削除に失敗しました'
+    );
+
     setLoading(false);
-    alert(`${selectedIds.size}件の優先度を ${newPriority} に設定しました`);
+    if (!deleted) return;
+
+    setSelectedIds(new Set());
+    setBulkSelectMode(false);
+    notifyTrashed(ids);
   };
 
   // 期限切れを一括で本日に更新
   const bulkUpdateOverdueToToday = async () => {
-    const today = new Date().toISOString().split('T')[0];
     const overdueContacts = contacts.filter(c => c.isOverdue && c.status === 'pending');
 
     if (overdueContacts.length === 0) {
-      alert('期限切れの連絡先はありません');
+      showToast({ kind: 'info', message: '期限切れの連絡先はありません' });
       return;
     }
 
@@ -533,60 +923,49 @@ export default function Home() {
     // 履歴を保存
     saveToHistory(contacts);
 
-    const updatedContacts = contacts.map(contact => {
-      if (contact.isOverdue && contact.status === 'pending') {
-        return {
-          ...contact,
-          deadline: today,
-          isOverdue: false,
-          originalDeadline: undefined
-        };
-      }
-      return contact;
-    });
+    const ids = overdueContacts.map(c => c.id);
 
-    // データベースを更新
-    if (useDatabase) {
-      for (const contact of overdueContacts) {
-        await contactsApi.update(contact.id, {
-          deadline: today
-        });
-      }
-    }
+    // 保存先を更新（全件成功か全件失敗）
+    const patch = reschedulePatch(today);
+    const saved = await applyOptimistic(
+      list => list.map(contact => ids.includes(contact.id) ? { ...contact, ...patch } : contact),
+      { type: 'update', ids, patch, progressLabel: '期限切れを本日に更新' },
+      '期日の一括更新に失敗しました'
+    );
 
-    setContacts(updatedContacts);
     setLoading(false);
-    alert(`${overdueContacts.length}件の期日を本日に更新しました`);
+    if (saved) {
+      showToast({ kind: 'success', message: `${ids.length}件の期日を本日に更新しました` });
+    }
   };
 
   // 順序変更
-  const moveContact = (id: string, direction: 'up' | 'down') => {
+  const moveContact = async (id: string, direction: 'up' | 'down') => {
     const index = contacts.findIndex(c => c.id === id);
     if (index === -1) return;
 
-    const newContacts = [...contacts];
+    const orderedIds = contacts.map(c => c.id);
     if (direction === 'up' && index > 0) {
-      [newContacts[index], newContacts[index - 1]] = [newContacts[index - 1], newContacts[index]];
+      [orderedIds[index], orderedIds[index - 1]] = [orderedIds[index - 1], orderedIds[index]];
     } else if (direction === 'down' && index < contacts.length - 1) {
-      [newContacts[index], newContacts[index + 1]] = [newContacts[index + 1], newContacts[index]];
+      [orderedIds[index], orderedIds[index + 1]] = [orderedIds[index + 1], orderedIds[index]];
     }
 
-    // 順序を更新
-    const updatedContacts = newContacts.map((c, i) => ({ ...c, order: i }));
-    setContacts(updatedContacts);
-
-    // データベースに保存
-    if (useDatabase) {
-      updatedContacts.forEach(async (c) => {
-        await contactsApi.update(c.id, { order: c.order });
-      });
-    }
+    // 順序を更新し、保存先に書き込む（1リクエストで全件の順序を更新）
+    await applyOptimistic(
+      list => [...list]
+        .sort((a, b) => orderedIds.indexOf(a.id) - orderedIds.indexOf(b.id))
+        .map((c, i) => ({ ...c, order: i })),
+      { type: 'reorder', ids: orderedIds },
+      '並び順を保存できませんでした'
+    );
   };
 
   // 新規追加
   const handleAdd = async () => {
+    if (!repository) return;
     if (!name || !purpose || !deadline) {
-      alert('すべての項目を入力してください');
+      showToast({ kind: 'error', message: 'すべての項目を入力してください' });
       return;
     }
 
@@ -598,60 +977,53 @@ export default function Home() {
     }
 
     const finalCategory = category === 'other' ? (customCategory || 'other') : category;
+    const customCategoryName = category === 'other' ? customCategory : undefined;
 
     setLoading(true);
 
-    if (useDatabase) {
-      // Supabaseに保存（ユーザーIDを含める）
-      const dbContact = await contactsApi.create({
-        name,
-        purpose,
-        deadline,
-        status: 'pending',
-        category: finalCategory,
-        priority,
-        user_id: user?.id
-      });
-
-      if (dbContact) {
-        const newContact: Contact = {
-          id: dbContact.id || '',
-          name: dbContact.name,
-          purpose: dbContact.purpose,
-          deadline: dbContact.deadline,
-          status: dbContact.status,
-          category: dbContact.category || 'customer',
-          priority: dbContact.priority || 'C',
-          customCategory: category === 'other' ? customCategory : undefined,
-          createdAt: dbContact.created_at || '',
-          completedAt: dbContact.completed_at || undefined,
-          recurring: dbContact.recurring
-        };
-        // 期限切れチェック
-        const checkedContact = checkAndFixOverdueContacts([newContact])[0];
-        setContacts([...contacts, checkedContact]);
-      }
-    } else {
-      // LocalStorageに保存
-      const newContact: Contact = {
-        id: Date.now().toString(),
-        name,
-        purpose,
-        deadline,
-        status: 'pending',
-        category: finalCategory,
-        priority,
-        customCategory: category === 'other' ? customCategory : undefined,
+    const newContact: NewContact = {
+      name,
+      purpose,
+      deadline,
+      dueTime: dueTime || undefined,
+      reminderOffsets: dueTime ? reminderOffsets : [],
+      reminderRules,
+      status: 'pending',
+      category: finalCategory,
+      priority
+    };
+    const queueFirst = repository.remote && (!navigator.onLine || pendingCount > 0);
+    const result = queueFirst ? null : await repository.create(newContact);
+
+    if (!result || (!result.ok && repository.remote && result.error.kind === 'network')) {
+      // オフライン：仮IDで追加し、作成をアウトボックスに積む
+      const tempId = `${LOCAL_ID_PREFIX}${Date.now()}`;
+      await queueMutations([{ type: 'create', contactId: tempId, payload: toDbContact(newContact, userId) }]);
+      const offlineContact: Contact = {
+        ...newContact,
+        id: tempId,
+        customCategory: customCategoryName,
         createdAt: new Date().toISOString(),
       };
-      // 期限切れチェック
-      const checkedContact = checkAndFixOverdueContacts([newContact])[0];
-      setContacts([...contacts, checkedContact]);
+      setContacts(prev => [...prev, offlineContact]);
+      if (navigator.onLine) syncOutbox();
+    } else if (!result.ok) {
+      // 入力内容はフォームに残したまま再試行できるようにする
+      setLoading(false);
+      notifyFailure('追加できませんでした', result.error, () => handleAdd());
+      return;
+    } else {
+      // リアルタイム通知で先に追加済みの場合は重複させない
+      const created = { ...result.data, customCategory: customCategoryName };
+      setContacts(prev => prev.some(c => c.id === created.id) ? prev : [...prev, created]);
     }
 
     setName('');
     setPurpose('');
     setDeadline('');
+    setDueTime('');
+    setReminderOffsets([]);
+    setReminderRules(undefined);
     setCategory('customer');
     setPriority('C');
     setCustomCategory('');
@@ -667,90 +1039,225 @@ export default function Home() {
     // 現在の状態を履歴に保存
     saveToHistory(contacts);
 
-    const newStatus = contact.status === 'pending' ? 'completed' : 'pending';
+    const newStatus: ContactStatus = contact.status === 'pending' ? 'completed' : 'pending';
     const completedAt = newStatus === 'completed' ? new Date().toISOString() : undefined;
 
-    if (useDatabase) {
-      // Supabaseを更新
-      await contactsApi.update(id, {
-        status: newStatus,
-        completed_at: completedAt || null
-      });
+    // 繰り返しの連絡先は、完了を記録すると同時に次回の期日へ進める（完了後のアクション選択は出さない）
+    const completion = newStatus === 'completed' ? completionOf(contact, today, companyHolidays, completedAt) : null;
+    if (completion?.rule && completion.next) {
+      const { patch, rule, next } = completion;
+      const saved = await applyOptimistic(
+        list => list.map(c => c.id === id ? { ...c, ...patch } : c),
+        { type: 'update', ids: [id], patch },
+        '完了にできませんでした'
+      );
+      if (saved) {
+        showToast({
+          kind: 'success',
+          message: `完了しました。次回は ${formatDisplayDate(next.date)}（${describeRecurrence(rule)}）です`
+        });
+      }
+      return;
+    }
+    if (completion?.rule) {
+      showToast({ kind: 'info', message: '繰り返しはこの回で終了です' });
     }
 
-    // ローカル状態を更新
-    const updatedContacts: Contact[] = contacts.map(contact => {
-      if (contact.id === id) {
-        if (newStatus === 'completed') {
-          setEditingId(id);
-          return { ...contact, status: 'completed' as ContactStatus, completedAt };
-        } else {
-          return { ...contact, status: 'pending' as ContactStatus, completedAt: undefined };
-        }
-      }
-      return contact;
-    });
-    setContacts(updatedContacts);
+    if (newStatus === 'completed') {
+      setEditingId(id);
+    }
+
+    // ローカル状態を更新し、保存先に書き込む
+    const saved = await applyOptimistic(
+      list => list.map(c => c.id === id ? { ...c, status: newStatus, completedAt } : c),
+      { type: 'update', ids: [id], patch: { status: newStatus, completedAt } },
+      newStatus === 'completed' ? '完了にできませんでした' : '未完了に戻せませんでした'
+    );
+    if (!saved && newStatus === 'completed') {
+      setEditingId(null);
+    }
   };
 
   // 次のアクション選択
   const handleNextAction = async (id: string, action: 'schedule' | 'remove' | 'cancel') => {
     if (action === 'remove') {
-      if (useDatabase) {
-        // Supabaseから削除
-        await contactsApi.delete(id);
-      }
-      setContacts(contacts.filter(c => c.id !== id));
+      const deleted = await applyOptimistic(
+        list => list.filter(c => c.id !== id),
+        { type: 'delete', ids: [id] },
+        '削除できませんでした'
+      );
+      if (deleted) notifyTrashed([id]);
     } else if (action === 'cancel') {
-      if (useDatabase) {
-        // Supabaseを更新
-        await contactsApi.update(id, {
-          status: 'pending',
-          completed_at: null
-        });
-      }
-      setContacts(contacts.map(c =>
-        c.id === id ? { ...c, status: 'pending', completedAt: undefined } : c
-      ));
+      const patch: ContactPatch = { status: 'pending', completedAt: undefined };
+      await applyOptimistic(
+        list => list.map(c => c.id === id ? { ...c, ...patch } : c),
+        { type: 'update', ids: [id], patch },
+        '未完了に戻せませんでした'
+      );
     }
     setEditingId(null);
   };
 
+  // 今日から days 日後（months か月後）の期日。「営業日」を選んでいれば休日を避けて翌営業日にする
+  const quickDeadline = (days: number, months = 0) => {
+    const deadline = addDays(addMonths(today, months), days);
+    return businessDaysOnly ? rollToBusinessDay(deadline, companyHolidays) : deadline;
+  };
+
+  const toggleBusinessDaysOnly = (enabled: boolean) => {
+    setBusinessDaysOnly(enabled);
+    localStorage.setItem('rollToBusinessDay', String(enabled));
+  };
+
+  const updateCompanyHolidays = async (holidays: CompanyHoliday[]) => {
+    const previous = companyHolidays;
+    setCompanyHolidays(holidays);
+    const result = await saveCompanyHolidays(holidays, previous, repository?.remote ? userId : undefined);
+    if (!result.ok) {
+      setCompanyHolidays(previous);
+      showToast({ kind: 'error', message: `会社の休日の保存に失敗しました: ${describeApiError(result.error)}` });
+      return;
+    }
+    setCompanyHolidays(result.data);
+  };
+
+  // タイムゾーンを変更し、新しい「今日」で期限切れを判定し直す
+  const updateTimeZone = async (next: string) => {
+    const previous = timeZone;
+    setTimeZone(next);
+    timeZoneRef.current = next;
+    const result = await saveUserSettings({ timeZone: next }, repository?.remote ? userId : undefined);
+    if (!result.ok) {
+      setTimeZone(previous);
+      timeZoneRef.current = previous;
+      showToast({ kind: 'error', message: `タイムゾーンの保存に失敗しました: ${describeApiError(result.error)}` });
+      return;
+    }
+    loadContactsRef.current();
+  };
+
   // 次回期日を設定（拡張版）
   const setNextDeadline = async (
     id: string,
     nextDeadline: string,
-    recurring?: string,
-    recurringDays?: number,
-    recurringWeekday?: number
+    recurrence?: { rule: string; anchor: string }
   ) => {
-    if (useDatabase) {
-      // Supabaseを更新
-      await contactsApi.update(id, {
-        deadline: nextDeadline,
-        status: 'pending',
-        completed_at: null,
-        recurring,
-        recurring_days: recurringDays,
-        recurring_weekday: recurringWeekday
-      });
+    setEditingId(null);
+    // 繰り返しを選んだ場合は新しいシリーズとして始める
+    const patch: ContactPatch = {
+      ...reschedulePatch(nextDeadline),
+      status: 'pending',
+      completedAt: undefined,
+      recurrenceRule: recurrence?.rule,
+      recurrenceAnchor: recurrence?.anchor,
+      recurrencePausedUntil: undefined,
+      occurrenceCount: 0
+    };
+    const saved = await applyOptimistic(
+      list => list.map(contact => contact.id === id ? { ...contact, ...patch } : contact),
+      { type: 'update', ids: [id], patch },
+      '次回期日を設定できませんでした'
+    );
+    if (!saved) {
+      // 完了後のアクション選択に戻す
+      setEditingId(id);
+    }
+  };
+
+  // 繰り返しを止める（以降は完了すると通常どおり次のアクションを選ぶ）
+  const stopRecurrence = async (id: string) => {
+    const patch: ContactPatch = {
+      recurrenceRule: undefined,
+      recurrenceAnchor: undefined,
+      recurrencePausedUntil: undefined,
+      occurrenceCount: 0
+    };
+    await applyOptimistic(
+      list => list.map(contact => contact.id === id ? { ...contact, ...patch } : contact),
+      { type: 'update', ids: [id], patch },
+      '繰り返しを止められませんでした'
+    );
+  };
+
+  // 繰り返しの現在の回だけ期日を変える（本来の日付は変えないため、以降の回はそのまま）
+  const rescheduleThisOccurrence = async (id: string, date: string) => {
+    const patch = reschedulePatch(date);
+    const saved = await applyOptimistic(
+      list => list.map(contact => contact.id === id ? { ...contact, ...patch } : contact),
+      { type: 'update', ids: [id], patch },
+      '期日を変更できませんでした'
+    );
+    if (saved) showToast({ kind: 'success', message: 'この回の期日を変更しました' });
+  };
+
+  // 繰り返しのルールを変え、現在の回と以降の回を新しいルールで組み直す
+  const changeFutureOccurrences = async (id: string, rule: string, first: Occurrence) => {
+    const patch: ContactPatch = {
+      ...reschedulePatch(first.date),
+      recurrenceRule: rule,
+      recurrenceAnchor: first.anchor,
+      recurrencePausedUntil: undefined,
+      occurrenceCount: 0
+    };
+    const saved = await applyOptimistic(
+      list => list.map(contact => contact.id === id ? { ...contact, ...patch } : contact),
+      { type: 'update', ids: [id], patch },
+      '繰り返しを変更できませんでした'
+    );
+    if (saved) {
+      setSeriesId(null);
+      showToast({ kind: 'success', message: '以降の予定を変更しました' });
     }
+  };
 
-    setContacts(contacts.map(contact => {
-      if (contact.id === id) {
-        return {
-          ...contact,
-          deadline: nextDeadline,
-          status: 'pending',
-          completedAt: undefined,
-          recurring,
-          recurringDays,
-          recurringWeekday
-        };
+  // 繰り返しを指定日まで止める（現在の回がそれより前なら、再開日以降の最初の回に進める）
+  // until を省略すると再開する
+  const pauseRecurrence = async (id: string, until?: string) => {
+    const contact = contacts.find(c => c.id === id);
+    const rule = contact && recurrenceOf(contact);
+    if (!contact || !rule) return;
+
+    let patch: ContactPatch = { recurrencePausedUntil: until };
+    if (until && actualDeadline(contact) < until) {
+      const [resumed] = upcomingOccurrences(rule, recurrenceAnchorOf(contact), 1, companyHolidays, {
+        completedCount: contact.occurrenceCount || 0,
+        pausedUntil: until
+      });
+      if (!resumed) {
+        showToast({ kind: 'error', message: '再開日以降の回がありません（繰り返しの終了日を確認してください）' });
+        return;
       }
-      return contact;
-    }));
-    setEditingId(null);
+      patch = { ...patch, ...reschedulePatch(resumed.date), recurrenceAnchor: resumed.anchor };
+    }
+
+    const saved = await applyOptimistic(
+      list => list.map(c => c.id === id ? { ...c, ...patch } : c),
+      { type: 'update', ids: [id], patch },
+      until ? '一時停止できませんでした' : '再開できませんでした'
+    );
+    if (saved) {
+      showToast({
+        kind: 'success',
+        message: until ? `${formatDisplayDate(until)} まで一時停止しました` : '繰り返しを再開しました'
+      });
+    }
+  };
+
+  // 同期できなかった変更を自分の内容で上書き
+  const resolveConflictWithMine = async (conflict: SyncConflict) => {
+    const result = await forceApply(conflict);
+    if (!result.ok) {
+      notifyFailure('上書きできませんでした', result.error, () => resolveConflictWithMine(conflict));
+      return;
+    }
+    setSyncConflicts(prev => prev.filter(c => c !== conflict));
+    loadContacts();
+  };
+
+  // 同期できなかった変更を破棄し、サーバーの内容を採用
+  const resolveConflictWithServer = (conflict: SyncConflict) => {
+    setSyncConflicts(prev => prev.filter(c => c !== conflict));
+    loadContacts();
   };
 
   // 優先度の数値変換（A=1, B=2, C=3）
@@ -772,17 +1279,11 @@ export default function Home() {
       }
       return 0; // 自動ソートは後で適用
     })
-    .filter(contact => {
-      // カテゴリフィルタ
-      const matchesCategory = selectedCategory === 'all' || (contact.category || 'customer') === selectedCategory;
-
-      // 検索フィルタ（名前と目的で検索）
-      const matchesSearch = searchQuery === '' ||
-        contact.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        contact.purpose.toLowerCase().includes(searchQuery.toLowerCase());
-
-      return matchesCategory && matchesSearch;
-    })
+    // カテゴリ・検索語で絞り込み（サーバー側と同じ判定。読み込み後の追加・変更にも適用する）
+    .filter(contact => matchesContactQuery(contact, {
+      category: selectedCategory === 'all' ? undefined : selectedCategory,
+      search: searchQuery
+    }))
     .sort((a, b) => {
       // 手動ソートモードの場合はスキップ
       if (sortMode === 'manual') return 0;
@@ -801,31 +1302,32 @@ export default function Home() {
 
       const aSortDate = getSortDate(a);
       const bSortDate = getSortDate(b);
+      // 期日が同じ場合は時刻順（時刻のないものは最後）
+      const byDeadline = aSortDate.localeCompare(bSortDate) || sortDueTime(a).localeCompare(sortDueTime(b));
 
       // 優先度順モードの場合：優先度 > 期日
       if (sortMode === 'priority') {
         const priorityDiff = getPriorityValue(a.priority) - getPriorityValue(b.priority);
         if (priorityDiff !== 0) return priorityDiff;
         // 優先度が同じ場合は期日順
-        return new Date(aSortDate).getTime() - new Date(bSortDate).getTime();
+        return byDeadline;
       }
 
       // 期日順（auto）：期限切れも元の期日で並ぶ、完了済みも同じ位置に残る
-      return new Date(aSortDate).getTime() - new Date(bSortDate).getTime();
+      return byDeadline;
     });
 
   // 期日表示フォーマット
-  const formatDeadline = (deadline: string) => {
-    const date = new Date(deadline);
-    const today = new Date();
-    const isToday = date.toDateString() === today.toDateString();
-    const isPast = date < today && !isToday;
+  const formatDeadline = (deadline: string, time?: string) => {
+    const isToday = deadline === today;
+    const isPast = deadline < today;
 
-    const formatted = date.toLocaleDateString('ja-JP', {
+    const holiday = holidayName(deadline, companyHolidays);
+    const formatted = formatDisplayDate(deadline, {
       month: 'numeric',
       day: 'numeric',
       weekday: 'short'
-    });
+    }) + (time ? ` ${time}` : '') + (holiday ? ` 🎌${holiday}` : '');
 
     if (isToday) return `🔴 本日 ${formatted}`;
     if (isPast) return `⚠️ 期限切れ ${formatted}`;
@@ -841,7 +1343,8 @@ export default function Home() {
       month: 'numeric',
       day: 'numeric',
       hour: '2-digit',
-      minute: '2-digit'
+      minute: '2-digit',
+      timeZone
     });
   };
 
@@ -872,54 +1375,30 @@ export default function Home() {
     saveToHistory(contacts);
 
     let newDeadline: string;
-    const today = new Date();
-
-    // ローカルタイムゾーンで日付をフォーマット (YYYY-MM-DD)
-    const formatLocalDate = (date: Date) => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    };
 
     if (targetColumn === 'today') {
       // 本日に移動 → 期日を今日に設定
-      newDeadline = formatLocalDate(today);
+      newDeadline = today;
     } else if (targetColumn === 'future') {
-      // 今後に移動 → 期日を明日に設定
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      newDeadline = formatLocalDate(tomorrow);
+      // 今後に移動 → 期日を明日（「営業日」を選んでいれば翌営業日）に設定
+      const tomorrow = addDays(today, 1);
+      newDeadline = businessDaysOnly ? rollToBusinessDay(tomorrow, companyHolidays) : tomorrow;
     } else {
       // 期限切れには基本的にドロップしない（過去の日付は設定しない）
       setDraggedContactId(null);
       return;
     }
 
-    // データベースを更新
-    if (useDatabase) {
-      await contactsApi.update(draggedContactId, {
-        deadline: newDeadline
-      });
-    }
-
-    // ローカル状態を更新
-    const updatedContacts = contacts.map(c => {
-      if (String(c.id) === String(draggedContactId)) {
-        return {
-          ...c,
-          deadline: newDeadline,
-          isOverdue: false,
-          originalDeadline: undefined
-        };
-      }
-      return c;
-    });
-
-    // 期限切れチェック
-    const checkedContacts = checkAndFixOverdueContacts(updatedContacts);
-    setContacts(checkedContacts);
+    const contactId = draggedContactId;
     setDraggedContactId(null);
+
+    // ローカル状態を更新し、データベースに保存
+    const patch = reschedulePatch(newDeadline);
+    await applyOptimistic(
+      list => list.map(c => String(c.id) === String(contactId) ? { ...c, ...patch } : c),
+      { type: 'update', ids: [contactId], patch },
+      '期日を変更できませんでした'
+    );
   };
 
   // カテゴリ表示用
@@ -951,26 +1430,47 @@ export default function Home() {
     }
   };
 
+  // ログインしていれば、この端末でプッシュ通知を購読する（画面を閉じていても通知が届く）
+  const canPush = isPushSupported() && !!repository?.remote && !!userId;
+  const enablePush = async () => {
+    if (!canPush) {
+      showToast({ kind: 'success', message: '通知が有効になりました（この画面を開いている間に届きます）' });
+      return;
+    }
+    try {
+      const result = await subscribeToPush(userId!);
+      if (!result.ok) {
+        showToast({ kind: 'error', message: `プッシュ通知を登録できませんでした: ${describeApiError(result.error)}` });
+        return;
+      }
+      setPushSubscribed(true);
+      showToast({ kind: 'success', message: '通知が有効になりました（画面を閉じていても届きます）' });
+    } catch (error) {
+      console.error('Push subscription error:', error);
+      showToast({ kind: 'error', message: 'プッシュ通知を登録できませんでした。この画面を開いている間の通知のみ届きます' });
+    }
+  };
+
   // 通知の有効化
   const enableNotifications = async () => {
     if (!('Notification' in window)) {
-      alert('このブラウザは通知をサポートしていません');
+      showToast({ kind: 'error', message: 'このブラウザは通知をサポートしていません' });
       return;
     }
 
     if (Notification.permission === 'granted') {
       setNotificationEnabled(true);
-      alert('通知が有効になりました');
+      await enablePush();
     } else if (Notification.permission !== 'denied') {
       const permission = await Notification.requestPermission();
       if (permission === 'granted') {
         setNotificationEnabled(true);
-        alert('通知が有効になりました');
+        await enablePush();
       } else {
-        alert('通知の許可が拒否されました');
+        showToast({ kind: 'error', message: '通知の許可が拒否されました' });
       }
     } else {
-      alert('通知がブロックされています。ブラウザの設定から変更してください');
+      showToast({ kind: 'error', message: '通知がブロックされています。ブラウザの設定から変更してください' });
     }
   };
 
@@ -1002,7 +1502,27 @@ export default function Home() {
             </div>
             {useDatabase && user && (
               <div className="flex flex-row items-center gap-2 sm:gap-4 text-white">
+                {!isOnline && (
+                  <span className="px-2 py-1 bg-slate-900/40 rounded-lg text-xs font-semibold whitespace-nowrap">📴 オフライン</span>
+                )}
+                {pendingCount > 0 && (
+                  <button
+                    onClick={syncOutbox}
+                    disabled={!isOnline}
+                    className="px-2 py-1 bg-amber-400/90 text-slate-900 rounded-lg text-xs font-bold whitespace-nowrap disabled:cursor-default"
+                    title={isOnline ? '今すぐ同期' : 'オンラインに戻ると自動で同期します'}
+                  >
+                    ⏳ {pendingCount}件の変更が未同期
+                  </button>
+                )}
                 <span className="text-xs sm:text-sm opacity-75 truncate max-w-[120px] sm:max-w-[200px]">{user.email}</span>
+                <button
+                  onClick={() => router.push('/settings')}
+                  className="px-3 sm:px-4 py-1.5 sm:py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-all text-xs sm:text-sm font-medium whitespace-nowrap"
+                  title="Slack 通知の設定"
+                >
+                  ⚙️ 通知設定
+                </button>
                 <button
                   onClick={handleLogout}
                   className="px-3 sm:px-4 py-1.5 sm:py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-all text-xs sm:text-sm font-medium whitespace-nowrap"
@@ -1048,6 +1568,24 @@ export default function Home() {
                 onChange={(e) => setDeadline(e.target.value)}
                 className="w-full px-3 py-2 sm:px-3 sm:py-2.5 lg:py-2 bg-gray-50 border border-gray-200 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 focus:bg-white transition-all text-xs sm:text-sm lg:text-sm text-gray-800"
               />
+              <HolidayHint date={deadline} companyHolidays={companyHolidays} onShift={setDeadline} />
+              <div className="mt-1">
+                <DueTimeInput
+                  time={dueTime}
+                  offsets={reminderOffsets}
+                  onTimeChange={setDueTime}
+                  onOffsetsChange={setReminderOffsets}
+                  className="px-2 py-1 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-800"
+                />
+                <div className="mt-1">
+                  <ReminderRulesInput
+                    rules={reminderRules}
+                    onChange={setReminderRules}
+                    defaultLabel="カテゴリの既定"
+                    defaultRules={reminderRulesOf({ category: category === 'other' ? (customCategory || 'other') : category, dueTime }, categoryReminderRules)}
+                  />
+                </div>
+              </div>
             </div>
             <div className="flex gap-2">
               <select
@@ -1148,6 +1686,18 @@ export default function Home() {
               >
                 {bulkSelectMode ? '✅ 選択モード中' : '☑️ 一括選択'}
               </button>
+              <button
+                onClick={openTrash}
+                className="px-3 py-2 sm:px-4 sm:py-2.5 text-xs sm:text-sm bg-gradient-to-r from-slate-50 to-slate-100 text-slate-700 font-semibold rounded-xl sm:rounded-2xl hover:from-slate-100 hover:to-slate-200 transition-all duration-200 border border-slate-200"
+              >
+                🗑️ ゴミ箱
+              </button>
+              <button
+                onClick={() => setShowCalendarSettings(true)}
+                className="px-3 py-2 sm:px-4 sm:py-2.5 text-xs sm:text-sm bg-gradient-to-r from-slate-50 to-slate-100 text-slate-700 font-semibold rounded-xl sm:rounded-2xl hover:from-slate-100 hover:to-slate-200 transition-all duration-200 border border-slate-200"
+              >
+                🗓️ 日付と休日
+              </button>
               <div className="flex items-center gap-1">
                 <button
                   onClick={undo}
@@ -1186,18 +1736,60 @@ export default function Home() {
               <button
                 onClick={enableNotifications}
                 className={`px-3 py-2 sm:px-4 sm:py-2.5 text-xs sm:text-sm font-semibold rounded-xl sm:rounded-2xl transition-all duration-200 ${
-                  notificationEnabled
+                  notificationEnabled && (pushSubscribed || !canPush)
                     ? 'bg-green-100 text-green-700 cursor-not-allowed border border-green-200'
                     : 'bg-gradient-to-r from-amber-400 to-orange-400 text-white hover:from-amber-500 hover:to-orange-500 shadow-lg hover:shadow-xl'
                 }`}
-                disabled={notificationEnabled}
+                disabled={notificationEnabled && (pushSubscribed || !canPush)}
               >
-                {notificationEnabled ? '✅ 通知ON' : '🔔 通知をON'}
+                {!notificationEnabled ? '🔔 通知をON' : pushSubscribed || !canPush ? '✅ 通知ON' : '🔔 プッシュ通知をON'}
               </button>
             </div>
           </div>
         </div>
 
+        {/* 同期できなかった変更 */}
+        {syncConflicts.length > 0 && (
+          <div className="bg-red-50 border-2 border-red-300 rounded-xl p-3 sm:p-4 mb-4 space-y-2">
+            <p className="text-sm font-bold text-red-800">⚠️ 同期できなかった変更があります（{syncConflicts.length}件）</p>
+            {syncConflicts.map((conflict, index) => {
+              const contactId = conflict.mutation.type === 'reorder' ? undefined : conflict.mutation.contactId;
+              const contactName = conflict.serverContact?.name || contacts.find(c => c.id === contactId)?.name || '並び順';
+              return (
+                <div key={`${conflict.mutation.id}-${index}`} className="flex flex-wrap items-center gap-2 bg-white rounded-lg p-2 border border-red-200">
+                  <span className="flex-1 text-xs sm:text-sm text-gray-800">
+                    <span className="font-bold">{contactName}</span>：{describeApiError(conflict.error)}
+                  </span>
+                  {conflict.error.kind === 'conflict' && conflict.mutation.type === 'update' && (
+                    <button
+                      onClick={() => resolveConflictWithMine(conflict)}
+                      className="px-3 py-1 text-xs font-semibold bg-red-600 text-white rounded-lg hover:bg-red-700"
+                    >
+                      自分の変更で上書き
+                    </button>
+                  )}
+                  <button
+                    onClick={() => resolveConflictWithServer(conflict)}
+                    className="px-3 py-1 text-xs font-semibold bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 border border-gray-300"
+                  >
+                    サーバーの内容を採用
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* 一括処理の進捗 */}
+        {bulkProgress && (
+          <div className="bg-blue-50 border border-blue-200 rounded-xl p-3 mb-4 flex items-center gap-3">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+            <p className="text-sm font-medium text-blue-800">
+              {bulkProgress.label}中...（{bulkProgress.count}件）
+            </p>
+          </div>
+        )}
+
         {/* 一括優先度設定パネル */}
         {bulkSelectMode && (
           <div className="bg-gradient-to-r from-amber-50 to-orange-50 backdrop-blur-lg rounded-2xl sm:rounded-3xl shadow-lg border-2 border-amber-300 p-3 sm:p-4 lg:p-5 mb-4 sm:mb-6">
@@ -1236,13 +1828,26 @@ export default function Home() {
                 >
                   🟢 C
                 </button>
+                <button
+                  onClick={bulkDelete}
+                  disabled={loading || selectedIds.size === 0}
+                  className="px-4 py-2 text-sm font-bold bg-white text-red-700 rounded-xl hover:bg-red-50 transition-all duration-200 border border-red-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  🗑️ 削除
+                </button>
               </div>
             </div>
           </div>
         )}
 
         {/* リスト表示 */}
-        {viewMode === 'list' ? (
+        {schemaProblem ? (
+          <div className="bg-red-50 border-2 border-red-300 rounded-xl p-4 sm:p-6 text-center">
+            <div className="text-4xl mb-2">🛠️</div>
+            <h3 className="text-base sm:text-lg font-bold text-red-800 mb-2">データベースの設定が必要です</h3>
+            <p className="text-sm text-red-700 break-words">{schemaProblem}</p>
+          </div>
+        ) : viewMode === 'list' ? (
           <div className="space-y-2 sm:space-y-3">
             {filteredAndSortedContacts.length === 0 ? (
               <div className="text-center py-16">
@@ -1254,9 +1859,9 @@ export default function Home() {
               </div>
             ) : (
             filteredAndSortedContacts.map((contact) => (
-              <div key={contact.id} className={`group bg-white rounded-lg sm:rounded-xl shadow-sm sm:shadow-md border p-3 sm:p-3.5 lg:p-4 sm:hover:shadow-lg transition-all duration-300 sm:hover:-translate-y-0.5 ${
+              <div key={contact.id} id={`contact-${contact.id}`} className={`group bg-white rounded-lg sm:rounded-xl shadow-sm sm:shadow-md border p-3 sm:p-3.5 lg:p-4 sm:hover:shadow-lg transition-all duration-300 sm:hover:-translate-y-0.5 ${
                 contact.status === 'completed' ? 'opacity-50 bg-gray-50/50 border-gray-100' : ''
-              } ${bulkSelectMode && selectedIds.has(contact.id) ? 'border-amber-400 bg-amber-50/50 ring-2 ring-amber-200' : 'border-gray-100'}`}>
+              } ${highlightedId === contact.id ? 'ring-2 ring-blue-400' : ''} ${bulkSelectMode && selectedIds.has(contact.id) ? 'border-amber-400 bg-amber-50/50 ring-2 ring-amber-200' : 'border-gray-100'}`}>
                 <div className="flex items-start gap-3">
                   {bulkSelectMode && (
                     <input
@@ -1299,6 +1904,23 @@ export default function Home() {
                             onChange={(e) => setEditDeadline(e.target.value)}
                             className="px-3 py-2 border-2 border-navy-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-navy-500 focus:border-navy-500 transition-all"
                           />
+                          <HolidayHint date={editDeadline} companyHolidays={companyHolidays} onShift={setEditDeadline} />
+                          <DueTimeInput
+                            time={editDueTime}
+                            offsets={editReminderOffsets}
+                            onTimeChange={setEditDueTime}
+                            onOffsetsChange={setEditReminderOffsets}
+                            className="px-3 py-2 border-2 border-navy-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-navy-500 focus:border-navy-500 transition-all"
+                          />
+                          <ReminderRulesInput
+                            rules={editReminderRules}
+                            onChange={setEditReminderRules}
+                            defaultLabel="カテゴリの既定"
+                            defaultRules={reminderRulesOf({ category: editCategory, dueTime: editDueTime }, categoryReminderRules)}
+                          />
+                          {recurrenceOf(contact) && (
+                            <p className="text-xs text-gray-500">この回の期日だけを変更します。以降の予定は「🔁 シリーズ」から変更できます</p>
+                          )}
                           <select
                             value={editPriority}
                             onChange={(e) => setEditPriority(e.target.value as ContactPriority)}
@@ -1353,19 +1975,29 @@ export default function Home() {
                             <span>{getCategoryDisplay(contact.category).label}</span>
                           </span>
                           <span className={`inline-flex items-center gap-1 text-xs sm:text-sm font-semibold px-2 py-0.5 sm:px-2.5 sm:py-1 rounded-lg ${
-                            new Date(contact.deadline).toDateString() === new Date().toDateString()
+                            contact.deadline === today
                               ? 'bg-red-100 text-red-700'
-                              : new Date(contact.deadline) < new Date()
+                              : contact.deadline < today
                               ? 'bg-orange-100 text-orange-700'
                               : 'bg-gray-100 text-gray-700'
                           }`}>
-                            📅 {formatDeadline(contact.deadline)}
+                            📅 {formatDeadline(contact.deadline, contact.dueTime)}
                             {contact.isOverdue && contact.originalDeadline && (
                               <span className="text-red-600 font-bold">
-                                (期日{new Date(contact.originalDeadline).toLocaleDateString('ja-JP', { month: 'numeric', day: 'numeric' })})
+                                (期日{formatDisplayDate(contact.originalDeadline, { month: 'numeric', day: 'numeric' })}{contact.postponeCount ? `・遅延${contact.postponeCount}回` : ''})
                               </span>
                             )}
                           </span>
+                          {contact.dueTime && contact.reminderOffsets && contact.reminderOffsets.length > 0 && (
+                            <span className="text-xs text-indigo-600" title="通知">
+                              🔔 {contact.reminderOffsets.map(describeReminderOffset).join('・')}
+                            </span>
+                          )}
+                          {contact.reminderRules && (
+                            <span className="text-xs text-indigo-600" title="期日の通知">
+                              📣 {normalizeReminderRules(contact.reminderRules).map(describeReminderRule).join('・') || '通知しない'}
+                            </span>
+                          )}
                         </div>
                         <p className="text-gray-600 text-xs sm:text-sm lg:text-base leading-relaxed mt-1.5 sm:mt-2">{contact.purpose}</p>
                         {contact.createdAt && (
@@ -1388,6 +2020,16 @@ export default function Home() {
                           >
                             🗑️ 削除
                           </button>
+                          <button
+                            onClick={() => setTimelineId(timelineId === contact.id ? null : contact.id)}
+                            className={`px-2.5 py-1 sm:px-3 sm:py-1.5 text-xs font-semibold rounded-lg transition-all duration-200 border ${
+                              timelineId === contact.id
+                                ? 'bg-slate-200 text-slate-800 border-slate-300'
+                                : 'bg-gradient-to-r from-slate-50 to-gray-50 text-slate-700 border-slate-200/50 hover:from-slate-100 hover:to-gray-100'
+                            }`}
+                          >
+                            🕘 履歴
+                          </button>
                           {sortMode === 'manual' && (
                             <>
                               <button
@@ -1405,6 +2047,13 @@ export default function Home() {
                             </>
                           )}
                         </div>
+                        {timelineId === contact.id && repository && (
+                          <ActivityTimeline
+                            contactId={contact.id}
+                            load={repository.listActivity}
+                            currentUserEmail={user?.email}
+                          />
+                        )}
                       </>
                     )}
 
@@ -1415,34 +2064,32 @@ export default function Home() {
                         <div className="space-y-2">
                           {/* 次回期日設定 */}
                           <div>
-                            <p className="text-xs mb-1.5">次回期日を設定:</p>
+                            <div className="flex items-center gap-3 mb-1.5">
+                              <p className="text-xs">次回期日を設定:</p>
+                              <label className="flex items-center gap-1 text-xs text-gray-700">
+                                <input
+                                  type="checkbox"
+                                  checked={businessDaysOnly}
+                                  onChange={(e) => toggleBusinessDaysOnly(e.target.checked)}
+                                />
+                                営業日
+                              </label>
+                            </div>
                             <div className="flex gap-2 flex-wrap">
                               <button
-                                onClick={() => {
-                                  const tomorrow = new Date();
-                                  tomorrow.setDate(tomorrow.getDate() + 1);
-                                  setNextDeadline(contact.id, tomorrow.toISOString().split('T')[0]);
-                                }}
+                                onClick={() => setNextDeadline(contact.id, quickDeadline(1))}
                                 className="px-2 py-1 sm:px-3 sm:py-1.5 text-xs bg-gradient-to-r from-blue-500 to-indigo-500 text-white font-semibold rounded-lg hover:from-blue-600 hover:to-indigo-600 shadow-sm hover:shadow-md transition-all"
                               >
                                 明日
                               </button>
                               <button
-                                onClick={() => {
-                                  const nextWeek = new Date();
-                                  nextWeek.setDate(nextWeek.getDate() + 7);
-                                  setNextDeadline(contact.id, nextWeek.toISOString().split('T')[0]);
-                                }}
+                                onClick={() => setNextDeadline(contact.id, quickDeadline(7))}
                                 className="px-2 py-1 sm:px-3 sm:py-1.5 text-xs bg-gradient-to-r from-blue-500 to-indigo-500 text-white font-semibold rounded-lg hover:from-blue-600 hover:to-indigo-600 shadow-sm hover:shadow-md transition-all"
                               >
                                 1週間後
                               </button>
                               <button
-                                onClick={() => {
-                                  const nextMonth = new Date();
-                                  nextMonth.setMonth(nextMonth.getMonth() + 1);
-                                  setNextDeadline(contact.id, nextMonth.toISOString().split('T')[0]);
-                                }}
+                                onClick={() => setNextDeadline(contact.id, quickDeadline(0, 1))}
                                 className="px-2 py-1 sm:px-3 sm:py-1.5 text-xs bg-gradient-to-r from-blue-500 to-indigo-500 text-white font-semibold rounded-lg hover:from-blue-600 hover:to-indigo-600 shadow-sm hover:shadow-md transition-all"
                               >
                                 1ヶ月後
@@ -1462,90 +2109,12 @@ export default function Home() {
                           {/* スケジューリング */}
                           <div>
                             <p className="text-xs sm:text-sm mb-2">定期スケジュール:</p>
-                            <div className="space-y-2">
-                              {/* 基本オプション */}
-                              <div className="flex gap-2 flex-wrap">
-                                <button
-                                  onClick={() => {
-                                    const tomorrow = new Date();
-                                    tomorrow.setDate(tomorrow.getDate() + 1);
-                                    setNextDeadline(contact.id, tomorrow.toISOString().split('T')[0], 'daily');
-                                  }}
-                                  className="px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm bg-gradient-to-r from-emerald-500 to-teal-500 text-white font-semibold rounded-lg sm:rounded-xl hover:from-emerald-600 hover:to-teal-600 shadow-md hover:shadow-lg transition-all"
-                                >
-                                  毎日
-                                </button>
-                                <button
-                                  onClick={() => {
-                                    const nextWeek = new Date();
-                                    nextWeek.setDate(nextWeek.getDate() + 7);
-                                    setNextDeadline(contact.id, nextWeek.toISOString().split('T')[0], 'weekly');
-                                  }}
-                                  className="px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm bg-gradient-to-r from-emerald-500 to-teal-500 text-white font-semibold rounded-lg sm:rounded-xl hover:from-emerald-600 hover:to-teal-600 shadow-md hover:shadow-lg transition-all"
-                                >
-                                  毎週
-                                </button>
-                                <button
-                                  onClick={() => {
-                                    const nextMonth = new Date();
-                                    nextMonth.setMonth(nextMonth.getMonth() + 1);
-                                    setNextDeadline(contact.id, nextMonth.toISOString().split('T')[0], 'monthly');
-                                  }}
-                                  className="px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm bg-gradient-to-r from-emerald-500 to-teal-500 text-white font-semibold rounded-lg sm:rounded-xl hover:from-emerald-600 hover:to-teal-600 shadow-md hover:shadow-lg transition-all"
-                                >
-                                  毎月
-                                </button>
-                              </div>
-
-                              {/* カスタムオプション */}
-                              <div className="flex items-center gap-2">
-                                <input
-                                  type="number"
-                                  min="1"
-                                  placeholder="日数"
-                                  className="w-20 px-2 py-1 border rounded"
-                                  onKeyDown={(e) => {
-                                    if (e.key === 'Enter') {
-                                      const days = parseInt((e.target as HTMLInputElement).value);
-                                      if (days > 0) {
-                                        const nextDate = new Date();
-                                        nextDate.setDate(nextDate.getDate() + days);
-                                        setNextDeadline(contact.id, nextDate.toISOString().split('T')[0], 'custom', days);
-                                      }
-                                    }
-                                  }}
-                                />
-                                <span className="text-sm">日おき</span>
-                              </div>
-
-                              {/* 曜日指定 */}
-                              <div className="flex items-center gap-2">
-                                <select
-                                  className="px-2 py-1 border rounded"
-                                  onChange={(e) => {
-                                    const weekday = parseInt(e.target.value);
-                                    if (weekday >= 0) {
-                                      const today = new Date();
-                                      const currentDay = today.getDay();
-                                      let daysToAdd = weekday - currentDay;
-                                      if (daysToAdd <= 0) daysToAdd += 7;
-                                      const nextDate = new Date();
-                                      nextDate.setDate(nextDate.getDate() + daysToAdd);
-                                      setNextDeadline(contact.id, nextDate.toISOString().split('T')[0], 'weekly', undefined, weekday);
-                                    }
-                                  }}
-                                >
-                                  <option value="">曜日を選択</option>
-                                  <option value="0">毎週日曜日</option>
-                                  <option value="1">毎週月曜日</option>
-                                  <option value="2">毎週火曜日</option>
-                                  <option value="3">毎週水曜日</option>
-                                  <option value="4">毎週木曜日</option>
-                                  <option value="5">毎週金曜日</option>
-                                  <option value="6">毎週土曜日</option>
-                                </select>
-                              </div>
-                            </div>
+                            <RecurrenceBuilder
+                              startDate={today}
+                              initialRule={contact.recurrenceRule}
+                              companyHolidays={companyHolidays}
+                              onApply={(rule, first) => setNextDeadline(contact.id, first.date, { rule, anchor: first.anchor })}
+                            />
                           </div>
 
                           {/* その他アクション */}
@@ -1567,17 +2136,30 @@ export default function Home() {
                       </div>
                     )}
 
-                    {contact.recurring && contact.status === 'pending' && (
-                      <div className="mt-2 text-sm text-blue-600">
-                        🔄 {
-                          contact.recurring === 'daily' ? '毎日' :
-                          contact.recurring === 'weekly' && contact.recurringWeekday !== undefined ?
-                            `毎週${['日', '月', '火', '水', '木', '金', '土'][contact.recurringWeekday]}曜日` :
-                          contact.recurring === 'weekly' ? '毎週' :
-                          contact.recurring === 'monthly' ? '毎月' :
-                          contact.recurring === 'custom' && contact.recurringDays ?
-                            `${contact.recurringDays}日おき` : ''
-                        } リピート
+                    {recurrenceOf(contact) && contact.status === 'pending' && (
+                      <div className="mt-2 flex items-center gap-2 flex-wrap text-sm text-blue-600">
+                        <span title={contact.recurrenceRule}>
+                          🔄 {describeRecurrence(recurrenceOf(contact)!)}
+                          {describeRecurrenceEnd(recurrenceOf(contact)!) && `・${describeRecurrenceEnd(recurrenceOf(contact)!)}`}
+                          {' '}リピート（完了すると次回の期日に進みます）
+                        </span>
+                        {contact.recurrencePausedUntil && (
+                          <span className="text-xs text-amber-700">
+                            ⏸ {formatDisplayDate(contact.recurrencePausedUntil)} まで一時停止
+                          </span>
+                        )}
+                        <button
+                          onClick={() => setSeriesId(contact.id)}
+                          className="text-xs text-indigo-600 hover:text-indigo-800 underline"
+                        >
+                          🔁 シリーズ
+                        </button>
+                        <button
+                          onClick={() => stopRecurrence(contact.id)}
+                          className="text-xs text-gray-500 hover:text-red-600 underline"
+                        >
+                          繰り返しをやめる
+                        </button>
                       </div>
                     )}
                   </div>
@@ -1609,6 +2191,7 @@ export default function Home() {
                   .map(contact => (
                     <div
                       key={contact.id}
+                      id={`contact-${contact.id}`}
                       draggable={true}
                       onDragStart={(e) => handleDragStart(e, contact.id)}
                       onDragEnd={handleDragEnd}
@@ -1639,10 +2222,10 @@ export default function Home() {
                           </div>
                           <p className="text-xs text-navy-600 mt-0.5 sm:mt-1 line-clamp-2">{contact.purpose}</p>
                           <p className="text-xs text-orange-700 font-bold mt-1">
-                            {new Date(contact.deadline).toLocaleDateString('ja-JP')}
+                            {formatDisplayDate(contact.deadline)}{contact.dueTime && ` ${contact.dueTime}`}
                             {contact.isOverdue && contact.originalDeadline && (
                               <span className="text-red-600 font-bold ml-1">
-                                (期日{new Date(contact.originalDeadline).toLocaleDateString('ja-JP', { month: 'numeric', day: 'numeric' })})
+                                (期日{formatDisplayDate(contact.originalDeadline, { month: 'numeric', day: 'numeric' })}{contact.postponeCount ? `・遅延${contact.postponeCount}回` : ''})
                               </span>
                             )}
                           </p>
@@ -1682,13 +2265,11 @@ export default function Home() {
               </h3>
               <div className="space-y-3 min-h-[100px]">
                 {filteredAndSortedContacts
-                  .filter(c => {
-                    const today = new Date().toDateString();
-                    return new Date(c.deadline).toDateString() === today && c.status === 'pending' && !c.isOverdue;
-                  })
+                  .filter(c => c.deadline === today && c.status === 'pending' && !c.isOverdue)
                   .map(contact => (
                     <div
                       key={contact.id}
+                      id={`contact-${contact.id}`}
                       draggable={true}
                       onDragStart={(e) => handleDragStart(e, contact.id)}
                       onDragEnd={handleDragEnd}
@@ -1718,6 +2299,9 @@ export default function Home() {
                             </span>
                           </div>
                           <p className="text-xs text-navy-600 mt-0.5 sm:mt-1 line-clamp-2">{contact.purpose}</p>
+                          {contact.dueTime && (
+                            <p className="text-xs text-red-700 font-bold mt-1">⏰ {contact.dueTime}</p>
+                          )}
                           <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold mt-2 ${getCategoryDisplay(contact.category).color}`}>
                             {getCategoryDisplay(contact.category).label}
                           </span>
@@ -1728,10 +2312,7 @@ export default function Home() {
                       </div>
                     </div>
                   ))}
-                {filteredAndSortedContacts.filter(c => {
-                  const today = new Date().toDateString();
-                  return new Date(c.deadline).toDateString() === today && c.status === 'pending' && !c.isOverdue;
-                }).length === 0 && (
+                {filteredAndSortedContacts.filter(c => c.deadline === today && c.status === 'pending' && !c.isOverdue).length === 0 && (
                   <div className="text-center py-8">
                   <div className="text-red-300 text-4xl mb-2">🎆</div>
                   <p className="text-red-400 font-medium">本日の連絡はありません</p>
@@ -1755,14 +2336,11 @@ export default function Home() {
               </h3>
               <div className="space-y-3 min-h-[100px]">
                 {filteredAndSortedContacts
-                  .filter(c => {
-                    const today = new Date();
-                    const deadline = new Date(c.deadline);
-                    return deadline > today && c.status === 'pending';
-                  })
+                  .filter(c => c.deadline > today && c.status === 'pending')
                   .map(contact => (
                     <div
                       key={contact.id}
+                      id={`contact-${contact.id}`}
                       draggable={true}
                       onDragStart={(e) => handleDragStart(e, contact.id)}
                       onDragEnd={handleDragEnd}
@@ -1793,16 +2371,14 @@ export default function Home() {
                           </div>
                           <p className="text-xs text-navy-600 mt-0.5 sm:mt-1 line-clamp-2">{contact.purpose}</p>
                           <p className="text-xs text-blue-700 font-bold mt-1">
-                            {new Date(contact.deadline).toLocaleDateString('ja-JP')}
+                            {formatDisplayDate(contact.deadline)}{contact.dueTime && ` ${contact.dueTime}`}
                           </p>
                           <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold mt-2 ${getCategoryDisplay(contact.category).color}`}>
                             {getCategoryDisplay(contact.category).label}
                           </span>
-                          {contact.recurring && (
+                          {recurrenceOf(contact) && (
                             <span className="block text-xs text-blue-500 font-medium mt-1">
-                              🔄 {contact.recurring === 'daily' ? '毎日' :
-                                  contact.recurring === 'weekly' ? '毎週' :
-                                  contact.recurring === 'monthly' ? '毎月' : ''}
+                              🔄 {describeRecurrence(recurrenceOf(contact)!)}
                             </span>
                           )}
                           {contact.createdAt && (
@@ -1812,11 +2388,7 @@ export default function Home() {
                       </div>
                     </div>
                   ))}
-                {filteredAndSortedContacts.filter(c => {
-                  const today = new Date();
-                  const deadline = new Date(c.deadline);
-                  return deadline > today && c.status === 'pending';
-                }).length === 0 && (
+                {filteredAndSortedContacts.filter(c => c.deadline > today && c.status === 'pending').length === 0 && (
                   <div className="text-center py-8">
                   <div className="text-blue-300 text-4xl mb-2">😌</div>
                   <p className="text-blue-400 font-medium">今後の予定はありません</p>
@@ -1826,7 +2398,62 @@ export default function Home() {
             </div>
           </div>
         )}
+
+        {/* 続きの読み込み（末尾が見えたら次のページを取得） */}
+        {!schemaProblem && nextCursor && (
+          <div ref={loadMoreRef} className="flex justify-center py-6">
+            {loadingMore ? (
+              <div className="flex items-center gap-2 text-sm text-navy-500">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-navy-500"></div>
+                読み込み中...
+              </div>
+            ) : (
+              <button
+                onClick={loadMoreContacts}
+                className="px-4 py-2 text-sm font-semibold text-navy-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50"
+              >
+                さらに読み込む
+              </button>
+            )}
+          </div>
+        )}
       </div>
+
+      {showTrash && (
+        <TrashPanel
+          contacts={trashedContacts}
+          loading={trashLoading}
+          onRestore={restoreContacts}
+          onPurge={purgeContacts}
+          onClose={() => setShowTrash(false)}
+        />
+      )}
+
+      {seriesId && repository && contacts.some(c => c.id === seriesId) && (
+        <SeriesPanel
+          contact={contacts.find(c => c.id === seriesId)!}
+          today={today}
+          companyHolidays={companyHolidays}
+          loadActivity={repository.listActivity}
+          onRescheduleThis={date => rescheduleThisOccurrence(seriesId, date)}
+          onChangeFuture={(rule, first) => changeFutureOccurrences(seriesId, rule, first)}
+          onPause={until => pauseRecurrence(seriesId, until)}
+          onClose={() => setSeriesId(null)}
+        />
+      )}
+
+      {showCalendarSettings && (
+        <CalendarSettingsPanel
+          today={today}
+          timeZone={timeZone}
+          companyHolidays={companyHolidays}
+          onTimeZoneChange={updateTimeZone}
+          onChange={updateCompanyHolidays}
+          onClose={() => setShowCalendarSettings(false)}
+        />
+      )}
+
+      <ToastContainer toasts={toasts} onDismiss={dismissToast} />
     </div>
   );
 }
@@ -0,0 +1,857 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { describeApiError, notificationSettingsApi, slackUserLinksApi, supabase } from '@/lib/supabase';
+import type { DbSlackUserLink, EmailVerificationResult, LineLinkApproval, LineLinkPreview, SlackLinkApproval, SlackLinkPreview } from '@/lib/supabase';
+import { currentPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from '@/lib/push';
+import {
+  CHAT_CHANNELS,
+  DEFAULT_NOTIFICATION_SETTINGS,
+  DIGEST_INTERVAL_MINUTES,
+  fromDbNotificationSettings,
+  isChatChannel,
+  isEmailVerified,
+  toDbNotificationSettings,
+  validateNotificationSettings,
+} from '@/lib/notificationSettings';
+import type { ChatChannel, NotificationSettings } from '@/lib/notificationSettings';
+import { DIGEST_SECTIONS, UPCOMING_DAYS } from '@/lib/digest';
+import type { DigestSection, SlackMessage } from '@/lib/digest';
+import { STANDARD_CATEGORY_LABELS, categoryLabel } from '@/lib/contacts';
+import { RULE_REMINDER_TIME, normalizeReminderRules } from '@/lib/reminders';
+import type { CategoryReminderRules } from '@/lib/reminders';
+import { loadUserSettings, saveUserSettings } from '@/lib/userSettings';
+import { ReminderRulesInput } from '../components/ReminderRulesInput';
+
+// チャットごとの送信先の入力欄（LINE は入力せず、公式アカウントとの連携で登録する）
+const CHAT_DESTINATION_FIELDS: Record<Exclude<ChatChannel, 'line'>, {
+  key: 'slackWebhookUrl' | 'teamsWebhookUrl' | 'discordWebhookUrl';
+  label: string;
+  placeholder: string;
+  help: string;
+}> = {
+  slack: {
+    key: 'slackWebhookUrl',
+    label: 'Slack の Incoming Webhook の URL',
+    placeholder: 'https://hooks.slack.com/services/...',
+    help: '自分だけが見られるチャンネル（または DM）の Webhook を指定してください',
+  },
+  teams: {
+    key: 'teamsWebhookUrl',
+    label: 'Teams の Webhook の URL',
+    placeholder: 'https://....webhook.office.com/...',
+    help: 'チャネルの Incoming Webhook か、ワークフローの「Teams Webhook 要求を受信したとき」の URL を指定してください',
+  },
+  discord: {
+    key: 'discordWebhookUrl',
+    label: 'Discord の Webhook の URL',
+    placeholder: 'https://discord.com/api/webhooks/...',
+    help: 'チャンネルの設定の「連携サービス」→「ウェブフック」で作成した URL を指定してください',
+  },
+};
+
+const formatExpiry = (expiresAt: string) =>
+  new Date(expiresAt).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' });
+
+// 通知の設定（チャット・メールの送信先・送信時刻、期日の通知のルール）。設定はログインユーザーごとに保存する
+export default function SettingsPage() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [preview, setPreview] = useState<SlackMessage | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [slackLinks, setSlackLinks] = useState<DbSlackUserLink[]>([]); // 連携している Slack のユーザー
+  const [linkCode, setLinkCode] = useState<string | null>(null); // スラッシュコマンドが発行した連携用のコード
+  const [linkPreview, setLinkPreview] = useState<SlackLinkPreview | null>(null); // そのコードを発行した Slack のユーザー
+  const [linkApproval, setLinkApproval] = useState<SlackLinkApproval | null>(null); // 承認後に Slack で送る確認コード
+  const [linking, setLinking] = useState(false);
+  const [lineLinkCode, setLineLinkCode] = useState<string | null>(null); // LINE の公式アカウントが発行した連携用のコード
+  const [lineLinkPreview, setLineLinkPreview] = useState<LineLinkPreview | null>(null);
+  const [lineLinkApproval, setLineLinkApproval] = useState<LineLinkApproval | null>(null); // 承認後に LINE で送る確認コード
+  const [lineLinking, setLineLinking] = useState(false);
+  const [savedEmailAddress, setSavedEmailAddress] = useState(''); // 保存しているメールの送信先（確認メールはこのアドレスに送る）
+  const [emailVerification, setEmailVerification] = useState<EmailVerificationResult | null>(null); // 送った確認メール
+  const [verifyingEmail, setVerifyingEmail] = useState(false);
+  const [pushSubscribed, setPushSubscribed] = useState(false); // この端末でプッシュ通知を購読しているか
+  const [pushUpdating, setPushUpdating] = useState(false);
+  const [reminderRules, setReminderRules] = useState<CategoryReminderRules>({}); // カテゴリごとの通知のルールの既定
+  const [customCategories, setCustomCategories] = useState<string[]>([]); // 一覧の画面で追加したカテゴリ
+  const router = useRouter();
+
+  // ログインユーザーの設定を読み込む（未ログインならログイン画面へ）
+  useEffect(() => {
+    const load = async () => {
+      if (!supabase) {
+        setLoading(false);
+        return;
+      }
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) {
+        router.push('/auth');
+        return;
+      }
+
+      setUserId(session.user.id);
+      const params = new URLSearchParams(window.location.search);
+      setLinkCode(params.get('slack_link'));
+      setLineLinkCode(params.get('line_link'));
+      setPushSubscribed(!!await currentPushSubscription());
+      setCustomCategories(JSON.parse(localStorage.getItem('customCategories') || '[]'));
+      const [result, links, userSettings] = await Promise.all([
+        notificationSettingsApi.get(session.user.id),
+        slackUserLinksApi.list(session.user.id),
+        loadUserSettings(session.user.id),
+      ]);
+      if (result.ok) {
+        // メールアドレスが未設定なら、ログインしているアドレスを入れておく
+        const loaded = fromDbNotificationSettings(result.data);
+        setSavedEmailAddress(loaded.emailAddress);
+        setSettings({ ...loaded, emailAddress: loaded.emailAddress || session.user.email || '' });
+      } else {
+        setError(`設定を読み込めませんでした: ${describeApiError(result.error)}`);
+      }
+      if (links.ok) setSlackLinks(links.data);
+      if (userSettings.ok) setReminderRules(userSettings.data.categoryReminderRules);
+      setLoading(false);
+    };
+    load();
+  }, [router]);
+
+  const update = (patch: Partial<NotificationSettings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+    setSaved(false);
+  };
+
+  // カテゴリの既定のルールを変える（undefined なら既定の通知に戻す）
+  const updateReminderRules = (category: string, rules?: string[]) => {
+    setReminderRules(prev => ({
+      ...Object.fromEntries(Object.entries(prev).filter(([c]) => c !== category)),
+      ...(rules ? { [category]: normalizeReminderRules(rules) } : {}),
+    }));
+    setSaved(false);
+  };
+
+  const toggleSection = (section: DigestSection, checked: boolean) => {
+    update({
+      chatDigestSections: DIGEST_SECTIONS
+        .map(s => s.value)
+        .filter(s => s === section ? checked : settings.chatDigestSections.includes(s)),
+    });
+  };
+
+  // 選んでいる項目でまとめを作ってみる（チャットには送らない）
+  const handlePreview = async () => {
+    if (!supabase) return;
+
+    setPreviewing(true);
+    setError(null);
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch(`/api/digest/preview?sections=${settings.chatDigestSections.join(',')}`, {
+      headers: { Authorization: `Bearer ${session?.access_token ?? ''}` },
+    });
+    if (response.ok) {
+      const { payload } = await response.json();
+      setPreview(payload);
+    } else {
+      setPreview(null);
+      setError(`プレビューを作れませんでした（${response.status}）`);
+    }
+    setPreviewing(false);
+  };
+
+  // スラッシュコマンドのリンクから開いたとき、どの Slack のユーザーの申請かを表示する（承認するまで連携しない）
+  useEffect(() => {
+    if (!supabase || !linkCode) return;
+
+    const loadPreview = async () => {
+      const { data: { session } } = await supabase!.auth.getSession();
+      const response = await fetch(`/api/slack/link?code=${encodeURIComponent(linkCode)}`, {
+        headers: { Authorization: `Bearer ${session?.access_token ?? ''}` },
+      });
+      if (response.ok) {
+        setLinkPreview(await response.json());
+      } else {
+        setError(response.status === 404
+          ? '連携用のリンクの有効期限が切れています。Slack でもう一度コマンドを実行してください'
+          : `連携用のリンクを確認できませんでした（${response.status}）`);
+        setLinkCode(null);
+        window.history.replaceState(null, '', window.location.pathname);
+      }
+    };
+    loadPreview();
+  }, [linkCode]);
+
+  const closeLinkRequest = () => {
+    setLinkCode(null);
+    setLinkPreview(null);
+    window.history.replaceState(null, '', window.location.pathname);
+  };
+
+  // 申請を承認して確認コードを受け取る。申請した Slack ユーザーが /deadline link <確認コード> を送ると連携が完了する
+  const handleLink = async () => {
+    if (!supabase || !linkCode) return;
+
+    setLinking(true);
+    setError(null);
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch('/api/slack/link', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session?.access_token ?? ''}` },
+      body: JSON.stringify({ code: linkCode }),
+    });
+    if (response.ok) {
+      setLinkApproval(await response.json());
+    } else {
+      setError(response.status === 404
+        ? '連携用のリンクの有効期限が切れています。Slack でもう一度コマンドを実行してください'
+        : response.status === 409
+          ? 'この Slack アカウント、またはこのワークスペースの別の Slack アカウントとすでに連携しています。解除してから連携してください'
+          : `連携できませんでした（${response.status}）`);
+    }
+    closeLinkRequest();
+    setLinking(false);
+  };
+
+  // Slack で確認コードを送ったあと、連携の一覧を読み直す
+  const refreshLinks = async () => {
+    if (!userId) return;
+
+    const links = await slackUserLinksApi.list(userId);
+    if (links.ok) {
+      setSlackLinks(links.data);
+      if (linkApproval && links.data.some(l => l.slack_user_name === linkApproval.slack_user_name)) setLinkApproval(null);
+    } else {
+      setError(`連携を確認できませんでした: ${describeApiError(links.error)}`);
+    }
+  };
+
+  const handleUnlink = async (link: DbSlackUserLink) => {
+    const result = await slackUserLinksApi.remove(link);
+    if (result.ok) {
+      setSlackLinks(prev => prev.filter(l => l !== link));
+    } else {
+      setError(`連携を解除できませんでした: ${describeApiError(result.error)}`);
+    }
+  };
+
+  // LINE の公式アカウントが返したリンクから開いたとき、どの LINE のユーザーの申請かを表示する（承認するまで連携しない）
+  useEffect(() => {
+    if (!supabase || !lineLinkCode) return;
+
+    const loadPreview = async () => {
+      const { data: { session } } = await supabase!.auth.getSession();
+      const response = await fetch(`/api/line/link?code=${encodeURIComponent(lineLinkCode)}`, {
+        headers: { Authorization: `Bearer ${session?.access_token ?? ''}` },
+      });
+      if (response.ok) {
+        setLineLinkPreview(await response.json());
+      } else {
+        setError(response.status === 404
+          ? '連携用のリンクの有効期限が切れています。LINE で公式アカウントにメッセージを送ると、新しいリンクが届きます'
+          : `連携用のリンクを確認できませんでした（${response.status}）`);
+        setLineLinkCode(null);
+        window.history.replaceState(null, '', window.location.pathname);
+      }
+    };
+    loadPreview();
+  }, [lineLinkCode]);
+
+  const closeLineLinkRequest = () => {
+    setLineLinkCode(null);
+    setLineLinkPreview(null);
+    window.history.replaceState(null, '', window.location.pathname);
+  };
+
+  // 申請を承認して確認コードを受け取る。申請した LINE ユーザーが確認コードを公式アカウントに送ると連携が完了する
+  const handleLineLink = async () => {
+    if (!supabase || !lineLinkCode) return;
+
+    setLineLinking(true);
+    setError(null);
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch('/api/line/link', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session?.access_token ?? ''}` },
+      body: JSON.stringify({ code: lineLinkCode }),
+    });
+    if (response.ok) {
+      setLineLinkApproval(await response.json());
+    } else {
+      setError(response.status === 404
+        ? '連携用のリンクの有効期限が切れています。LINE で公式アカウントにメッセージを送ると、新しいリンクが届きます'
+        : `連携できませんでした（${response.status}）`);
+    }
+    closeLineLinkRequest();
+    setLineLinking(false);
+  };
+
+  // LINE で確認コードを送ったあと、連携しているかを読み直す（編集中のほかの設定はそのまま）
+  const refreshLineLink = async () => {
+    if (!userId) return;
+
+    const result = await notificationSettingsApi.get(userId);
+    if (result.ok) {
+      const { lineUserId, lineDisplayName } = fromDbNotificationSettings(result.data);
+      setSettings(prev => ({ ...prev, lineUserId, lineDisplayName }));
+      if (lineUserId) setLineLinkApproval(null);
+    } else {
+      setError(`連携を確認できませんでした: ${describeApiError(result.error)}`);
+    }
+  };
+
+  const handleLineUnlink = async () => {
+    if (!userId) return;
+
+    const result = await notificationSettingsApi.unlinkLine(userId);
+    if (result.ok) {
+      setSettings(prev => ({ ...prev, lineUserId: '', lineDisplayName: '' }));
+    } else {
+      setError(`連携を解除できませんでした: ${describeApiError(result.error)}`);
+    }
+  };
+
+  // 保存しているアドレスに確認メールを送る（ログインに使っている確認済みのアドレスなら、すぐに確認済みになる）
+  const requestEmailVerification = async () => {
+    if (!supabase) return;
+
+    setVerifyingEmail(true);
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch('/api/email/verify', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${session?.access_token ?? ''}` },
+    });
+    if (response.ok) {
+      const result: EmailVerificationResult = await response.json();
+      if (result.status === 'verified') {
+        setSettings(prev => ({ ...prev, emailVerifiedAddress: result.email_address }));
+        setEmailVerification(null);
+      } else {
+        setEmailVerification(result);
+      }
+    } else {
+      setError(response.status === 429
+        ? '確認メールは少し時間をおいてから送り直してください'
+        : `確認メールを送れませんでした（${response.status}）`);
+    }
+    setVerifyingEmail(false);
+  };
+
+  // 確認のリンクを開いたあと、確認済みかを読み直す（編集中のほかの設定はそのまま）
+  const refreshEmailVerification = async () => {
+    if (!userId) return;
+
+    const result = await notificationSettingsApi.get(userId);
+    if (result.ok) {
+      const { emailVerifiedAddress } = fromDbNotificationSettings(result.data);
+      setSettings(prev => ({ ...prev, emailVerifiedAddress }));
+      if (emailVerifiedAddress === emailVerification?.email_address) setEmailVerification(null);
+    } else {
+      setError(`確認できませんでした: ${describeApiError(result.error)}`);
+    }
+  };
+
+  // この端末のプッシュ通知の ON/OFF（通知の許可はブラウザが確認する）
+  const togglePush = async () => {
+    if (!userId) return;
+
+    setPushUpdating(true);
+    setError(null);
+    try {
+      if (pushSubscribed) {
+        const result = await unsubscribeFromPush();
+        if (result.ok) setPushSubscribed(false);
+        else setError(`プッシュ通知を解除できませんでした: ${describeApiError(result.error)}`);
+      } else if (await Notification.requestPermission() !== 'granted') {
+        setError('通知が許可されていません。ブラウザの設定から許可してください');
+      } else {
+        const result = await subscribeToPush(userId);
+        if (result.ok) setPushSubscribed(true);
+        else setError(`プッシュ通知を登録できませんでした: ${describeApiError(result.error)}`);
+      }
+    } catch (pushError) {
+      console.error('Push subscription error:', pushError);
+      setError('プッシュ通知を設定できませんでした');
+    }
+    setPushUpdating(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId) return;
+
+    const problem = validateNotificationSettings(settings);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const [result, rulesResult] = await Promise.all([
+      notificationSettingsApi.upsert(toDbNotificationSettings(settings, userId)),
+      saveUserSettings({ categoryReminderRules: reminderRules }, userId),
+    ]);
+    if (result.ok) {
+      const stored = fromDbNotificationSettings(result.data);
+      setSettings(stored);
+      setSavedEmailAddress(stored.emailAddress);
+      // 送信先を変えてメールを有効にしたら、新しいアドレスに確認メールを送る
+      if (stored.emailEnabled && stored.emailAddress !== savedEmailAddress && !isEmailVerified(stored)) {
+        await requestEmailVerification();
+      }
+    } else {
+      setError(`保存できませんでした: ${describeApiError(result.error)}`);
+    }
+    if (rulesResult.ok) {
+      setReminderRules(rulesResult.data.categoryReminderRules);
+    } else {
+      setError(`通知のルールを保存できませんでした: ${describeApiError(rulesResult.error)}`);
+    }
+    setSaved(result.ok && rulesResult.ok);
+    setSaving(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-indigo-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-white mx-auto mb-4"></div>
+          <p className="text-white text-lg">読み込み中...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-indigo-900 flex items-center justify-center px-4 py-8">
+      <div className="bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl p-6 sm:p-8 w-full max-w-lg">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-black text-slate-800">⚙️ 通知の設定</h1>
+          <button
+            type="button"
+            onClick={() => router.push('/')}
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            ← 一覧に戻る
+          </button>
+        </div>
+
+        {!supabase ? (
+          <p className="text-sm text-gray-600">
+            チャット・メールへの通知はサーバーから送るため、Supabase の設定が必要です（README_DEPLOYMENT.md を参照）
+          </p>
+        ) : (
+          <>
+            <form onSubmit={handleSave} className="space-y-5">
+              <section className="space-y-3">
+                <h2 className="text-base font-bold text-gray-800">チャット</h2>
+                <p className="text-xs text-gray-500">
+                  毎朝のまとめと期日の通知を、あなたの連絡先だけ Slack・Microsoft Teams・Discord・LINE に送ります
+                </p>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {([
+                    { id: 'digestChannel', label: '毎朝のまとめ' },
+                    { id: 'reminderChannel', label: '期日の通知' },
+                  ] as const).map(({ id, label }) => (
+                    <div key={id}>
+                      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+                        {label}の送り先
+                      </label>
+                      <select
+                        id={id}
+                        value={settings[id] ?? ''}
+                        onChange={(e) => update({ [id]: isChatChannel(e.target.value) ? e.target.value : null })}
+                        className="w-full px-4 py-2 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 focus:bg-white transition-all text-sm"
+                      >
+                        <option value="">送らない</option>
+                        {CHAT_CHANNELS.map(({ value, label: channelLabel }) => (
+                          <option key={value} value={value}>{channelLabel}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+
+                {lineLinkCode && lineLinkPreview && (
+                  <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-2">
+                    <p className="text-sm text-blue-800">
+                      LINE の <strong>{lineLinkPreview.line_display_name || '（表示名を取得できませんでした）'}</strong> をこのアカウントと連携しますか？
+                    </p>
+                    <p className="text-xs text-blue-700">
+                      自分で公式アカウントを友だち追加して届いたリンクでなければ、連携しないでください（連携した LINE に連絡先の通知が届きます）
+                    </p>
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={closeLineLinkRequest}
+                        className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 font-semibold rounded-lg hover:bg-gray-200 whitespace-nowrap"
+                      >
+                        連携しない
+                      </button>
+                      <button
+                        type="button"
+                        onClick={handleLineLink}
+                        disabled={lineLinking}
+                        className="px-3 py-1.5 text-sm bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+                      >
+                        {lineLinking ? '承認中...' : '承認する'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {lineLinkApproval && (
+                  <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-2">
+                    <p className="text-sm text-blue-800">
+                      LINE の <strong>{lineLinkApproval.line_display_name || '公式アカウントを友だち追加したアカウント'}</strong> から、公式アカウントのトークに次の確認コードを送ると連携が完了します（{formatExpiry(lineLinkApproval.expires_at)} まで）
+                    </p>
+                    <p className="font-mono text-sm bg-white border border-blue-200 rounded px-2 py-1">{lineLinkApproval.verification_code}</p>
+                    <p className="text-xs text-blue-700">確認コードは他の人に教えないでください</p>
+                    <button
+                      type="button"
+                      onClick={refreshLineLink}
+                      className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      🔄 連携を確認
+                    </button>
+                  </div>
+                )}
+
+                {/* 選んだチャットの送信先だけを入力する */}
+                {CHAT_CHANNELS
+                  .filter(({ value }) => value === settings.digestChannel || value === settings.reminderChannel)
+                  .map(({ value }) => {
+                    if (value === 'line') {
+                      return (
+                        <div key={value}>
+                          <p className="block text-sm font-medium text-gray-700 mb-1">LINE の連携</p>
+                          {settings.lineUserId ? (
+                            <div className="flex items-center justify-between text-sm text-gray-700">
+                              <span>{settings.lineDisplayName || '連携しています'}</span>
+                              <button
+                                type="button"
+                                onClick={handleLineUnlink}
+                                className="text-xs text-red-600 hover:text-red-700 font-medium"
+                              >
+                                解除
+                              </button>
+                            </div>
+                          ) : (
+                            <p className="text-xs text-gray-500">
+                              通知用の LINE 公式アカウントを友だち追加すると、連携用のリンクが届きます。リンクを開いて承認し、表示された確認コードを LINE で送ってください（公式アカウントは管理者に確認してください）
+                            </p>
+                          )}
+                        </div>
+                      );
+                    }
+
+                    const field = CHAT_DESTINATION_FIELDS[value];
+                    return (
+                      <div key={value}>
+                        <label htmlFor={field.key} className="block text-sm font-medium text-gray-700 mb-1">
+                          {field.label}
+                        </label>
+                        <input
+                          id={field.key}
+                          type="url"
+                          value={settings[field.key]}
+                          onChange={(e) => update({ [field.key]: e.target.value })}
+                          className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 focus:bg-white transition-all text-sm"
+                          placeholder={field.placeholder}
+                          spellCheck={false}
+                        />
+                        <p className="mt-1 text-xs text-gray-500">{field.help}</p>
+                      </div>
+                    );
+                  })}
+
+                <div>
+                  <label htmlFor="chatSendTime" className="block text-sm font-medium text-gray-700 mb-1">
+                    毎朝のまとめを送る時刻
+                  </label>
+                  <input
+                    id="chatSendTime"
+                    type="time"
+                    step={DIGEST_INTERVAL_MINUTES * 60}
+                    value={settings.chatSendTime}
+                    onChange={(e) => update({ chatSendTime: e.target.value })}
+                    className="px-4 py-2 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 focus:bg-white transition-all text-sm"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    「日付と休日」で設定したタイムゾーンの時刻です（{DIGEST_INTERVAL_MINUTES}分ごとに確認して送ります）
+                  </p>
+                </div>
+
+                <fieldset>
+                  <legend className="block text-sm font-medium text-gray-700 mb-1">まとめに含める項目</legend>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                    {DIGEST_SECTIONS.map(({ value, label }) => (
+                      <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={settings.chatDigestSections.includes(value)}
+                          onChange={(e) => toggleSection(value, e.target.checked)}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">送る内容がない日は送りません</p>
+                </fieldset>
+
+                <div>
+                  <button
+                    type="button"
+                    onClick={handlePreview}
+                    disabled={previewing || settings.chatDigestSections.length === 0}
+                    className="text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+                  >
+                    {previewing ? '作成中...' : '👀 今日のまとめをプレビュー'}
+                  </button>
+                  {preview && (
+                    <div className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2 max-h-80 overflow-y-auto">
+                      {preview.blocks.map((block, i) => {
+                        if (block.type === 'divider') return <hr key={i} className="border-gray-200" />;
+                        if (block.type === 'header') return <p key={i} className="font-bold text-gray-800">{block.text.text}</p>;
+                        if (block.type === 'section') {
+                          const text = [block.text?.text, ...(block.fields || []).map(f => f.text.replace('\n', ' '))].filter(Boolean).join('\n');
+                          // Slack のリンク表記 <URL|名前> は名前だけ表示する
+                          return <p key={i} className="text-xs text-gray-700 whitespace-pre-wrap">{text.replace(/<[^|>]+\|([^>]+)>/g, '$1').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&')}</p>;
+                        }
+                        return null;
+                      })}
+                    </div>
+                  )}
+                </div>
+              </section>
+
+              <section className="space-y-3 pt-5 border-t border-gray-200">
+                <h2 className="text-base font-bold text-gray-800">メール</h2>
+                <p className="text-xs text-gray-500">
+                  毎朝、期限切れ・本日・今後{UPCOMING_DAYS}日間の期日をまとめてメールで送ります（送る内容がない日は送りません）。期日の通知もメールで届きます
+                </p>
+
+                <div>
+                  <label htmlFor="emailAddress" className="block text-sm font-medium text-gray-700 mb-1">
+                    送信先のメールアドレス
+                  </label>
+                  <input
+                    id="emailAddress"
+                    type="email"
+                    value={settings.emailAddress}
+                    onChange={(e) => update({ emailAddress: e.target.value })}
+                    className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 focus:bg-white transition-all text-sm"
+                    placeholder="you@example.com"
+                  />
+                  {settings.emailAddress.trim() && (isEmailVerified(settings) ? (
+                    <p className="mt-1 text-xs text-emerald-700">✅ 確認済みのアドレスです</p>
+                  ) : settings.emailAddress.trim() !== savedEmailAddress ? (
+                    <p className="mt-1 text-xs text-gray-500">保存すると、このアドレスに確認メールを送ります（リンクを開いて確認するまでメールは送りません）</p>
+                  ) : (
+                    <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1">
+                      <p className="text-xs text-amber-700">未確認のアドレスです。確認メールのリンクを開くまでメールは送りません</p>
+                      <button
+                        type="button"
+                        onClick={requestEmailVerification}
+                        disabled={verifyingEmail}
+                        className="text-xs text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+                      >
+                        {verifyingEmail ? '送信中...' : '確認メールを送る'}
+                      </button>
+                    </div>
+                  ))}
+                  {emailVerification && !isEmailVerified(settings) && (
+                    <div className="mt-2 p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-2">
+                      <p className="text-sm text-blue-800">
+                        <strong>{emailVerification.email_address}</strong> に確認メールを送りました。メールのリンクを開いて確認してください
+                      </p>
+                      <button
+                        type="button"
+                        onClick={refreshEmailVerification}
+                        className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                      >
+                        確認しました
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor="emailSendTime" className="block text-sm font-medium text-gray-700 mb-1">
+                    メールを送る時刻
+                  </label>
+                  <input
+                    id="emailSendTime"
+                    type="time"
+                    step={DIGEST_INTERVAL_MINUTES * 60}
+                    value={settings.emailSendTime}
+                    onChange={(e) => update({ emailSendTime: e.target.value })}
+                    className="px-4 py-2 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 focus:bg-white transition-all text-sm"
+                  />
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.emailEnabled}
+                    onChange={(e) => update({ emailEnabled: e.target.checked })}
+                  />
+                  メールで受け取る
+                </label>
+              </section>
+
+              <section className="space-y-3 pt-5 border-t border-gray-200">
+                <h2 className="text-base font-bold text-gray-800">期日の通知のルール</h2>
+                <p className="text-xs text-gray-500">
+                  期日の◯日前・当日・期限切れの間に、{RULE_REMINDER_TIME} から有効にしている送信先（チャット・メール・プッシュ通知）に通知します。
+                  カテゴリごとの既定で、連絡先ごとに変えることもできます。「既定」のカテゴリは、時刻のない連絡先だけ当日と期限切れの間に通知します
+                </p>
+                <ul className="space-y-2">
+                  {[...new Set([...Object.keys(STANDARD_CATEGORY_LABELS), ...customCategories, ...Object.keys(reminderRules)])].map(category => (
+                    <li key={category} className="space-y-1">
+                      <p className="text-sm font-medium text-gray-700">{categoryLabel(category)}</p>
+                      <ReminderRulesInput
+                        rules={reminderRules[category]}
+                        onChange={rules => updateReminderRules(category, rules)}
+                      />
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              {error && (
+                <div className="p-3 bg-red-100 border border-red-300 rounded-lg">
+                  <p className="text-sm text-red-700">{error}</p>
+                </div>
+              )}
+              {saved && (
+                <div className="p-3 bg-emerald-50 border border-emerald-200 rounded-lg">
+                  <p className="text-sm text-emerald-700">保存しました</p>
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={saving}
+                className="w-full px-6 py-3 bg-gradient-to-r from-blue-600 to-indigo-600 text-white font-bold rounded-xl hover:from-blue-700 hover:to-indigo-700 transition-all duration-300 disabled:opacity-50 shadow-lg hover:shadow-xl"
+              >
+                {saving ? '保存中...' : '保存'}
+              </button>
+
+            </form>
+
+            <section className="space-y-3 mt-6 pt-5 border-t border-gray-200">
+              <h2 className="text-base font-bold text-gray-800">この端末のプッシュ通知</h2>
+              <p className="text-xs text-gray-500">
+                画面を閉じていても、期日の通知（時刻の◯分前と、「期日の通知のルール」）がこの端末に届きます
+              </p>
+              {isPushSupported() ? (
+                <button
+                  type="button"
+                  onClick={togglePush}
+                  disabled={pushUpdating}
+                  className="px-3 py-1.5 text-sm bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {pushUpdating ? '設定中...' : pushSubscribed ? 'プッシュ通知を止める' : 'プッシュ通知を受け取る'}
+                </button>
+              ) : (
+                <p className="text-sm text-gray-600">このブラウザ（またはサーバーの設定）はプッシュ通知に対応していません</p>
+              )}
+            </section>
+
+            <section className="space-y-3 mt-6 pt-5 border-t border-gray-200">
+              <h2 className="text-base font-bold text-gray-800">Slack のコマンド</h2>
+              <p className="text-xs text-gray-500">
+                Slack で <code>/deadline add 田中様 見積送付 明日 A</code> や <code>/deadline today</code> を使うには、Slack のアカウントを連携してください（初めてコマンドを使うと連携用のリンクが届きます）
+              </p>
+
+              {linkCode && linkPreview && (
+                <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-2">
+                  <p className="text-sm text-blue-800">
+                    Slack の <strong>@{linkPreview.slack_user_name}</strong>（ワークスペース：{linkPreview.slack_team_name || '不明'}）をこのアカウントと連携しますか？
+                  </p>
+                  <p className="text-xs text-blue-700">
+                    自分で <code>/deadline</code> を実行して届いたリンクでなければ、連携しないでください（連携した Slack アカウントから連絡先を読み書きできます）
+                  </p>
+                  <div className="flex justify-end gap-2">
+                    <button
+                      type="button"
+                      onClick={closeLinkRequest}
+                      className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 font-semibold rounded-lg hover:bg-gray-200 whitespace-nowrap"
+                    >
+                      連携しない
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleLink}
+                      disabled={linking}
+                      className="px-3 py-1.5 text-sm bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+                    >
+                      {linking ? '承認中...' : '承認する'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {linkApproval && (
+                <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-2">
+                  <p className="text-sm text-blue-800">
+                    Slack で <strong>@{linkApproval.slack_user_name}</strong> として次のコマンドを実行すると、連携が完了します（{formatExpiry(linkApproval.expires_at)} まで）
+                  </p>
+                  <p className="font-mono text-sm bg-white border border-blue-200 rounded px-2 py-1">/deadline link {linkApproval.verification_code}</p>
+                  <p className="text-xs text-blue-700">確認コードは他の人に教えないでください</p>
+                  <button
+                    type="button"
+                    onClick={refreshLinks}
+                    className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    🔄 連携を確認
+                  </button>
+                </div>
+              )}
+
+              {slackLinks.length === 0 ? (
+                <p className="text-sm text-gray-600">連携している Slack のアカウントはありません</p>
+              ) : (
+                <ul className="space-y-1">
+                  {slackLinks.map(link => (
+                    <li key={`${link.slack_team_id}:${link.slack_user_id}`} className="flex items-center justify-between text-sm text-gray-700">
+                      <span>@{link.slack_user_name || link.slack_user_id}</span>
+                      <button
+                        type="button"
+                        onClick={() => handleUnlink(link)}
+                        className="text-xs text-red-600 hover:text-red-700 font-medium"
+                      >
+                        解除
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="space-y-3 mt-6 pt-5 border-t border-gray-200">
+              <h2 className="text-base font-bold text-gray-800">Webhook</h2>
+              <p className="text-xs text-gray-500">
+                連絡先の作成・完了・期限切れ・削除を、CRM や社内ツールに送ります
+              </p>
+              <button
+                type="button"
+                onClick={() => router.push('/settings/webhooks')}
+                className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 font-semibold rounded-lg hover:bg-gray-200"
+              >
+                🔗 Webhook を設定
+              </button>
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { describeApiError, supabase, webhookDeliveriesApi, webhookEndpointsApi } from '@/lib/supabase';
+import type { DbWebhookDelivery, DbWebhookEndpoint, WebhookTestResult } from '@/lib/supabase';
+import { WEBHOOK_EVENTS, describeWebhookError, describeWebhookEvent, validateWebhookEndpoint } from '@/lib/webhooks';
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const STATUS_LABELS: Record<DbWebhookDelivery['status'], { label: string; className: string }> = {
+  pending: { label: '再送待ち', className: 'bg-amber-100 text-amber-700' },
+  succeeded: { label: '成功', className: 'bg-emerald-100 text-emerald-700' },
+  failed: { label: '失敗', className: 'bg-red-100 text-red-700' },
+};
+
+// 連絡先のイベント（作成・完了・期限切れ・削除）を外部の URL に送る Webhook の設定と送信ログ
+export default function WebhooksPage() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [endpoints, setEndpoints] = useState<DbWebhookEndpoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<string[]>(WEBHOOK_EVENTS.map(e => e.value));
+  const [saving, setSaving] = useState(false);
+  const [logId, setLogId] = useState<string | null>(null); // 送信ログを開いている送信先
+  const [deliveries, setDeliveries] = useState<DbWebhookDelivery[]>([]);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [secretId, setSecretId] = useState<string | null>(null); // 署名の鍵を表示している送信先
+  const router = useRouter();
+
+  // ログインユーザーの送信先を読み込む（未ログインならログイン画面へ）
+  useEffect(() => {
+    const load = async () => {
+      if (!supabase) {
+        setLoading(false);
+        return;
+      }
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) {
+        router.push('/auth');
+        return;
+      }
+
+      setUserId(session.user.id);
+      const result = await webhookEndpointsApi.list(session.user.id);
+      if (result.ok) {
+        setEndpoints(result.data);
+      } else {
+        setError(`送信先を読み込めませんでした: ${describeApiError(result.error)}`);
+      }
+      setLoading(false);
+    };
+    load();
+  }, [router]);
+
+  const loadDeliveries = async (endpointId: string) => {
+    const result = await webhookDeliveriesApi.list(endpointId);
+    if (result.ok) {
+      setDeliveries(result.data);
+    } else {
+      setError(`送信ログを読み込めませんでした: ${describeApiError(result.error)}`);
+    }
+  };
+
+  const toggleLog = (endpointId: string) => {
+    if (logId === endpointId) {
+      setLogId(null);
+      return;
+    }
+    setLogId(endpointId);
+    setDeliveries([]);
+    loadDeliveries(endpointId);
+  };
+
+  const toggleEvent = (list: string[], event: string, checked: boolean) =>
+    WEBHOOK_EVENTS.map(e => e.value).filter(e => e === event ? checked : list.includes(e));
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId) return;
+
+    const problem = validateWebhookEndpoint({ url, events });
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const result = await webhookEndpointsApi.create({ user_id: userId, url: url.trim(), description: description.trim(), events });
+    if (result.ok) {
+      setEndpoints(prev => [...prev, result.data]);
+      setUrl('');
+      setDescription('');
+      setEvents(WEBHOOK_EVENTS.map(e => e.value));
+      setSecretId(result.data.id); // 受信側に設定できるよう、作成直後は鍵を表示する
+    } else {
+      setError(`追加できませんでした: ${describeApiError(result.error)}`);
+    }
+    setSaving(false);
+  };
+
+  const handleUpdate = async (endpoint: DbWebhookEndpoint, patch: Partial<Pick<DbWebhookEndpoint, 'events' | 'enabled'>>) => {
+    if (patch.events && patch.events.length === 0) {
+      setError('送るイベントを1つ以上選んでください');
+      return;
+    }
+
+    setError(null);
+    const result = await webhookEndpointsApi.update(endpoint.id, patch);
+    if (result.ok) {
+      setEndpoints(prev => prev.map(e => e.id === endpoint.id ? result.data : e));
+    } else {
+      setError(`変更できませんでした: ${describeApiError(result.error)}`);
+    }
+  };
+
+  const handleRemove = async (endpoint: DbWebhookEndpoint) => {
+    if (!confirm(`${endpoint.url} への送信をやめて、送信ログも削除しますか？`)) return;
+
+    const result = await webhookEndpointsApi.remove(endpoint.id);
+    if (result.ok) {
+      setEndpoints(prev => prev.filter(e => e.id !== endpoint.id));
+      if (logId === endpoint.id) setLogId(null);
+    } else {
+      setError(`削除できませんでした: ${describeApiError(result.error)}`);
+    }
+  };
+
+  // テストのイベントをすぐに送り、送信ログを開いて結果を見せる
+  const handleTest = async (endpoint: DbWebhookEndpoint) => {
+    if (!supabase) return;
+
+    setTestingId(endpoint.id);
+    setError(null);
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch('/api/webhooks/test', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session?.access_token ?? ''}` },
+      body: JSON.stringify({ endpointId: endpoint.id }),
+    });
+    if (response.ok) {
+      const delivery: WebhookTestResult = await response.json();
+      if (delivery.status !== 'succeeded') {
+        const status = delivery.response_status !== null ? `HTTP ${delivery.response_status}：` : '';
+        setError(`テスト送信に失敗しました（${status}${describeWebhookError(delivery.last_error ?? '')}）`);
+      }
+      setLogId(endpoint.id);
+      await loadDeliveries(endpoint.id);
+    } else {
+      setError(`テスト送信できませんでした（${response.status}）`);
+    }
+    setTestingId(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-indigo-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-white mx-auto mb-4"></div>
+          <p className="text-white text-lg">読み込み中...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-indigo-900 flex items-center justify-center px-4 py-8">
+      <div className="bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl p-6 sm:p-8 w-full max-w-2xl">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-black text-slate-800">🔗 Webhook</h1>
+          <button
+            type="button"
+            onClick={() => router.push('/settings')}
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            ← 通知の設定に戻る
+          </button>
+        </div>
+
+        {!supabase ? (
+          <p className="text-sm text-gray-600">
+            Webhook はサーバーから送るため、Supabase の設定が必要です（README_DEPLOYMENT.md を参照）
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-xs text-gray-500">
+              連絡先の作成・完了・期限切れ・削除を、CRM や社内ツールの URL に JSON（data は連絡先の行）で送ります。
+              本文は送信先ごとの鍵で署名し（X-Webhook-Signature）、受け取れなかったときは間隔を空けて再送します
+            </p>
+
+            {error && (
+              <div className="p-3 bg-red-100 border border-red-300 rounded-lg">
+                <p className="text-sm text-red-700 break-all">{error}</p>
+              </div>
+            )}
+
+            {endpoints.length === 0 ? (
+              <p className="text-sm text-gray-600">送信先はまだありません</p>
+            ) : (
+              <ul className="space-y-4">
+                {endpoints.map(endpoint => (
+                  <li key={endpoint.id} className="p-4 border border-gray-200 rounded-xl space-y-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-semibold text-gray-800 break-all">{endpoint.url}</p>
+                        {endpoint.description && <p className="text-xs text-gray-500">{endpoint.description}</p>}
+                      </div>
+                      <label className="flex items-center gap-1 text-xs text-gray-700 whitespace-nowrap">
+                        <input
+                          type="checkbox"
+                          checked={endpoint.enabled}
+                          onChange={(e) => handleUpdate(endpoint, { enabled: e.target.checked })}
+                        />
+                        送信する
+                      </label>
+                    </div>
+
+                    <div className="flex flex-wrap gap-x-4 gap-y-1">
+                      {WEBHOOK_EVENTS.map(({ value, label }) => (
+                        <label key={value} className="flex items-center gap-1 text-xs text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={endpoint.events.includes(value)}
+                            onChange={(e) => handleUpdate(endpoint, { events: toggleEvent(endpoint.events, value, e.target.checked) })}
+                          />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+
+                    <div className="text-xs text-gray-600">
+                      署名の鍵：
+                      {secretId === endpoint.id ? (
+                        <code className="ml-1 px-1 bg-gray-100 rounded break-all select-all">{endpoint.secret}</code>
+                      ) : (
+                        <button type="button" onClick={() => setSecretId(endpoint.id)} className="ml-1 text-blue-600 hover:text-blue-700">
+                          表示
+                        </button>
+                      )}
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleTest(endpoint)}
+                        disabled={testingId === endpoint.id}
+                        className="px-3 py-1.5 text-xs bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {testingId === endpoint.id ? '送信中...' : 'テスト送信'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => toggleLog(endpoint.id)}
+                        className="px-3 py-1.5 text-xs bg-gray-100 text-gray-700 font-semibold rounded-lg hover:bg-gray-200"
+                      >
+                        {logId === endpoint.id ? '送信ログを閉じる' : '送信ログ'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(endpoint)}
+                        className="px-3 py-1.5 text-xs text-red-600 hover:text-red-700 font-medium"
+                      >
+                        削除
+                      </button>
+                    </div>
+
+                    {logId === endpoint.id && (
+                      <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                          <p className="text-xs font-semibold text-gray-700">最近の送信（{deliveries.length}件）</p>
+                          <button type="button" onClick={() => loadDeliveries(endpoint.id)} className="text-xs text-blue-600 hover:text-blue-700">
+                            更新
+                          </button>
+                        </div>
+                        {deliveries.length === 0 ? (
+                          <p className="text-xs text-gray-400">送信はまだありません</p>
+                        ) : (
+                          <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg max-h-72 overflow-y-auto">
+                            {deliveries.map(delivery => (
+                              <li key={delivery.id} className="px-2 py-1.5 text-xs text-gray-700 space-y-0.5">
+                                <div className="flex items-center gap-2">
+                                  <span className={`px-1.5 py-0.5 rounded ${STATUS_LABELS[delivery.status].className}`}>
+                                    {STATUS_LABELS[delivery.status].label}
+                                  </span>
+                                  <span className="font-medium">{describeWebhookEvent(delivery.event)}</span>
+                                  <span className="truncate text-gray-500">{delivery.payload.data?.name}</span>
+                                  <span className="ml-auto text-gray-400 whitespace-nowrap">{formatDateTime(delivery.created_at)}</span>
+                                </div>
+                                <p className="text-gray-500">
+                                  {delivery.attempts}回送信
+                                  {delivery.response_status !== null && `・HTTP ${delivery.response_status}`}
+                                  {delivery.status === 'pending' && delivery.attempts > 0 && `・次回 ${formatDateTime(delivery.next_attempt_at)}`}
+                                </p>
+                                {delivery.last_error && <p className="text-red-600">{describeWebhookError(delivery.last_error)}</p>}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <form onSubmit={handleAdd} className="space-y-3 pt-5 border-t border-gray-200">
+              <h2 className="text-base font-bold text-gray-800">送信先を追加</h2>
+              <input
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 focus:bg-white transition-all text-sm"
+                placeholder="https://example.com/webhooks/deadlines"
+                spellCheck={false}
+              />
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 focus:bg-white transition-all text-sm"
+                placeholder="メモ（例：CRM 連携）"
+              />
+              <fieldset>
+                <legend className="block text-sm font-medium text-gray-700 mb-1">送るイベント</legend>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                  {WEBHOOK_EVENTS.map(({ value, label }) => (
+                    <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={events.includes(value)}
+                        onChange={(e) => setEvents(toggleEvent(events, value, e.target.checked))}
+                      />
+                      {label}
+                      <code className="text-xs text-gray-400">{value}</code>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+              <button
+                type="submit"
+                disabled={saving}
+                className="w-full px-6 py-3 bg-gradient-to-r from-blue-600 to-indigo-600 text-white font-bold rounded-xl hover:from-blue-700 hover:to-indigo-700 transition-all duration-300 disabled:opacity-50 shadow-lg hover:shadow-xl"
+              >
+                {saving ? '追加中...' : '追加'}
+              </button>
+            </form>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { actualDeadline } from './contacts';
+import type { Contact } from './contacts';
+import type { DbContactActivity } from './supabase';
+
+// 連絡先の操作履歴の種類
+export type ActivityType =
+  | 'created'
+  | 'edited' // 名前・目的・繰り返しの変更
+  | 'completed' // 繰り返しの連絡先は完了と同時に次回へ進む（details.next）
+  | 'reopened' // 完了を取り消し
+  | 'rescheduled' // 期日の変更（完了後の次回期日の設定を含む）
+  | 'priority_changed'
+  | 'category_changed'
+  | 'deleted' // ゴミ箱に移動
+  | 'restored';
+
+export interface ActivityChange {
+  from?: string | null;
+  to?: string | null;
+}
+
+export interface ActivityDetails extends ActivityChange {
+  deadline?: string; // created / completed 時点の期日
+  next?: string; // 繰り返しで自動設定された次回の期日
+  priority?: string;
+  category?: string;
+  fields?: Record<string, ActivityChange>; // edited で変わった項目
+}
+
+// 操作履歴（追記のみ。変更・削除はしない）
+export interface ContactActivity {
+  id: string;
+  contactId: string;
+  type: ActivityType;
+  details: ActivityDetails;
+  actor: string; // 操作した人（メールアドレス。定期ジョブ等は 'system'、Slack は 'slack:<名前>'、LocalStorage は 'local'）
+  createdAt: string;
+}
+
+export type ActivityDraft = Pick<ContactActivity, 'type' | 'details'>;
+
+export const fromDbActivity = (row: DbContactActivity): ContactActivity => ({
+  id: String(row.id),
+  contactId: row.contact_id,
+  type: row.type,
+  details: row.details || {},
+  actor: row.actor || 'system',
+  createdAt: row.created_at
+});
+
+export const createdActivity = (contact: Contact): ActivityDraft => ({
+  type: 'created',
+  details: { deadline: contact.deadline, priority: contact.priority || 'C', category: contact.category }
+});
+
+// 変更前後の差分から履歴を作る（DB側のトリガー log_contact_activity と同じ判定）
+export const diffActivities = (before: Contact, after: Contact): ActivityDraft[] => {
+  const drafts: ActivityDraft[] = [];
+
+  if (!before.deletedAt && after.deletedAt) drafts.push({ type: 'deleted', details: {} });
+  if (before.deletedAt && !after.deletedAt) drafts.push({ type: 'restored', details: {} });
+
+  // 繰り返しの連絡先は未完了のまま completedAt だけが新しくなる（1回分の完了）
+  const occurrenceCompleted = after.status === 'pending' && !!after.completedAt && after.completedAt !== before.completedAt;
+  if ((before.status !== 'completed' && after.status === 'completed') || occurrenceCompleted) {
+    const details: ActivityDetails = { deadline: actualDeadline(before) };
+    if (occurrenceCompleted) details.next = actualDeadline(after);
+    drafts.push({ type: 'completed', details });
+  } else if (before.status === 'completed' && after.status !== 'completed' && after.deadline === before.deadline) {
+    drafts.push({ type: 'reopened', details: {} });
+  }
+
+  if (!occurrenceCompleted && actualDeadline(after) !== actualDeadline(before)) {
+    drafts.push({ type: 'rescheduled', details: { from: actualDeadline(before), to: actualDeadline(after) } });
+  }
+  if ((after.priority || 'C') !== (before.priority || 'C')) {
+    drafts.push({ type: 'priority_changed', details: { from: before.priority || 'C', to: after.priority || 'C' } });
+  }
+  if (after.category !== before.category) {
+    drafts.push({ type: 'category_changed', details: { from: before.category, to: after.category } });
+  }
+
+  const fields: Record<string, ActivityChange> = {};
+  if (after.name !== before.name) fields.name = { from: before.name, to: after.name };
+  if (after.purpose !== before.purpose) fields.purpose = { from: before.purpose, to: after.purpose };
+  if ((after.recurrenceRule || null) !== (before.recurrenceRule || null)) {
+    fields.recurring = { from: before.recurrenceRule || null, to: after.recurrenceRule || null };
+  }
+  if (Object.keys(fields).length > 0) drafts.push({ type: 'edited', details: { fields } });
+
+  return drafts;
+};
+
+const FIELD_LABELS: Record<string, string> = { name: '名前', purpose: '目的', recurring: '繰り返し' };
+
+const formatDate = (date?: string | null) =>
+  date ? new Date(date).toLocaleDateString('ja-JP', { month: 'numeric', day: 'numeric' }) : 'なし';
+
+// タイムラインに表示する文言
+export const describeActivity = (activity: ContactActivity): string => {
+  const { details } = activity;
+  switch (activity.type) {
+    case 'created': return `追加（期日 ${formatDate(details.deadline)}）`;
+    case 'completed':
+      return details.next
+        ? `完了（期日 ${formatDate(details.deadline)}）・次回 ${formatDate(details.next)}`
+        : `完了（期日 ${formatDate(details.deadline)}）`;
+    case 'reopened': return '未完了に戻しました';
+    case 'rescheduled': return `期日を変更：${formatDate(details.from)} → ${formatDate(details.to)}`;
+    case 'priority_changed': return `優先度を変更：${details.from} → ${details.to}`;
+    case 'category_changed': return `カテゴリを変更：${details.from} → ${details.to}`;
+    case 'edited': {
+      const labels = Object.keys(details.fields || {}).map(field => FIELD_LABELS[field] || field);
+      return `${labels.join('・')}を編集`;
+    }
+    case 'deleted': return 'ゴミ箱に移動';
+    case 'restored': return 'ゴミ箱から復元';
+  }
+};
+
+// 操作した人の表示名
+export const describeActor = (actor: string, currentUserEmail?: string): string => {
+  if (actor === 'system') return 'システム';
+  if (actor.startsWith('slack:')) return `${actor.slice('slack:'.length)}（Slack）`;
+  if (actor === 'local' || actor === currentUserEmail) return 'あなた';
+  return actor;
+};
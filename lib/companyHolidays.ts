@@ -0,0 +1,62 @@
+import { companyHolidaysApi, ok } from './supabase';
+import type { ApiResult, DbCompanyHoliday } from './supabase';
+import type { CompanyHoliday } from './holidays';
+
+// 会社の休日（Supabase では company_holidays、それ以外は LocalStorage に保存する）
+// サーバー（Slack のボタンなど）も company_holidays を読んで営業日を計算する
+
+const STORAGE_KEY = 'companyHolidays';
+
+const sortByDate = (holidays: CompanyHoliday[]) => [...holidays].sort((a, b) => a.date.localeCompare(b.date));
+
+const fromDbCompanyHolidays = (rows: Pick<DbCompanyHoliday, 'date' | 'name'>[]): CompanyHoliday[] =>
+  sortByDate(rows.map(row => ({ date: row.date, name: row.name })));
+
+const readLocalCompanyHolidays = (): CompanyHoliday[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+// userId があれば Supabase から、なければ LocalStorage から読み込む
+// Supabase にまだ休日がなければ、以前ブラウザに保存した休日を移す
+export const loadCompanyHolidays = async (userId?: string): Promise<ApiResult<CompanyHoliday[]>> => {
+  if (!userId) return ok(sortByDate(readLocalCompanyHolidays()));
+
+  const result = await companyHolidaysApi.list(userId);
+  if (!result.ok) return result;
+
+  const local = readLocalCompanyHolidays();
+  if (result.data.length > 0 || local.length === 0) return ok(fromDbCompanyHolidays(result.data));
+
+  const moved = await companyHolidaysApi.upsert(local.map(h => ({ user_id: userId, date: h.date, name: h.name })));
+  if (!moved.ok) return moved;
+  localStorage.removeItem(STORAGE_KEY);
+  return ok(sortByDate(local));
+};
+
+// 休日の一覧を保存する（previous は画面に表示していた一覧。なくなった日付を削除する）
+export const saveCompanyHolidays = async (
+  holidays: CompanyHoliday[],
+  previous: CompanyHoliday[],
+  userId?: string
+): Promise<ApiResult<CompanyHoliday[]>> => {
+  const sorted = sortByDate(holidays);
+  if (!userId) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sorted));
+    return ok(sorted);
+  }
+
+  const removed = previous.filter(p => !holidays.some(h => h.date === p.date)).map(p => p.date);
+  const [removeResult, upsertResult] = await Promise.all([
+    companyHolidaysApi.remove(userId, removed),
+    companyHolidaysApi.upsert(sorted.map(h => ({ user_id: userId, date: h.date, name: h.name }))),
+  ]);
+  if (!removeResult.ok) return removeResult;
+  if (!upsertResult.ok) return upsertResult;
+  return ok(sorted);
+};
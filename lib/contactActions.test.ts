@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { quickActionOf } from './contactActions';
+import { toDbPatch } from './contacts';
+import type { Contact } from './contacts';
+
+const contact: Contact = {
+  id: 'c1',
+  name: '田中様',
+  purpose: '見積送付',
+  deadline: '2026-10-15',
+  status: 'pending',
+  category: 'customer',
+  createdAt: '2026-10-01T00:00:00Z',
+  completedAt: '2026-09-30T00:00:00Z', // 繰り返しの前回の完了
+  isOverdue: true,
+  originalDeadline: '2026-10-12',
+};
+
+test('延期は期日を進め、期限切れを解除する', () => {
+  const { patch, summary } = quickActionOf(contact, 'snooze_tomorrow', '2026-10-19');
+  assert.equal(patch.deadline, '2026-10-20');
+  assert.equal(patch.isOverdue, false);
+  assert.equal(toDbPatch(patch).original_deadline, null);
+  assert.match(summary, /延期しました$/);
+  assert.equal(quickActionOf(contact, 'snooze_week', '2026-10-19').patch.deadline, '2026-10-26');
+});
+
+test('延期は完了日時を変えない', () => {
+  const { patch } = quickActionOf(contact, 'snooze_week', '2026-10-19');
+  assert.equal('completedAt' in patch, false);
+  assert.equal('completed_at' in toDbPatch(patch), false);
+});
+
+test('日を指定していない毎月の繰り返しは、完了したときに現在の回の日をルールに書き込む', () => {
+  const monthly: Contact = { ...contact, deadline: '2026-01-31', isOverdue: false, originalDeadline: undefined, recurrenceRule: 'FREQ=MONTHLY' };
+  const { patch } = quickActionOf(monthly, 'complete', '2026-01-31');
+  assert.equal(patch.recurrenceRule, 'FREQ=MONTHLY;BYMONTHDAY=28,29,30,31;BYSETPOS=-1');
+  assert.equal(patch.deadline, '2026-02-28');
+  assert.equal('recurrenceRule' in quickActionOf({ ...monthly, recurrenceRule: 'FREQ=MONTHLY;BYMONTHDAY=-1' }, 'complete', '2026-01-31').patch, false);
+});
@@ -0,0 +1,91 @@
+import type { Contact, ContactPatch } from './contacts';
+import { addDays, formatDisplayDate } from './dates';
+import type { CompanyHoliday } from './holidays';
+import { describeRecurrence, formatRRule, nextOccurrence, recurrenceAnchorOf, recurrenceOf, withMonthDay } from './recurrence';
+import type { Occurrence, RecurrenceRule } from './recurrence';
+
+// 画面と Slack のボタンで共通の、連絡先を変更する操作
+
+// 期日の変更（期限切れの状態は解除する。元の期日は操作履歴に残る）
+export const reschedulePatch = (deadline: string): ContactPatch => ({
+  deadline,
+  originalDeadline: undefined,
+  isOverdue: false
+});
+
+export interface Completion {
+  patch: ContactPatch;
+  rule: RecurrenceRule | null;
+  next: Occurrence | null; // 繰り返しで自動設定した次回（終了条件に達していれば null）
+}
+
+// 完了にする変更
+// 繰り返しの連絡先は、完了を記録すると同時に次回の期日へ進める（未完了のまま completedAt だけ新しくする）
+// 終了条件（UNTIL・COUNT）に達していれば、通常の完了として扱う
+// 日を指定していない以前の毎月・毎年のルールは、現在の回の日を書き込んでから進める（lib/recurrence.ts の withMonthDay）
+export const completionOf = (
+  contact: Contact,
+  today: string,
+  companyHolidays: CompanyHoliday[] = [],
+  completedAt = new Date().toISOString()
+): Completion => {
+  const stored = recurrenceOf(contact);
+  const rule = stored && withMonthDay(stored, recurrenceAnchorOf(contact));
+  const next = rule && nextOccurrence(rule, recurrenceAnchorOf(contact), today, companyHolidays, {
+    completedCount: contact.occurrenceCount || 0,
+    pausedUntil: contact.recurrencePausedUntil
+  });
+
+  if (rule && next) {
+    return {
+      rule,
+      next,
+      patch: {
+        ...reschedulePatch(next.date),
+        status: 'pending',
+        completedAt,
+        ...(rule !== stored ? { recurrenceRule: formatRRule(rule) } : {}),
+        recurrenceAnchor: next.anchor,
+        recurrencePausedUntil: undefined,
+        occurrenceCount: (contact.occurrenceCount || 0) + 1
+      }
+    };
+  }
+  return { rule, next: null, patch: { status: 'completed', completedAt } };
+};
+
+// Slack のボタンから行える操作
+export type QuickAction = 'complete' | 'snooze_tomorrow' | 'snooze_week';
+
+export const QUICK_ACTIONS: { value: QuickAction; label: string }[] = [
+  { value: 'complete', label: '完了' },
+  { value: 'snooze_tomorrow', label: '明日へ' },
+  { value: 'snooze_week', label: '1週間後' },
+];
+
+export const isQuickAction = (value: string): value is QuickAction => QUICK_ACTIONS.some(a => a.value === value);
+
+// 操作の変更内容と、結果の説明（例：「明日（10/20(火)）に延期しました」）
+// companyHolidays はユーザーの company_holidays（サーバーからの操作でも読み込んで渡す）
+export const quickActionOf = (
+  contact: Contact,
+  action: QuickAction,
+  today: string,
+  companyHolidays: CompanyHoliday[] = []
+): { patch: ContactPatch; summary: string } => {
+  if (action === 'complete') {
+    const { patch, rule, next } = completionOf(contact, today, companyHolidays);
+    return {
+      patch,
+      summary: rule && next
+        ? `完了しました。次回は ${formatDisplayDate(next.date)}（${describeRecurrence(rule)}）です`
+        : '完了しました'
+    };
+  }
+
+  const deadline = addDays(today, action === 'snooze_tomorrow' ? 1 : 7);
+  return {
+    patch: { ...reschedulePatch(deadline), status: 'pending' }, // 完了日時は変えない
+    summary: `${formatDisplayDate(deadline)} に延期しました`
+  };
+};
@@ -0,0 +1,382 @@
+import { CONTACT_PAGE_SIZE, activitiesApi, contactsApi, fail, ok } from './supabase';
+import type { ApiResult, ContactPage, ContactQuery, DbContact } from './supabase';
+import { compareContacts, fromDbContact, matchesContactQuery, toDbContact, toDbPatch } from './contacts';
+import type { Contact, ContactPatch, NewContact } from './contacts';
+import { trashCutoff } from './trash';
+import { createdActivity, diffActivities, fromDbActivity } from './activity';
+import { rollOverdue } from './overdue';
+import { todayIn } from './dates';
+import { legacyRecurrenceRule } from './recurrence';
+import type { LegacyRecurrence } from './recurrence';
+import type { ActivityDraft, ContactActivity } from './activity';
+
+// 連絡先の保存先（LocalStorage / Supabase / メモリ）を共通の操作で扱うためのインターフェース
+export interface ContactRepository {
+  readonly kind: 'local' | 'supabase' | 'memory';
+  readonly remote: boolean; // サーバーに保存するか（オフライン時はアウトボックスに積む）
+
+  list(query?: ContactQuery): Promise<ApiResult<Contact[]>>;
+  // 条件に一致する連絡先を1ページ分取得（cursor は前のページの nextCursor）
+  listPage(query: ContactQuery, cursor?: string | null): Promise<ApiResult<ContactPage<Contact>>>;
+  create(contact: NewContact): Promise<ApiResult<Contact>>;
+  update(id: string, patch: ContactPatch, expectedUpdatedAt?: string): Promise<ApiResult<Contact>>;
+  delete(id: string): Promise<ApiResult<void>>; // ゴミ箱に移動
+  bulkCreate(contacts: NewContact[]): Promise<ApiResult<Contact[]>>;
+  bulkUpdate(ids: string[], patch: ContactPatch): Promise<ApiResult<Contact[]>>;
+  bulkDelete(ids: string[]): Promise<ApiResult<void>>; // ゴミ箱に移動
+  reorder(ids: string[]): Promise<ApiResult<void>>;
+
+  // ゴミ箱（削除が新しい順）。restore で元に戻し、purge で完全に削除する
+  listTrash(): Promise<ApiResult<Contact[]>>;
+  restore(ids: string[]): Promise<ApiResult<Contact[]>>;
+  purge(ids: string[]): Promise<ApiResult<void>>;
+
+  // 連絡先ごとの操作履歴（新しい順）
+  listActivity(contactId: string): Promise<ApiResult<ContactActivity[]>>;
+
+  // 初回読み込み前の準備（以前のデータの移行など）
+  prepare?(onProgress: (label: string, count: number) => void): Promise<ApiResult<{ migrated: number }>>;
+  // 画面の状態をまるごと保存（Undo/Redo の結果も保存できる保存先のみ）
+  saveSnapshot?(contacts: Contact[]): void;
+}
+
+const STORAGE_KEY = 'contacts';
+const LEGACY_STORAGE_KEY = 'agent-details'; // 旧キー名
+const ACTIVITY_STORAGE_KEY = 'contact-activities';
+
+// LocalStorage に保存された連絡先を読み込む（旧キー名もチェック）
+export const readLocalStorageContacts = (): Contact[] => {
+  if (typeof window === 'undefined') return [];
+  const stored = localStorage.getItem(STORAGE_KEY) || localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return [];
+  // 以前の形式の繰り返し設定（recurring など）は RRULE に変換する
+  return JSON.parse(stored).map(({ recurring, recurringDays, recurringWeekday, ...contact }: Contact & LegacyRecurrence) => ({
+    ...contact,
+    category: contact.category || 'customer',
+    recurrenceRule: contact.recurrenceRule || legacyRecurrenceRule({ recurring, recurringDays, recurringWeekday })
+  }));
+};
+
+const clearLocalStorageContacts = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+const generateId = () => `${Date.now()}${Math.random().toString(36).slice(2, 8)}`;
+
+// 操作履歴の保存先（配列の実装用）
+interface ActivityLog {
+  load: () => ContactActivity[];
+  save: (activities: ContactActivity[]) => void;
+}
+
+// 利用者のタイムゾーンでの今日（設定の変更に追従できるよう、関数で受け取る）
+export type TodayProvider = () => string;
+
+// 配列を保存先とする実装（LocalStorage とメモリで共通）
+// 操作履歴は、Supabase ではトリガーが記録する内容をここで同じように記録する
+const createArrayRepository = (
+  kind: 'local' | 'memory',
+  loadStored: () => Contact[],
+  save: (contacts: Contact[]) => void,
+  activityLog: ActivityLog,
+  today: TodayProvider
+): ContactRepository => {
+  const stamp = () => new Date().toISOString();
+
+  // 期限切れの繰り越し（Supabase では夜間ジョブが行う処理を、読み込み時に行う）
+  const load = () => {
+    const todayStr = today();
+    const stored = loadStored();
+    const rolled = stored.map(c => rollOverdue(c, todayStr));
+    if (rolled.some((c, i) => c !== stored[i])) save(rolled);
+    return rolled;
+  };
+
+  const record = (entries: { contactId: string; drafts: ActivityDraft[] }[]) => {
+    const now = stamp();
+    const added = entries.flatMap(({ contactId, drafts }) =>
+      drafts.map(draft => ({ ...draft, id: generateId(), contactId, actor: 'local', createdAt: now }))
+    );
+    if (added.length > 0) activityLog.save([...activityLog.load(), ...added]);
+  };
+
+  // 完全に削除した連絡先の履歴も消す（DB の ON DELETE CASCADE に相当）
+  const forgetActivity = (ids: string[]) => {
+    activityLog.save(activityLog.load().filter(a => !ids.includes(a.contactId)));
+  };
+
+  // 変更を保存し、差分を履歴に記録する
+  const saveChanges = (change: (contact: Contact) => Contact | null) => {
+    const entries: { contactId: string; drafts: ActivityDraft[] }[] = [];
+    const changed: Contact[] = [];
+    save(load().map(c => {
+      const next = change(c);
+      if (!next) return c;
+      entries.push({ contactId: c.id, drafts: diffActivities(c, next) });
+      changed.push(next);
+      return next;
+    }));
+    record(entries);
+    return changed;
+  };
+
+  const build = (contact: NewContact): Contact => {
+    const now = stamp();
+    return { ...contact, id: generateId(), createdAt: now, updatedAt: now };
+  };
+
+  // ゴミ箱の連絡先を除いた一覧
+  const active = () => load().filter(c => !c.deletedAt);
+
+  const select = (query: ContactQuery = {}) =>
+    active().filter(c => matchesContactQuery(c, query)).sort(compareContacts(query.sort));
+
+  const moveToTrash = (ids: string[]) => {
+    const now = stamp();
+    saveChanges(c => ids.includes(c.id) && !c.deletedAt ? { ...c, deletedAt: now, updatedAt: now } : null);
+  };
+
+  return {
+    kind,
+    remote: false,
+
+    async list(query) {
+      return ok(query ? select(query) : active());
+    },
+
+    // カーソル = 次のページの先頭位置
+    async listPage(query, cursor) {
+      const start = cursor ? Number(cursor) : 0;
+      const matched = select(query);
+      const end = start + CONTACT_PAGE_SIZE;
+      return ok({ items: matched.slice(start, end), nextCursor: end < matched.length ? String(end) : null });
+    },
+
+    async create(contact) {
+      const created = build(contact);
+      save([...load(), created]);
+      record([{ contactId: created.id, drafts: [createdActivity(created)] }]);
+      return ok(created);
+    },
+
+    async update(id, patch, expectedUpdatedAt) {
+      const contacts = load();
+      const current = contacts.find(c => c.id === id);
+      if (!current) return fail('not_found', 'Contact not found');
+      if (expectedUpdatedAt && current.updatedAt && current.updatedAt !== expectedUpdatedAt) {
+        return fail('conflict', 'Contact was modified after it was loaded');
+      }
+      const updated = { ...current, ...patch, updatedAt: stamp() };
+      save(contacts.map(c => c.id === id ? updated : c));
+      record([{ contactId: id, drafts: diffActivities(current, updated) }]);
+      return ok(updated);
+    },
+
+    async delete(id) {
+      moveToTrash([id]);
+      return ok(undefined);
+    },
+
+    async bulkCreate(newContacts) {
+      const created = newContacts.map(build);
+      save([...load(), ...created]);
+      record(created.map(c => ({ contactId: c.id, drafts: [createdActivity(c)] })));
+      return ok(created);
+    },
+
+    async bulkUpdate(ids, patch) {
+      const now = stamp();
+      return ok(saveChanges(c => ids.includes(c.id) ? { ...c, ...patch, updatedAt: now } : null));
+    },
+
+    async bulkDelete(ids) {
+      moveToTrash(ids);
+      return ok(undefined);
+    },
+
+    async reorder(ids) {
+      const contacts = load();
+      const position = (id: string) => {
+        const index = ids.indexOf(id);
+        return index === -1 ? ids.length : index;
+      };
+      save([...contacts]
+        .sort((a, b) => position(a.id) - position(b.id))
+        .map((c, i) => ({ ...c, order: i })));
+      return ok(undefined);
+    },
+
+    // 保持期間を過ぎたものは読み込み時に削除する（サーバーの定期ジョブに相当）
+    async listTrash() {
+      const cutoff = trashCutoff();
+      const contacts = load();
+      const kept = contacts.filter(c => !c.deletedAt || c.deletedAt >= cutoff);
+      if (kept.length !== contacts.length) {
+        save(kept);
+        forgetActivity(contacts.filter(c => !kept.includes(c)).map(c => c.id));
+      }
+      return ok(kept
+        .filter(c => c.deletedAt)
+        .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!)));
+    },
+
+    async restore(ids) {
+      const now = stamp();
+      return ok(saveChanges(c => ids.includes(c.id) && c.deletedAt ? { ...c, deletedAt: undefined, updatedAt: now } : null));
+    },
+
+    async purge(ids) {
+      const contacts = load();
+      const purged = contacts.filter(c => ids.includes(c.id) && c.deletedAt).map(c => c.id);
+      save(contacts.filter(c => !purged.includes(c.id)));
+      forgetActivity(purged);
+      return ok(undefined);
+    },
+
+    async listActivity(contactId) {
+      return ok(activityLog.load()
+        .filter(a => a.contactId === contactId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+    },
+
+    // 画面の一覧にはゴミ箱の連絡先が含まれないため、それらは残して保存する
+    // （Undo で削除前の状態に戻した場合は、画面の一覧にある方を正とする）
+    saveSnapshot(contacts) {
+      const ids = new Set(contacts.map(c => c.id));
+      save([...contacts, ...load().filter(c => c.deletedAt && !ids.has(c.id))]);
+    },
+  };
+};
+
+// LocalStorage（ログインなしモード）
+export const createLocalStorageRepository = (today: TodayProvider = todayIn): ContactRepository =>
+  createArrayRepository(
+    'local',
+    readLocalStorageContacts,
+    contacts => localStorage.setItem(STORAGE_KEY, JSON.stringify(contacts)),
+    {
+      load: () => JSON.parse(localStorage.getItem(ACTIVITY_STORAGE_KEY) || '[]'),
+      save: activities => localStorage.setItem(ACTIVITY_STORAGE_KEY, JSON.stringify(activities))
+    },
+    today
+  );
+
+// メモリ上（テスト・デモ用。リロードで消える）
+export const createInMemoryRepository = (seed: Contact[] = [], today: TodayProvider = todayIn): ContactRepository => {
+  let store = [...seed];
+  let activities: ContactActivity[] = [];
+  return createArrayRepository(
+    'memory',
+    () => [...store],
+    contacts => { store = [...contacts]; },
+    { load: () => [...activities], save: next => { activities = [...next]; } },
+    today
+  );
+};
+
+// Supabase（ログインユーザーのデータ）
+export const createSupabaseRepository = (userId: string): ContactRepository => {
+  const toContacts = (result: ApiResult<DbContact[]>): ApiResult<Contact[]> =>
+    result.ok ? ok(result.data.map(fromDbContact)) : result;
+
+  return {
+    kind: 'supabase',
+    remote: true,
+
+    async list(query) {
+      return toContacts(await contactsApi.getAll(userId, query));
+    },
+
+    async listPage(query, cursor) {
+      const result = await contactsApi.getPage(userId, query, cursor);
+      return result.ok
+        ? ok({ items: result.data.items.map(fromDbContact), nextCursor: result.data.nextCursor })
+        : result;
+    },
+
+    async create(contact) {
+      const result = await contactsApi.create(toDbContact(contact, userId));
+      return result.ok ? ok(fromDbContact(result.data)) : result;
+    },
+
+    async update(id, patch, expectedUpdatedAt) {
+      const result = await contactsApi.update(id, toDbPatch(patch), expectedUpdatedAt);
+      return result.ok ? ok(fromDbContact(result.data)) : result;
+    },
+
+    delete: id => contactsApi.delete(id),
+
+    async bulkCreate(contacts) {
+      return toContacts(await contactsApi.bulkCreate(contacts.map(c => toDbContact(c, userId))));
+    },
+
+    async bulkUpdate(ids, patch) {
+      return toContacts(await contactsApi.bulkUpdate(ids, toDbPatch(patch)));
+    },
+
+    bulkDelete: ids => contactsApi.bulkDelete(ids),
+
+    reorder: ids => contactsApi.reorder(ids),
+
+    async listTrash() {
+      return toContacts(await contactsApi.getTrashed(userId));
+    },
+
+    async restore(ids) {
+      return toContacts(await contactsApi.restore(ids));
+    },
+
+    purge: ids => contactsApi.purge(ids),
+
+    async listActivity(contactId) {
+      const result = await activitiesApi.listForContact(contactId);
+      return result.ok ? ok(result.data.map(fromDbActivity)) : result;
+    },
+
+    // 移行前のデータ（user_idがNULL）の紐付けと、LocalStorage からの自動マイグレーション
+    async prepare(onProgress) {
+      const userResult = await contactsApi.getAll(userId);
+      if (!userResult.ok) return userResult;
+      const legacyResult = await contactsApi.getAll(undefined); // user_idがNULLのデータ
+      const legacyContacts = legacyResult.ok ? legacyResult.data : [];
+
+      if (legacyContacts.length > 0) {
+        console.log('移行前のデータを発見。ユーザーに紐付けています...');
+        const legacyIds = legacyContacts.map(c => c.id).filter((id): id is string => !!id);
+        onProgress('以前のデータを紐付け', legacyIds.length);
+        // 一括更新は全件成功か全件失敗のため、失敗しても次回読み込み時に再試行できる
+        const linked = await contactsApi.bulkUpdate(legacyIds, { user_id: userId });
+        return linked.ok ? ok({ migrated: 0 }) : linked;
+      }
+
+      // LocalStorageにデータがあり、Supabaseが空の場合、自動マイグレーション
+      const localContacts = readLocalStorageContacts().filter(c => !c.deletedAt);
+      if (localContacts.length > 0 && userResult.data.length === 0) {
+        console.log('自動マイグレーション: LocalStorage → Supabase');
+        onProgress('LocalStorageのデータを移行', localContacts.length);
+        const migrated = await contactsApi.bulkCreate(localContacts.map(c => toDbContact(c, userId)));
+        // 失敗時は1件も挿入されていないので、LocalStorageはそのまま残して再試行できるようにする
+        if (!migrated.ok) return migrated;
+
+        // マイグレーション完了後、LocalStorageをクリア
+        clearLocalStorageContacts();
+        return ok({ migrated: migrated.data.length });
+      }
+
+      return ok({ migrated: 0 });
+    },
+  };
+};
+
+// 環境に応じた保存先を選ぶ（NEXT_PUBLIC_CONTACT_STORE=memory でメモリ上のデモモード）
+// 期限切れの繰り越しは、Supabase では夜間ジョブが user_settings のタイムゾーンで行い、それ以外は today で行う
+export const createContactRepository = (
+  useDatabase: boolean,
+  userId?: string,
+  today: TodayProvider = todayIn
+): ContactRepository | null => {
+  if (process.env.NEXT_PUBLIC_CONTACT_STORE === 'memory') return createInMemoryRepository([], today);
+  if (!useDatabase) return createLocalStorageRepository(today);
+  return userId ? createSupabaseRepository(userId) : null;
+};
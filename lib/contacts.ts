@@ -0,0 +1,162 @@
+import { toSearchTerms } from './supabase';
+import type { ContactQuery, ContactSort, DbContact } from './supabase';
+import { formatTime } from './dates';
+
+export type ContactStatus = 'pending' | 'completed';
+export type ContactCategory = string;
+
+export type ContactPriority = 'A' | 'B' | 'C';
+
+export interface Contact {
+  id: string;
+  name: string;
+  purpose: string;
+  deadline: string;
+  dueTime?: string; // 期日の時刻（HH:MM。利用者のタイムゾーン）。なければ終日
+  reminderOffsets?: number[]; // 期日の時刻の何分前に通知するか（lib/reminders.ts）
+  reminderRules?: string[]; // 期日の◯日前・当日・期限切れの通知のルール（lib/reminders.ts）。なければカテゴリの既定
+  status: ContactStatus;
+  category: ContactCategory;
+  priority?: ContactPriority; // 優先度 A > B > C
+  customCategory?: string; // カスタムカテゴリー名
+  createdAt: string;
+  completedAt?: string;
+  updatedAt?: string; // サーバー側の最終更新日時（競合検出用）
+  recurrenceRule?: string; // 繰り返しのルール（RRULE。lib/recurrence.ts）
+  recurrenceAnchor?: string; // 現在の回のルール上の本来の日付（この回だけ期日を変えても次の回はここから数える）
+  recurrencePausedUntil?: string; // 繰り返しの一時停止（この日より前の回は飛ばす）
+  occurrenceCount?: number; // 繰り返しで完了した回数（COUNT の判定に使う）
+  order?: number; // 表示順序
+  isOverdue?: boolean; // 期限切れフラグ（originalDeadline があれば true）
+  originalDeadline?: string; // 元の期日（期限切れの場合）
+  postponeCount?: number; // 期限切れで繰り越された回数
+  deletedAt?: string; // ゴミ箱に移動した日時
+}
+
+// 新規作成時の入力（ID・日時は保存先で付与）
+export type NewContact = Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>;
+
+// 更新内容
+export type ContactPatch = Partial<Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>>;
+
+// 実際の期日（期限切れで本日に繰り越している場合は元の期日）。並び替えにも使う
+export const actualDeadline = (contact: Contact) =>
+  contact.isOverdue && contact.originalDeadline ? contact.originalDeadline : contact.deadline;
+
+// 同じ期日の中の並び順（時刻のないものは終日として最後。DB の sort_due_time と同じ）
+export const sortDueTime = (contact: Contact) => contact.dueTime || '24:00';
+
+const PRIORITY_RANK: Record<ContactPriority, number> = { A: 1, B: 2, C: 3 };
+
+// 標準のカテゴリの表示名（それ以外はカスタムカテゴリ名をそのまま表示する）
+export const STANDARD_CATEGORY_LABELS: Record<string, string> = {
+  advisor: '顧問',
+  agency: '代理店',
+  customer: '顧客',
+  other: 'その他',
+};
+
+export const categoryLabel = (category: string = 'customer'): string =>
+  STANDARD_CATEGORY_LABELS[category] ?? category;
+
+// 絞り込み条件に一致するか（サーバー側の条件と同じ判定）
+export const matchesContactQuery = (contact: Contact, query: ContactQuery): boolean => {
+  if (query.category && (contact.category || 'customer') !== query.category) return false;
+  if (query.status && contact.status !== query.status) return false;
+  if (query.priority && (contact.priority || 'C') !== query.priority) return false;
+  if (query.deadlineFrom && actualDeadline(contact) < query.deadlineFrom) return false;
+  if (query.deadlineTo && actualDeadline(contact) > query.deadlineTo) return false;
+
+  const terms = toSearchTerms(query.search);
+  if (terms.length === 0) return true;
+  const text = `${contact.name} ${contact.purpose}`.normalize('NFKC').toLowerCase();
+  return terms.every(term => text.includes(term));
+};
+
+// 並び順の比較関数（サーバー側の並び順と同じ。最後は id で一意に決める）
+export const compareContacts = (sort: ContactSort = 'deadline') => (a: Contact, b: Contact): number => {
+  const byId = a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  const byDeadline = actualDeadline(a).localeCompare(actualDeadline(b)) || sortDueTime(a).localeCompare(sortDueTime(b));
+  switch (sort) {
+    case 'priority':
+      return (PRIORITY_RANK[a.priority || 'C'] - PRIORITY_RANK[b.priority || 'C']) || byDeadline || byId;
+    case 'created':
+      return b.createdAt.localeCompare(a.createdAt) || -byId;
+    case 'manual':
+      return ((a.order ?? 0) - (b.order ?? 0)) || byId;
+    default:
+      return byDeadline || byId;
+  }
+};
+
+// DBの行を画面用の Contact に変換
+export const fromDbContact = (dbContact: DbContact): Contact => ({
+  id: dbContact.id || '',
+  name: dbContact.name,
+  purpose: dbContact.purpose,
+  deadline: dbContact.deadline,
+  dueTime: dbContact.due_time ? formatTime(dbContact.due_time) : undefined,
+  reminderOffsets: dbContact.reminder_offsets || [],
+  reminderRules: dbContact.reminder_rules ?? undefined,
+  status: dbContact.status,
+  category: dbContact.category || 'customer',
+  priority: dbContact.priority || 'C',
+  createdAt: dbContact.created_at || '',
+  completedAt: dbContact.completed_at || undefined,
+  updatedAt: dbContact.updated_at,
+  recurrenceRule: dbContact.recurrence_rule || undefined,
+  recurrenceAnchor: dbContact.recurrence_anchor || undefined,
+  recurrencePausedUntil: dbContact.recurrence_paused_until || undefined,
+  occurrenceCount: dbContact.occurrence_count || 0,
+  order: dbContact.order,
+  deletedAt: dbContact.deleted_at || undefined,
+  originalDeadline: dbContact.original_deadline || undefined,
+  isOverdue: !!dbContact.original_deadline,
+  postponeCount: dbContact.postpone_count || 0
+});
+
+// 新規の Contact をDBの行に変換
+export const toDbContact = (contact: NewContact, userId?: string): Omit<DbContact, 'id' | 'created_at'> => ({
+  name: contact.name,
+  purpose: contact.purpose,
+  deadline: contact.deadline,
+  due_time: contact.dueTime || null,
+  reminder_offsets: contact.reminderOffsets || [],
+  reminder_rules: contact.reminderRules ?? null,
+  status: contact.status || 'pending',
+  category: contact.category || 'customer',
+  priority: contact.priority || 'C',
+  recurrence_rule: contact.recurrenceRule || null,
+  recurrence_anchor: contact.recurrenceAnchor || null,
+  recurrence_paused_until: contact.recurrencePausedUntil || null,
+  occurrence_count: contact.occurrenceCount || 0,
+  order: contact.order || 0,
+  completed_at: contact.completedAt || null,
+  original_deadline: contact.originalDeadline || null,
+  postpone_count: contact.postponeCount || 0,
+  user_id: userId
+});
+
+// 更新内容をDBの列に変換（isOverdue は originalDeadline から決まるため保存しない）
+export const toDbPatch = (patch: ContactPatch): Partial<DbContact> => {
+  const dbPatch: Partial<DbContact> = {};
+  if ('name' in patch) dbPatch.name = patch.name;
+  if ('purpose' in patch) dbPatch.purpose = patch.purpose;
+  if ('deadline' in patch) dbPatch.deadline = patch.deadline;
+  if ('dueTime' in patch) dbPatch.due_time = patch.dueTime || null;
+  if ('reminderOffsets' in patch) dbPatch.reminder_offsets = patch.reminderOffsets || [];
+  // カテゴリの既定に戻すときは NULL を送る
+  if ('reminderRules' in patch) dbPatch.reminder_rules = patch.reminderRules ?? null;
+  if ('status' in patch) dbPatch.status = patch.status;
+  if ('category' in patch) dbPatch.category = patch.category;
+  if ('priority' in patch) dbPatch.priority = patch.priority;
+  // 繰り返しの解除は NULL を送る（undefined のままだと送信されず解除されない）
+  if ('recurrenceRule' in patch) dbPatch.recurrence_rule = patch.recurrenceRule || null;
+  if ('recurrenceAnchor' in patch) dbPatch.recurrence_anchor = patch.recurrenceAnchor || null;
+  if ('recurrencePausedUntil' in patch) dbPatch.recurrence_paused_until = patch.recurrencePausedUntil || null;
+  if ('occurrenceCount' in patch) dbPatch.occurrence_count = patch.occurrenceCount || 0;
+  if ('order' in patch) dbPatch.order = patch.order;
+  if ('completedAt' in patch) dbPatch.completed_at = patch.completedAt || null;
+  if ('originalDeadline' in patch) dbPatch.original_deadline = patch.originalDeadline || null;
+  return dbPatch;
+};
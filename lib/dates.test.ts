@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { timeIn, todayIn, zonedDateTime } from './dates';
+
+// 日付が変わるのは利用者のタイムゾーンの0時（UTC の0時ではない）
+test('todayIn は日本時間の0時で日付が変わる', () => {
+  assert.equal(todayIn('Asia/Tokyo', new Date('2026-10-18T14:59:59Z')), '2026-10-18');
+  assert.equal(todayIn('Asia/Tokyo', new Date('2026-10-18T15:00:00Z')), '2026-10-19');
+  assert.equal(timeIn('Asia/Tokyo', new Date('2026-10-18T15:00:00Z')), '00:00');
+});
+
+test('todayIn はニューヨークの0時で日付が変わる（夏時間の間は UTC-4）', () => {
+  assert.equal(todayIn('America/New_York', new Date('2026-07-02T03:59:59Z')), '2026-07-01');
+  assert.equal(todayIn('America/New_York', new Date('2026-07-02T04:00:00Z')), '2026-07-02');
+});
+
+test('todayIn は不正なタイムゾーンを日本時間として扱う', () => {
+  assert.equal(todayIn('Not/AZone', new Date('2026-10-18T15:00:00Z')), '2026-10-19');
+});
+
+test('zonedDateTime はタイムゾーンの日時を時点にする', () => {
+  assert.equal(zonedDateTime('2026-10-19', '09:00', 'Asia/Tokyo').toISOString(), '2026-10-19T00:00:00.000Z');
+  assert.equal(zonedDateTime('2026-10-19', '00:00', 'Asia/Tokyo').toISOString(), '2026-10-18T15:00:00.000Z');
+  assert.equal(zonedDateTime('2026-01-15', '09:00', 'America/New_York').toISOString(), '2026-01-15T14:00:00.000Z');
+});
+
+// 2026-03-08 02:00 EST に 03:00 EDT へ進む（02:00〜02:59 は存在しない）
+test('zonedDateTime は夏時間の開始で存在しない時刻を開始後の時刻にする', () => {
+  assert.equal(zonedDateTime('2026-03-08', '01:59', 'America/New_York').toISOString(), '2026-03-08T06:59:00.000Z');
+  assert.equal(zonedDateTime('2026-03-08', '02:30', 'America/New_York').toISOString(), '2026-03-08T07:30:00.000Z');
+  assert.equal(zonedDateTime('2026-03-08', '03:00', 'America/New_York').toISOString(), '2026-03-08T07:00:00.000Z');
+});
+
+// 2026-11-01 02:00 EDT に 01:00 EST へ戻る（01:00〜01:59 は2回ある）
+test('zonedDateTime は夏時間の終了で2回ある時刻を1回目にする', () => {
+  assert.equal(zonedDateTime('2026-11-01', '01:30', 'America/New_York').toISOString(), '2026-11-01T05:30:00.000Z');
+  assert.equal(zonedDateTime('2026-11-01', '02:00', 'America/New_York').toISOString(), '2026-11-01T07:00:00.000Z');
+  assert.equal(todayIn('America/New_York', new Date('2026-11-01T05:30:00Z')), '2026-11-01');
+  assert.equal(timeIn('America/New_York', new Date('2026-11-01T06:30:00Z')), '01:30');
+});
+
+test('todayIn は夏時間の切り替えの日も0時で日付が変わる', () => {
+  assert.equal(todayIn('America/New_York', new Date('2026-03-08T04:59:59Z')), '2026-03-07');
+  assert.equal(todayIn('America/New_York', new Date('2026-03-08T05:00:00Z')), '2026-03-08');
+  assert.equal(todayIn('America/New_York', new Date('2026-11-02T04:59:59Z')), '2026-11-01');
+  assert.equal(todayIn('America/New_York', new Date('2026-11-02T05:00:00Z')), '2026-11-02');
+});
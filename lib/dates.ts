@@ -0,0 +1,111 @@
+// 日付の扱い（画面・夜間ジョブ共通）
+// 期日は時刻を持たない日付（YYYY-MM-DD）として扱い、計算はタイムゾーンの影響を受けないよう UTC で行う
+// 「今日」だけは利用者のタイムゾーン（user_settings.time_zone）で決める
+export const DEFAULT_TIME_ZONE = 'Asia/Tokyo';
+
+// 設定画面で選べるタイムゾーン
+export const TIME_ZONE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'Asia/Tokyo', label: '日本（東京）' },
+  { value: 'Asia/Seoul', label: '韓国（ソウル）' },
+  { value: 'Asia/Shanghai', label: '中国（上海）' },
+  { value: 'Asia/Singapore', label: 'シンガポール' },
+  { value: 'Asia/Bangkok', label: 'タイ（バンコク）' },
+  { value: 'Australia/Sydney', label: 'オーストラリア（シドニー）' },
+  { value: 'Europe/London', label: 'イギリス（ロンドン）' },
+  { value: 'Europe/Paris', label: 'フランス（パリ）' },
+  { value: 'America/New_York', label: 'アメリカ東部（ニューヨーク）' },
+  { value: 'America/Los_Angeles', label: 'アメリカ西部（ロサンゼルス）' },
+  { value: 'UTC', label: 'UTC' },
+];
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-CA', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// タイムゾーンでの今日（YYYY-MM-DD）。不正なタイムゾーンは既定（日本時間）にする
+export const todayIn = (timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): string =>
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+
+// タイムゾーンでの現在の時刻（HH:MM）
+export const timeIn = (timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): string =>
+  new Intl.DateTimeFormat('en-GB', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE,
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(now);
+
+export const parseDate = (date: string): Date => new Date(`${date}T00:00:00Z`);
+export const formatDate = (date: Date): string => date.toISOString().split('T')[0];
+
+export const addDays = (date: string, days: number): string => {
+  const d = parseDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return formatDate(d);
+};
+
+export const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate(); // month は 0 始まり
+
+// 月末を超える場合はその月の末日にする（1/31 の1か月後は 2/28）
+export const addMonths = (date: string, months: number): string => {
+  const d = parseDate(date);
+  const year = d.getUTCFullYear();
+  const month = d.getUTCMonth() + months;
+  const last = daysInMonth(year, month);
+  return formatDate(new Date(Date.UTC(year, month, Math.min(d.getUTCDate(), last))));
+};
+
+// 曜日（0-6 = 日曜-土曜）
+export const weekdayOf = (date: string): number => parseDate(date).getUTCDay();
+
+// 表示用（例：「10/19(月)」）。日付だけを表示するため、表示側のタイムゾーンでずれないよう UTC で整形する
+export const formatDisplayDate = (
+  date: string,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'numeric', day: 'numeric' }
+): string => parseDate(date).toLocaleDateString('ja-JP', { ...options, timeZone: 'UTC' });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// タイムゾーンの UTC からのずれ（ミリ秒）。instant の時点の値（夏時間を含む）
+const offsetAt = (instant: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+// タイムゾーンでの日付と時刻（HH:MM）が表す時点
+// 夏時間の開始で存在しない時刻は開始後の時刻に、終了で2回ある時刻は1回目にする
+export const zonedDateTime = (date: string, time: string, timeZone: string = DEFAULT_TIME_ZONE): Date => {
+  const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+  const [hour, minute] = time.split(':').map(Number);
+  const d = parseDate(date);
+  const local = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), hour, minute);
+  // 前日・翌日のずれで求めた候補のうち、実際にその日時になるもの（切り替えの前後で最大2つ）
+  const candidates = [local - DAY_MS, local + DAY_MS].map(t => local - offsetAt(new Date(t), zone));
+  const valid = candidates.filter(t => local - offsetAt(new Date(t), zone) === t);
+  return new Date(valid.length > 0 ? Math.min(...valid) : Math.max(...candidates));
+};
+
+// 時刻の表示（DB の TIME 型は HH:MM:SS で返るため HH:MM にそろえる）
+export const formatTime = (time: string): string => time.slice(0, 5);
@@ -0,0 +1,261 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { actualDeadline, categoryLabel, compareContacts, fromDbContact } from './contacts';
+import type { Contact, ContactPriority } from './contacts';
+import type { DbContact } from './supabase';
+import { addDays, formatDisplayDate } from './dates';
+import { QUICK_ACTIONS } from './contactActions';
+
+// 毎朝のまとめ（Slack など）に含める項目
+export type DigestSection = 'overdue' | 'today' | 'upcoming' | 'categories';
+
+export const DIGEST_SECTIONS: { value: DigestSection; label: string }[] = [
+  { value: 'overdue', label: '期限切れ' },
+  { value: 'today', label: '本日の期日（優先度別）' },
+  { value: 'upcoming', label: '今後7日間の予定' },
+  { value: 'categories', label: 'カテゴリ別の件数' },
+];
+
+export const DEFAULT_DIGEST_SECTIONS: DigestSection[] = DIGEST_SECTIONS.map(s => s.value);
+
+export const UPCOMING_DAYS = 7;
+
+// 1項目に並べる連絡先の上限（Slack の1ブロックの文字数制限を超えないようにする）
+const MAX_ITEMS_PER_SECTION = 10;
+
+// ボタンを付ける連絡先の上限（1件で2ブロック使う。1メッセージ50ブロックまで）
+const MAX_ITEMS_WITH_ACTIONS = 12;
+
+const PRIORITIES: ContactPriority[] = ['A', 'B', 'C'];
+const PRIORITY_LABELS: Record<ContactPriority, string> = { A: '🔴 優先度A', B: '🟡 優先度B', C: '🟢 優先度C' };
+
+const formatDay = (date: string) => formatDisplayDate(date, { month: 'numeric', day: 'numeric', weekday: 'short' });
+
+export interface Digest {
+  date: string; // 利用者のタイムゾーンでの今日
+  sections: DigestSection[];
+  overdue: Contact[];
+  today: Record<ContactPriority, Contact[]>;
+  upcoming: Contact[]; // 明日から UPCOMING_DAYS 日後まで
+  categories: { category: string; count: number }[]; // 未完了の件数（多い順）
+}
+
+export const normalizeDigestSections = (sections?: string[] | null): DigestSection[] =>
+  sections ? DEFAULT_DIGEST_SECTIONS.filter(s => sections.includes(s)) : DEFAULT_DIGEST_SECTIONS;
+
+// 未完了の連絡先からまとめを作る（期限切れは夜間ジョブが本日に繰り越していても期限切れとして扱う）
+export const buildDigest = (contacts: Contact[], today: string, sections: DigestSection[] = DEFAULT_DIGEST_SECTIONS): Digest => {
+  const pending = contacts.filter(c => c.status === 'pending' && !c.deletedAt).sort(compareContacts('deadline'));
+  const isOverdue = (c: Contact) => c.isOverdue || c.deadline < today;
+  const dueToday = pending.filter(c => c.deadline === today && !isOverdue(c));
+  const lastUpcoming = addDays(today, UPCOMING_DAYS);
+
+  const counts = new Map<string, number>();
+  pending.forEach(c => counts.set(c.category || 'customer', (counts.get(c.category || 'customer') || 0) + 1));
+
+  return {
+    date: today,
+    sections,
+    overdue: pending.filter(isOverdue),
+    today: Object.fromEntries(PRIORITIES.map(p => [p, dueToday.filter(c => (c.priority || 'C') === p)])) as Record<ContactPriority, Contact[]>,
+    upcoming: pending.filter(c => c.deadline > today && c.deadline <= lastUpcoming),
+    categories: [...counts].map(([category, count]) => ({ category, count })).sort((a, b) => b.count - a.count),
+  };
+};
+
+// 送る内容があるか（選んだ項目がすべて空なら送らない）
+export const isDigestEmpty = (digest: Digest): boolean =>
+  digest.sections.every(section => {
+    switch (section) {
+      case 'overdue': return digest.overdue.length === 0;
+      case 'today': return PRIORITIES.every(p => digest.today[p].length === 0);
+      case 'upcoming': return digest.upcoming.length === 0;
+      case 'categories': return digest.categories.length === 0;
+    }
+  });
+
+// まとめに載る連絡先の件数（選んだ項目のみ。重複は数えない）
+export const digestContactCount = (digest: Digest): number => {
+  const ids = new Set<string>();
+  digest.sections.forEach(section => {
+    if (section === 'overdue') digest.overdue.forEach(c => ids.add(c.id));
+    if (section === 'today') PRIORITIES.forEach(p => digest.today[p].forEach(c => ids.add(c.id)));
+    if (section === 'upcoming') digest.upcoming.forEach(c => ids.add(c.id));
+  });
+  return ids.size;
+};
+
+// ユーザーの未完了の連絡先を読み込む（定期ジョブ・プレビューで共通。client は service role か本人のセッション）
+export async function loadDigestContacts(client: SupabaseClient, userId: string): Promise<{ contacts: Contact[]; error?: string }> {
+  const { data, error } = await client
+    .from('contacts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .is('deleted_at', null);
+
+  if (error) return { contacts: [], error: error.message };
+  return { contacts: ((data || []) as DbContact[]).map(fromDbContact) };
+}
+
+// まとめの見出しと、通知の本文（通知・プレビューに出る一文）
+export const digestTitle = (digest: Digest) => `📅 ${formatDay(digest.date)} の期日`;
+
+export const digestSummary = (digest: Digest) => {
+  const todayCount = PRIORITIES.reduce((sum, p) => sum + digest.today[p].length, 0);
+  return `📅 ${formatDay(digest.date)}のまとめ：本日${todayCount}件・期限切れ${digest.overdue.length}件`;
+};
+
+// まとめの連絡先の一覧（Slack 以外のチャット・メールで共通。空の一覧は除く）
+export interface DigestList {
+  title: string;
+  contacts: Contact[];
+  withDate: boolean; // 期日の日付を添えるか（今後7日間のみ）
+}
+
+export const digestListsOf = (digest: Digest): DigestList[] => digest.sections.flatMap((section): DigestList[] => {
+  switch (section) {
+    case 'overdue':
+      return [{ title: '⚠️ 期限切れ', contacts: digest.overdue, withDate: false }];
+    case 'today':
+      return PRIORITIES.map(p => ({ title: `本日 ${PRIORITY_LABELS[p]}`, contacts: digest.today[p], withDate: false }));
+    case 'upcoming':
+      return [{ title: `🗓️ 今後${UPCOMING_DAYS}日間`, contacts: digest.upcoming, withDate: true }];
+    case 'categories':
+      return [];
+  }
+}).filter(list => list.contacts.length > 0);
+
+// カテゴリ別の件数（項目を選んでいなければ空）
+export const digestCategoriesOf = (digest: Digest): Digest['categories'] =>
+  digest.sections.includes('categories') ? digest.categories : [];
+
+// 1件分の補足（日付・時刻・期限切れの元の期日）
+export const contactDetail = (contact: Contact, withDate: boolean) => [
+  withDate ? formatDay(contact.deadline) : '',
+  contact.dueTime || '',
+  contact.isOverdue ? `元の期日 ${formatDay(actualDeadline(contact))}${contact.postponeCount ? `・遅延${contact.postponeCount}回` : ''}` : '',
+].filter(Boolean).join(' / ');
+
+// Slack の Block Kit（https://api.slack.com/block-kit）
+type SlackText = { type: 'mrkdwn' | 'plain_text'; text: string };
+type SlackButton = { type: 'button'; text: SlackText; action_id: string; url?: string; value?: string; style?: 'primary' | 'danger' };
+export type SlackBlock =
+  | { type: 'header'; text: SlackText }
+  | { type: 'section'; text?: SlackText; fields?: SlackText[] }
+  | { type: 'context'; elements: SlackText[] }
+  | { type: 'divider' }
+  | { type: 'actions'; block_id?: string; elements: SlackButton[] };
+
+export interface SlackMessage {
+  text: string; // 通知・Block Kit 非対応の表示用
+  blocks: SlackBlock[];
+}
+
+// mrkdwn の特殊文字をエスケープ
+export const escapeSlack = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const contactUrl = (appUrl: string, contactId: string) => `${appUrl}/?contact=${encodeURIComponent(contactId)}`;
+
+// 1件分の行（例：「• <URL|田中様> 15:00 見積送付」）
+const contactLine = (contact: Contact, appUrl: string, withDate: boolean) => {
+  const when = [withDate ? formatDay(contact.deadline) : '', contact.dueTime || ''].filter(Boolean).join(' ');
+  const overdue = contact.isOverdue
+    ? `（元の期日 ${formatDay(actualDeadline(contact))}${contact.postponeCount ? `・遅延${contact.postponeCount}回` : ''}）`
+    : '';
+  return `• <${contactUrl(appUrl, contact.id)}|${escapeSlack(contact.name)}>${when ? ` ${when}` : ''} ${escapeSlack(contact.purpose)}${overdue}`;
+};
+
+// 完了・延期のボタン（押すと /api/slack/interactions に action_id と連絡先の ID が届く）
+const actionBlock = (contact: Contact): SlackBlock => ({
+  type: 'actions',
+  block_id: `contact:${contact.id}`,
+  elements: QUICK_ACTIONS.map(({ value, label }) => ({
+    type: 'button',
+    text: { type: 'plain_text', text: label },
+    action_id: value,
+    value: contact.id,
+    ...(value === 'complete' ? { style: 'primary' as const } : {}),
+  })),
+});
+
+// actionBudget は残りのボタンを付けられる件数（項目をまたいで減らしていく）
+const listBlocks = (
+  title: string,
+  contacts: Contact[],
+  appUrl: string,
+  withDate: boolean,
+  actionBudget: { remaining: number }
+): SlackBlock[] => {
+  if (contacts.length === 0) return [];
+  const shown = contacts.slice(0, MAX_ITEMS_PER_SECTION);
+  const withActions = shown.slice(0, actionBudget.remaining);
+  actionBudget.remaining -= withActions.length;
+
+  const heading = `*${title}* ${contacts.length}件`;
+  const lines = shown.slice(withActions.length).map(c => contactLine(c, appUrl, withDate));
+  const rest = contacts.length - shown.length;
+  if (rest > 0) lines.push(`ほか${rest}件`);
+
+  if (withActions.length === 0) {
+    return [{ type: 'section', text: { type: 'mrkdwn', text: [heading, ...lines].join('\n') } }];
+  }
+  return [
+    { type: 'section', text: { type: 'mrkdwn', text: heading } },
+    ...withActions.flatMap((c): SlackBlock[] => [
+      { type: 'section', text: { type: 'mrkdwn', text: contactLine(c, appUrl, withDate) } },
+      actionBlock(c),
+    ]),
+    ...(lines.length > 0 ? [{ type: 'section' as const, text: { type: 'mrkdwn' as const, text: lines.join('\n') } }] : []),
+  ];
+};
+
+const categoryBlocks = (categories: Digest['categories']): SlackBlock[] => {
+  if (categories.length === 0) return [];
+  return [
+    { type: 'section', text: { type: 'mrkdwn', text: '*📊 カテゴリ別の未完了*' } },
+    {
+      type: 'section',
+      fields: categories.slice(0, MAX_ITEMS_PER_SECTION).map(({ category, count }) => ({
+        type: 'mrkdwn',
+        text: `*${escapeSlack(categoryLabel(category))}*\n${count}件`,
+      })),
+    },
+  ];
+};
+
+export interface SlackDigestOptions {
+  appUrl: string; // アプリの URL（各連絡先とアプリへのリンクに使う）
+  actions?: boolean; // 完了・延期のボタンを付けるか（Slack アプリの Interactivity を設定している場合のみ）
+  note?: string; // 見出しの下に添える一文（ボタンを押した結果など）
+}
+
+// まとめを Slack の Block Kit にする
+export const renderSlackDigest = (digest: Digest, { appUrl, actions = false, note }: SlackDigestOptions): SlackMessage => {
+  const actionBudget = { remaining: actions ? MAX_ITEMS_WITH_ACTIONS : 0 };
+  const sectionBlocks: SlackBlock[][] = digest.sections.map(section => {
+    switch (section) {
+      case 'overdue':
+        return listBlocks('⚠️ 期限切れ', digest.overdue, appUrl, false, actionBudget);
+      case 'today':
+        return PRIORITIES.flatMap(p => listBlocks(`本日 ${PRIORITY_LABELS[p]}`, digest.today[p], appUrl, false, actionBudget));
+      case 'upcoming':
+        return listBlocks(`🗓️ 今後${UPCOMING_DAYS}日間`, digest.upcoming, appUrl, true, actionBudget);
+      case 'categories':
+        return categoryBlocks(digest.categories);
+    }
+  }).filter(blocks => blocks.length > 0);
+
+  return {
+    text: digestSummary(digest),
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: digestTitle(digest) } },
+      ...(note ? [{ type: 'context' as const, elements: [{ type: 'mrkdwn' as const, text: note }] }] : []),
+      ...sectionBlocks.flatMap((blocks, i) => i === 0 ? blocks : [{ type: 'divider' as const }, ...blocks]),
+      {
+        type: 'actions',
+        elements: [{ type: 'button', text: { type: 'plain_text', text: 'アプリを開く' }, url: appUrl, action_id: 'open_app', style: 'primary' }],
+      },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: '通知の設定はアプリの「⚙️ 通知設定」から変更できます' }] },
+    ],
+  };
+};
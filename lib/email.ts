@@ -0,0 +1,160 @@
+import nodemailer from 'nodemailer';
+import { categoryLabel } from './contacts';
+import type { Contact, ContactPriority } from './contacts';
+import { formatDisplayDate } from './dates';
+import { contactDetail, contactUrl, digestListsOf } from './digest';
+import type { Digest, DigestSection } from './digest';
+import { describeReminder } from './reminders';
+import type { Reminder } from './reminders';
+
+// 毎朝のまとめと期日の通知のメール（サーバー専用。SMTP の設定は環境変数から読む）
+//   SMTP_HOST・SMTP_PORT（既定 587）・SMTP_SECURE（465 番などで最初から TLS なら true）
+//   SMTP_USER・SMTP_PASS（認証がなければ省略）・MAIL_FROM（差出人）
+
+// メールのまとめに含める項目（カテゴリ別の件数は含めない）
+export const EMAIL_DIGEST_SECTIONS: DigestSection[] = ['overdue', 'today', 'upcoming'];
+
+export const isMailConfigured = (): boolean => !!process.env.SMTP_HOST && !!process.env.MAIL_FROM;
+
+export const createMailer = () => {
+  const port = Number(process.env.SMTP_PORT || 587);
+  return nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' } : undefined,
+  });
+};
+
+// 配信停止のリンク（ログインなしで開ける。トークンは notification_settings.email_unsubscribe_token）
+export const unsubscribeUrl = (appUrl: string, token: string) =>
+  `${appUrl}/api/email/unsubscribe?token=${encodeURIComponent(token)}`;
+
+// 確認メールのリンク（ログインなしで開ける。トークンは notification_settings.email_verification_token）
+export const confirmEmailUrl = (appUrl: string, token: string) =>
+  `${appUrl}/api/email/confirm?token=${encodeURIComponent(token)}`;
+
+// 確認のリンクの有効期限と、確認メールを再送できるまでの間隔
+export const EMAIL_VERIFICATION_TTL_HOURS = 24;
+export const EMAIL_VERIFICATION_INTERVAL_SECONDS = 60;
+
+export interface EmailMessage {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const PRIORITIES: ContactPriority[] = ['A', 'B', 'C'];
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDay = (date: string) => formatDisplayDate(date, { month: 'numeric', day: 'numeric', weekday: 'short' });
+
+// まとめをメール（HTML とテキスト）にする
+export const renderEmailDigest = (
+  digest: Digest,
+  { appUrl, unsubscribeUrl: unsubscribe }: { appUrl: string; unsubscribeUrl: string }
+): EmailMessage => {
+  const sections = digestListsOf(digest);
+  const todayCount = PRIORITIES.reduce((sum, p) => sum + digest.today[p].length, 0);
+  const title = `${formatDay(digest.date)} の期日`;
+  const subject = `📅 ${title}：本日${todayCount}件・期限切れ${digest.overdue.length}件`;
+
+  const text = [
+    title,
+    '',
+    ...sections.flatMap(section => [
+      `■ ${section.title}（${section.contacts.length}件）`,
+      ...section.contacts.map(c => {
+        const detail = contactDetail(c, section.withDate);
+        return `・${c.name} ${c.purpose}${detail ? `（${detail}）` : ''} [${categoryLabel(c.category)}]\n  ${contactUrl(appUrl, c.id)}`;
+      }),
+      '',
+    ]),
+    `アプリを開く: ${appUrl}`,
+    `配信を停止する: ${unsubscribe}`,
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html lang="ja">
+<body style="margin:0;padding:24px;background:#f1f5f9;font-family:sans-serif;color:#1e293b;">
+  <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:12px;padding:24px;">
+    <h1 style="font-size:20px;margin:0 0 16px;">📅 ${escapeHtml(title)}</h1>
+${sections.map(section => `    <h2 style="font-size:15px;margin:20px 0 8px;border-bottom:1px solid #e2e8f0;padding-bottom:4px;">${escapeHtml(section.title)}（${section.contacts.length}件）</h2>
+    <ul style="margin:0;padding-left:20px;">
+${section.contacts.map(c => {
+    const detail = contactDetail(c, section.withDate);
+    return `      <li style="margin:4px 0;"><a href="${escapeHtml(contactUrl(appUrl, c.id))}" style="color:#2563eb;font-weight:bold;">${escapeHtml(c.name)}</a> ${escapeHtml(c.purpose)}${detail ? ` <span style="color:#64748b;">（${escapeHtml(detail)}）</span>` : ''} <span style="color:#94a3b8;font-size:12px;">${escapeHtml(categoryLabel(c.category))}</span></li>`;
+  }).join('\n')}
+    </ul>`).join('\n')}
+    <p style="margin:24px 0 0;"><a href="${escapeHtml(appUrl)}" style="display:inline-block;background:#2563eb;color:#ffffff;padding:10px 20px;border-radius:8px;text-decoration:none;font-weight:bold;">アプリを開く</a></p>
+    <p style="margin:24px 0 0;font-size:12px;color:#94a3b8;">このメールは通知設定でメールを有効にした方に送っています。<a href="${escapeHtml(unsubscribe)}" style="color:#94a3b8;">配信を停止する</a></p>
+  </div>
+</body>
+</html>`;
+
+  return { subject, text, html };
+};
+
+// 期日の通知（◯分前・◯日前・当日・期限切れ）をメールにする。同じ実行で送る通知は1通にまとめる
+export const renderEmailReminders = (
+  items: { contact: Contact; reminder: Reminder }[],
+  { appUrl, unsubscribeUrl: unsubscribe }: { appUrl: string; unsubscribeUrl: string }
+): EmailMessage => {
+  const subject = items.length === 1
+    ? `⏰ ${describeReminder(items[0].contact, items[0].reminder)}`
+    : `⏰ 期日の通知 ${items.length}件`;
+
+  const text = [
+    ...items.map(({ contact, reminder }) => `・${describeReminder(contact, reminder)}\n  ${contactUrl(appUrl, contact.id)}`),
+    '',
+    `アプリを開く: ${appUrl}`,
+    `配信を停止する: ${unsubscribe}`,
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html lang="ja">
+<body style="margin:0;padding:24px;background:#f1f5f9;font-family:sans-serif;color:#1e293b;">
+  <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:12px;padding:24px;">
+    <h1 style="font-size:20px;margin:0 0 16px;">⏰ 期日の通知（${items.length}件）</h1>
+    <ul style="margin:0;padding-left:20px;">
+${items.map(({ contact, reminder }) => `      <li style="margin:4px 0;"><a href="${escapeHtml(contactUrl(appUrl, contact.id))}" style="color:#2563eb;">${escapeHtml(describeReminder(contact, reminder))}</a></li>`).join('\n')}
+    </ul>
+    <p style="margin:24px 0 0;"><a href="${escapeHtml(appUrl)}" style="display:inline-block;background:#2563eb;color:#ffffff;padding:10px 20px;border-radius:8px;text-decoration:none;font-weight:bold;">アプリを開く</a></p>
+    <p style="margin:24px 0 0;font-size:12px;color:#94a3b8;">このメールは通知設定でメールを有効にした方に送っています。<a href="${escapeHtml(unsubscribe)}" style="color:#94a3b8;">配信を停止する</a></p>
+  </div>
+</body>
+</html>`;
+
+  return { subject, text, html };
+};
+
+// 送信先のアドレスの確認メール（リンクを開いて確認するまで、まとめや期日の通知は送らない）
+export const renderEmailVerification = (confirmUrl: string): EmailMessage => {
+  const subject = '📧 メールアドレスの確認';
+
+  const text = [
+    '期日管理アプリの通知の送信先に、このメールアドレスが登録されました。',
+    `受け取る場合は、${EMAIL_VERIFICATION_TTL_HOURS}時間以内に次のリンクを開いて確認してください。`,
+    '',
+    confirmUrl,
+    '',
+    '心当たりがなければ、このメールは無視してください（確認しなければ何も送りません）。',
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html lang="ja">
+<body style="margin:0;padding:24px;background:#f1f5f9;font-family:sans-serif;color:#1e293b;">
+  <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:12px;padding:24px;">
+    <h1 style="font-size:20px;margin:0 0 16px;">📧 メールアドレスの確認</h1>
+    <p style="margin:0 0 8px;">期日管理アプリの通知の送信先に、このメールアドレスが登録されました。</p>
+    <p style="margin:0;">受け取る場合は、${EMAIL_VERIFICATION_TTL_HOURS}時間以内に次のボタンから確認してください。</p>
+    <p style="margin:24px 0 0;"><a href="${escapeHtml(confirmUrl)}" style="display:inline-block;background:#2563eb;color:#ffffff;padding:10px 20px;border-radius:8px;text-decoration:none;font-weight:bold;">メールアドレスを確認する</a></p>
+    <p style="margin:24px 0 0;font-size:12px;color:#94a3b8;">心当たりがなければ、このメールは無視してください（確認しなければ何も送りません）。</p>
+  </div>
+</body>
+</html>`;
+
+  return { subject, text, html };
+};
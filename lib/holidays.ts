@@ -0,0 +1,129 @@
+import { addDays, weekdayOf } from './dates';
+
+// 日本の祝日と営業日の計算（通信せずに使えるよう、祝日法の規則から年ごとに生成する）
+// 対象は 2020〜2099 年（春分・秋分の日の計算式の有効範囲）。それ以外の年は土日のみを休日とする
+export const HOLIDAY_MIN_YEAR = 2020;
+export const HOLIDAY_MAX_YEAR = 2099;
+
+// チームで決めた休日（年末年始休業など）。読み込み・保存は lib/companyHolidays.ts
+export interface CompanyHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+// 土日・祝日が続いても必ず見つかるよう、翌営業日を探す上限
+const MAX_SEARCH_DAYS = 366;
+
+const toDate = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+
+// month 月の第 n 月曜日（ハッピーマンデー）
+const nthMonday = (year: number, month: number, n: number) => {
+  const firstDay = toDate(year, month, 1).getUTCDay();
+  return 1 + ((8 - firstDay) % 7) + (n - 1) * 7;
+};
+
+// 春分日・秋分日（1980〜2099年の近似式）
+const equinoxDay = (year: number, base: number) =>
+  Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+
+// 東京オリンピック・パラリンピックに伴う移動（2020・2021年のみ）
+const OLYMPIC_DATES: Record<number, { marine: string; mountain: string; sports: string }> = {
+  2020: { marine: '07-23', mountain: '08-10', sports: '07-24' },
+  2021: { marine: '07-22', mountain: '08-08', sports: '07-23' },
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+// その年の国民の祝日（振替休日・国民の休日を含む）。日付 → 名称
+export const nationalHolidays = (year: number): Map<string, string> => {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const holidays = new Map<string, string>();
+  if (year < HOLIDAY_MIN_YEAR || year > HOLIDAY_MAX_YEAR) {
+    holidayCache.set(year, holidays);
+    return holidays;
+  }
+
+  const add = (monthDay: string, name: string) => holidays.set(`${year}-${monthDay}`, name);
+  const olympic = OLYMPIC_DATES[year];
+
+  add('01-01', '元日');
+  add(`01-${pad(nthMonday(year, 1, 2))}`, '成人の日');
+  add('02-11', '建国記念の日');
+  add('02-23', '天皇誕生日');
+  add(`03-${pad(equinoxDay(year, 20.8431))}`, '春分の日');
+  add('04-29', '昭和の日');
+  add('05-03', '憲法記念日');
+  add('05-04', 'みどりの日');
+  add('05-05', 'こどもの日');
+  add(olympic?.marine ?? `07-${pad(nthMonday(year, 7, 3))}`, '海の日');
+  add(olympic?.mountain ?? '08-11', '山の日');
+  add(`09-${pad(nthMonday(year, 9, 3))}`, '敬老の日');
+  add(`09-${pad(equinoxDay(year, 23.2488))}`, '秋分の日');
+  add(olympic?.sports ?? `10-${pad(nthMonday(year, 10, 2))}`, 'スポーツの日');
+  add('11-03', '文化の日');
+  add('11-23', '勤労感謝の日');
+
+  const fixed = [...holidays.keys()].sort();
+
+  // 国民の休日：前後を祝日に挟まれた平日
+  for (const date of fixed) {
+    const between = addDays(date, 1);
+    if (!holidays.has(between) && holidays.has(addDays(date, 2)) && weekdayOf(between) !== 0) {
+      holidays.set(between, '国民の休日');
+    }
+  }
+
+  // 振替休日：祝日が日曜日のときは、その後の最初の祝日でない日
+  for (const date of fixed) {
+    if (weekdayOf(date) !== 0) continue;
+    let substitute = addDays(date, 1);
+    while (holidays.has(substitute)) substitute = addDays(substitute, 1);
+    holidays.set(substitute, '振替休日');
+  }
+
+  holidayCache.set(year, holidays);
+  return holidays;
+};
+
+// 祝日・会社の休日の名称（休日でなければ undefined）
+export const holidayName = (date: string, companyHolidays: CompanyHoliday[] = []): string | undefined =>
+  nationalHolidays(Number(date.slice(0, 4))).get(date) ?? companyHolidays.find(h => h.date === date)?.name;
+
+export const isWeekend = (date: string) => {
+  const day = weekdayOf(date);
+  return day === 0 || day === 6;
+};
+
+// 営業日か（土日・祝日・会社の休日以外）
+export const isBusinessDay = (date: string, companyHolidays: CompanyHoliday[] = []) =>
+  !isWeekend(date) && !holidayName(date, companyHolidays);
+
+// 営業日でなければ、次の営業日に進める
+export const rollToBusinessDay = (date: string, companyHolidays: CompanyHoliday[] = []): string => {
+  let current = date;
+  for (let i = 0; i < MAX_SEARCH_DAYS && !isBusinessDay(current, companyHolidays); i++) {
+    current = addDays(current, 1);
+  }
+  return current;
+};
+
+// n 営業日後
+export const addBusinessDays = (date: string, days: number, companyHolidays: CompanyHoliday[] = []): string => {
+  let current = date;
+  for (let i = 0; i < days; i++) {
+    current = rollToBusinessDay(addDays(current, 1), companyHolidays);
+  }
+  return current;
+};
+
+// 休日の表示（例：「🎌 文化の日」「土曜日」）。営業日なら undefined
+export const describeNonBusinessDay = (date: string, companyHolidays: CompanyHoliday[] = []): string | undefined => {
+  const name = holidayName(date, companyHolidays);
+  if (name) return `🎌 ${name}`;
+  if (isWeekend(date)) return weekdayOf(date) === 0 ? '日曜日' : '土曜日';
+  return undefined;
+};
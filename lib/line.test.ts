@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { lineVerificationCodeOf, verifyLineSignature } from './line';
+
+test('verifyLineSignature はチャネルシークレットで署名した本文だけを受け付ける', () => {
+  const body = JSON.stringify({ events: [{ type: 'follow', source: { type: 'user', userId: `U${'0'.repeat(32)}` } }] });
+  const signature = createHmac('sha256', 'secret').update(body).digest('base64');
+  assert.equal(verifyLineSignature('secret', signature, body), true);
+  assert.equal(verifyLineSignature('other', signature, body), false);
+  assert.equal(verifyLineSignature('secret', signature, `${body} `), false);
+  assert.equal(verifyLineSignature('secret', null, body), false);
+});
+
+test('lineVerificationCodeOf は6桁の数字のメッセージだけを確認コードとして読む', () => {
+  assert.equal(lineVerificationCodeOf('123456'), '123456');
+  assert.equal(lineVerificationCodeOf(' 123 456\n'), '123456');
+  assert.equal(lineVerificationCodeOf('12345'), null);
+  assert.equal(lineVerificationCodeOf('こんにちは'), null);
+});
@@ -0,0 +1,70 @@
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+
+// LINE の Messaging API（Webhook の検証・応答メッセージ・プロフィール。https://developers.line.biz/ja/reference/messaging-api/）
+// サーバー専用（Node の crypto を使う）。プッシュメッセージの送信は lib/notifiers.ts
+
+const LINE_REPLY_URL = 'https://api.line.me/v2/bot/message/reply';
+const LINE_PROFILE_URL = 'https://api.line.me/v2/bot/profile';
+
+// LINE の応答を待つ時間
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// x-line-signature が、チャネルシークレットで署名した本文（HMAC-SHA256 の Base64）と一致するか
+export const verifyLineSignature = (channelSecret: string, signature: string | null, body: string): boolean => {
+  if (!signature) return false;
+
+  const expected = Buffer.from(createHmac('sha256', channelSecret).update(body).digest('base64'));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// LINE との連携（0027_line_link.sql）。リンクと確認コードの有効期限と、確認コードの入力を受け付ける回数
+export const LINE_LINK_TTL_MINUTES = 15;
+export const LINE_LINK_MAX_ATTEMPTS = 5;
+
+// 確認コード（6桁の数字。アプリで表示し、LINE で公式アカウントに送る）
+export const createLineVerificationCode = (): string => String(randomInt(0, 1_000_000)).padStart(6, '0');
+
+// 確認コードの形式のメッセージなら、そのコード（それ以外は null）
+export const lineVerificationCodeOf = (text: string): string | null => {
+  const code = text.trim().replace(/\s+/g, '');
+  return /^\d{6}$/.test(code) ? code : null;
+};
+
+// Webhook で届くイベントのうち使う部分
+export interface LineWebhookEvent {
+  type: string; // follow（友だち追加）・unfollow（ブロック）・message など
+  replyToken?: string;
+  source?: { type: string; userId?: string };
+  message?: { type: string; text?: string };
+}
+
+// 応答メッセージを送る（replyToken は1回だけ使える。失敗してもログに残すだけ）
+export const replyLine = async (replyToken: string, text: string): Promise<void> => {
+  try {
+    const response = await fetch(LINE_REPLY_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${process.env.LINE_CHANNEL_ACCESS_TOKEN}` },
+      body: JSON.stringify({ replyToken, messages: [{ type: 'text', text }] }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) console.error('LINE reply error:', response.status);
+  } catch (error) {
+    console.error('LINE reply error:', error);
+  }
+};
+
+// 友だちの表示名（取得できなければ null）
+export const lineDisplayNameOf = async (userId: string): Promise<string | null> => {
+  try {
+    const response = await fetch(`${LINE_PROFILE_URL}/${encodeURIComponent(userId)}`, {
+      headers: { Authorization: `Bearer ${process.env.LINE_CHANNEL_ACCESS_TOKEN}` },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) return null;
+    const { displayName } = await response.json();
+    return typeof displayName === 'string' ? displayName : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,171 @@
+import type { DbNotificationSettings, NotificationSettingsInput } from './supabase';
+import { formatTime } from './dates';
+import { DEFAULT_DIGEST_SECTIONS, normalizeDigestSections } from './digest';
+import type { DigestSection } from './digest';
+
+// 毎朝のまとめ・期日の通知を送れるチャット（送信は lib/notifiers.ts。サーバー専用）
+export type ChatChannel = 'slack' | 'teams' | 'discord' | 'line';
+
+export const CHAT_CHANNELS: { value: ChatChannel; label: string }[] = [
+  { value: 'slack', label: 'Slack' },
+  { value: 'teams', label: 'Microsoft Teams' },
+  { value: 'discord', label: 'Discord' },
+  { value: 'line', label: 'LINE' },
+];
+
+export const isChatChannel = (value: unknown): value is ChatChannel => CHAT_CHANNELS.some(c => c.value === value);
+
+export const chatChannelLabel = (channel: ChatChannel): string => CHAT_CHANNELS.find(c => c.value === channel)!.label;
+
+// ユーザーごとの通知の設定（Supabase の notification_settings に保存する）
+export interface NotificationSettings {
+  slackWebhookUrl: string;
+  teamsWebhookUrl: string;
+  discordWebhookUrl: string;
+  lineUserId: string; // 公式アカウントとの連携で登録する（画面からは保存しない）
+  lineDisplayName: string;
+  digestChannel: ChatChannel | null; // 毎朝のまとめを送るチャット（null なら送らない）
+  reminderChannel: ChatChannel | null; // 期日の通知を送るチャット（null なら送らない）
+  chatSendTime: string; // チャットに毎朝のまとめを送る時刻（HH:MM。利用者のタイムゾーン）
+  chatDigestSections: DigestSection[]; // まとめに含める項目
+  emailEnabled: boolean;
+  emailAddress: string;
+  emailVerifiedAddress: string; // 確認のリンクを開いたアドレス（画面からは保存しない）
+  emailSendTime: string; // メールのまとめを送る時刻（HH:MM。利用者のタイムゾーン）
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  slackWebhookUrl: '',
+  teamsWebhookUrl: '',
+  discordWebhookUrl: '',
+  lineUserId: '',
+  lineDisplayName: '',
+  digestChannel: null,
+  reminderChannel: null,
+  chatSendTime: '08:30',
+  chatDigestSections: DEFAULT_DIGEST_SECTIONS,
+  emailEnabled: false,
+  emailAddress: '',
+  emailVerifiedAddress: '',
+  emailSendTime: '08:00',
+};
+
+// 定期ジョブの実行間隔（送信時刻はこの間隔で丸めて送られる）
+export const DIGEST_INTERVAL_MINUTES = 15;
+
+// 他のサーバーに連絡先を送らないよう、チャットごとに送信先を限定する
+const isHttpsUrlOf = (url: string, matches: (parsed: URL) => boolean): boolean => {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && matches(parsed);
+  } catch {
+    return false;
+  }
+};
+
+// Slack の Incoming Webhook の URL か
+export const isSlackWebhookUrl = (url: string): boolean =>
+  isHttpsUrlOf(url, ({ hostname, pathname }) => hostname === 'hooks.slack.com' && pathname.startsWith('/services/'));
+
+// Teams の Incoming Webhook（コネクタ）か、ワークフロー（Power Automate）の「Webhook 要求を受信したとき」の URL か
+export const isTeamsWebhookUrl = (url: string): boolean =>
+  isHttpsUrlOf(url, ({ hostname }) =>
+    hostname.endsWith('.webhook.office.com')
+    || hostname.endsWith('.logic.azure.com')
+    || hostname.endsWith('.environment.api.powerplatform.com'));
+
+export const isDiscordWebhookUrl = (url: string): boolean =>
+  isHttpsUrlOf(url, ({ hostname, pathname }) =>
+    ['discord.com', 'discordapp.com', 'ptb.discord.com', 'canary.discord.com'].includes(hostname)
+    && pathname.startsWith('/api/webhooks/'));
+
+// LINE のユーザー ID（U と32桁の16進。LINE の表示名や LINE ID とは別物）
+export const isLineUserId = (value: string): boolean => /^U[0-9a-f]{32}$/.test(value);
+
+// チャットの送信先（Webhook の URL・LINE のユーザー ID）。未入力なら空文字
+export const chatDestinationOf = (channel: ChatChannel, settings: NotificationSettings): string => {
+  switch (channel) {
+    case 'slack': return settings.slackWebhookUrl.trim();
+    case 'teams': return settings.teamsWebhookUrl.trim();
+    case 'discord': return settings.discordWebhookUrl.trim();
+    case 'line': return settings.lineUserId.trim();
+  }
+};
+
+export const isChatDestination = (channel: ChatChannel, destination: string): boolean => {
+  switch (channel) {
+    case 'slack': return isSlackWebhookUrl(destination);
+    case 'teams': return isTeamsWebhookUrl(destination);
+    case 'discord': return isDiscordWebhookUrl(destination);
+    case 'line': return isLineUserId(destination);
+  }
+};
+
+export const fromDbNotificationSettings = (row: DbNotificationSettings | null): NotificationSettings =>
+  row
+    ? {
+        slackWebhookUrl: row.slack_webhook_url || '',
+        teamsWebhookUrl: row.teams_webhook_url || '',
+        discordWebhookUrl: row.discord_webhook_url || '',
+        lineUserId: row.line_user_id || '',
+        lineDisplayName: row.line_display_name || '',
+        digestChannel: isChatChannel(row.digest_channel) ? row.digest_channel : null,
+        reminderChannel: isChatChannel(row.reminder_channel) ? row.reminder_channel : null,
+        chatSendTime: formatTime(row.slack_send_time),
+        chatDigestSections: normalizeDigestSections(row.slack_digest_sections),
+        emailEnabled: row.email_enabled ?? false,
+        emailAddress: row.email_address || '',
+        emailVerifiedAddress: row.email_verified_address || '',
+        emailSendTime: formatTime(row.email_send_time || DEFAULT_NOTIFICATION_SETTINGS.emailSendTime),
+      }
+    : DEFAULT_NOTIFICATION_SETTINGS;
+
+export const toDbNotificationSettings = (settings: NotificationSettings, userId: string): NotificationSettingsInput => ({
+  user_id: userId,
+  slack_webhook_url: settings.slackWebhookUrl.trim() || null,
+  teams_webhook_url: settings.teamsWebhookUrl.trim() || null,
+  discord_webhook_url: settings.discordWebhookUrl.trim() || null,
+  digest_channel: settings.digestChannel,
+  reminder_channel: settings.reminderChannel,
+  slack_send_time: settings.chatSendTime,
+  slack_digest_sections: settings.chatDigestSections,
+  email_enabled: settings.emailEnabled,
+  email_address: settings.emailAddress.trim() || null,
+  email_send_time: settings.emailSendTime,
+});
+
+// メールアドレスの簡易チェック（届くかどうかは送ってみるまで分からない）
+export const isEmailAddress = (address: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address);
+
+// 入力しているアドレスが確認済みか（確認済みのアドレスにだけメールを送る）
+export const isEmailVerified = (settings: NotificationSettings): boolean =>
+  !!settings.emailAddress.trim() && settings.emailAddress.trim() === settings.emailVerifiedAddress;
+
+// 保存できない設定の理由（問題なければ null）
+export const validateNotificationSettings = (settings: NotificationSettings): string | null => {
+  const slackUrl = settings.slackWebhookUrl.trim();
+  if (slackUrl && !isSlackWebhookUrl(slackUrl)) return 'Slack の Webhook URL は https://hooks.slack.com/services/ で始まる URL を入力してください';
+  const teamsUrl = settings.teamsWebhookUrl.trim();
+  if (teamsUrl && !isTeamsWebhookUrl(teamsUrl)) return 'Teams の Webhook URL は Teams（またはワークフロー）で発行した URL を入力してください';
+  const discordUrl = settings.discordWebhookUrl.trim();
+  if (discordUrl && !isDiscordWebhookUrl(discordUrl)) return 'Discord の Webhook URL は https://discord.com/api/webhooks/ で始まる URL を入力してください';
+  for (const channel of [settings.digestChannel, settings.reminderChannel]) {
+    if (channel === 'line' && !settings.lineUserId) return 'LINE に送るには、LINE の公式アカウントを友だち追加して連携してください';
+    if (channel && !chatDestinationOf(channel, settings)) return `${chatChannelLabel(channel)} に送るには送信先を入力してください`;
+  }
+  if (!/^\d{2}:\d{2}$/.test(settings.chatSendTime)) return '送信時刻を入力してください';
+  if (settings.digestChannel && settings.chatDigestSections.length === 0) return 'まとめに含める項目を1つ以上選んでください';
+  const address = settings.emailAddress.trim();
+  if (address && !isEmailAddress(address)) return 'メールアドレスの形式が正しくありません';
+  if (settings.emailEnabled && !address) return 'メールで受け取るにはメールアドレスを入力してください';
+  if (!/^\d{2}:\d{2}$/.test(settings.emailSendTime)) return 'メールの送信時刻を入力してください';
+  return null;
+};
+
+// 今日のまとめを送る時刻になったか（送信時刻を過ぎていて、今日まだ送っていない。チャット・メールで共通）
+export const isDigestDue = (
+  sendTime: string,
+  lastSentOn: string | null | undefined,
+  today: string,
+  currentTime: string
+): boolean => lastSentOn !== today && currentTime >= formatTime(sendTime);
@@ -0,0 +1,273 @@
+import { categoryLabel } from './contacts';
+import type { Contact } from './contacts';
+import {
+  contactDetail,
+  contactUrl,
+  digestCategoriesOf,
+  digestListsOf,
+  digestSummary,
+  digestTitle,
+  escapeSlack,
+  renderSlackDigest,
+} from './digest';
+import type { Digest, DigestList } from './digest';
+import { describeReminder } from './reminders';
+import type { Reminder } from './reminders';
+import type { ChatChannel } from './notificationSettings';
+
+// 毎朝のまとめと期日の通知をチャットに送る（サーバー専用。LINE のチャネルアクセストークンを環境変数から読む）
+// 定期ジョブはチャットの種類を気にせず、利用者が選んだチャットの Notifier に送る。同じまとめを各チャットの形式にする
+//   Slack … Incoming Webhook（Block Kit）、Teams … Incoming Webhook・ワークフロー（Adaptive Card）
+//   Discord … Webhook（埋め込み）、LINE … Messaging API のプッシュメッセージ（LINE_CHANNEL_ACCESS_TOKEN）
+
+export interface NotifyOptions {
+  appUrl: string; // アプリの URL（各連絡先とアプリへのリンクに使う）
+}
+
+// 送る通知1件（同じ実行で送る通知は1つのメッセージにまとめる）
+export interface ReminderItem {
+  contact: Contact;
+  reminder: Reminder;
+}
+
+// 送信の結果（失敗なら理由。送れなかった分は定期ジョブが次回に再送する）
+export type NotifyResult = { ok: true } | { ok: false; error: string };
+
+export interface Notifier {
+  channel: ChatChannel;
+  isConfigured(): boolean; // サーバーの設定がそろっているか
+  sendDigest(destination: string, digest: Digest, options: NotifyOptions): Promise<NotifyResult>;
+  sendReminders(destination: string, items: ReminderItem[], options: NotifyOptions): Promise<NotifyResult>;
+}
+
+const BOT_NAME = '期日管理Bot';
+
+// 1つの一覧に並べる連絡先の上限（Slack のまとめと同じ）
+const MAX_ITEMS_PER_LIST = 10;
+
+// 送信先の応答を待つ時間
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// 失敗の理由に残す応答本文の長さ
+const MAX_ERROR_LENGTH = 500;
+
+const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}): Promise<NotifyResult> => {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (response.ok) return { ok: true };
+    return { ok: false, error: (await response.text()).slice(0, MAX_ERROR_LENGTH) || `HTTP ${response.status}` };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// 文字数の上限に収まるだけ行を並べ、並べられなかった件数（omitted を含む）を「ほか◯件」にする
+const joinWithin = (
+  lines: string[],
+  maxLength: number,
+  { separator = '\n', omitted = 0 }: { separator?: string; omitted?: number } = {}
+): string => {
+  const withRest = (shown: number) => {
+    const rest = lines.length - shown + omitted;
+    return [...lines.slice(0, shown), ...(rest > 0 ? [`ほか${rest}件`] : [])].join(separator);
+  };
+  let shown = 0;
+  while (shown < lines.length && withRest(shown + 1).length <= maxLength) shown++;
+  return withRest(shown);
+};
+
+// 一覧の行（MAX_ITEMS_PER_LIST 件と文字数の上限まで）
+const listText = (
+  list: DigestList,
+  line: (contact: Contact, withDate: boolean) => string,
+  maxLength = Infinity,
+  separator = '\n'
+): string => joinWithin(
+  list.contacts.slice(0, MAX_ITEMS_PER_LIST).map(c => line(c, list.withDate)),
+  maxLength,
+  { separator, omitted: Math.max(list.contacts.length - MAX_ITEMS_PER_LIST, 0) }
+);
+
+// Slack：まとめは Block Kit（完了・延期のボタンは Slack アプリの Interactivity を設定している場合のみ）
+const slackNotifier: Notifier = {
+  channel: 'slack',
+  isConfigured: () => true,
+  sendDigest: (url, digest, { appUrl }) => postJson(url, {
+    ...renderSlackDigest(digest, { appUrl, actions: !!process.env.SLACK_SIGNING_SECRET }),
+    username: BOT_NAME,
+    icon_emoji: ':calendar:',
+  }),
+  sendReminders: (url, items, { appUrl }) => postJson(url, {
+    text: [
+      `⏰ *期日の通知* ${items.length}件`,
+      '',
+      ...items.map(({ contact, reminder }) =>
+        `• <${contactUrl(appUrl, contact.id)}|${escapeSlack(describeReminder(contact, reminder))}>`),
+    ].join('\n'),
+    username: BOT_NAME,
+    icon_emoji: ':alarm_clock:',
+  }),
+};
+
+// Teams：Adaptive Card（https://adaptivecards.io/）。TextBlock の Markdown はリンクと強調のみ
+type JsonObject = Record<string, unknown>;
+
+const escapeTeams = (text: string) => text.replace(/[\\*_[\]]/g, '\\$&');
+
+const teamsLine = (appUrl: string) => (contact: Contact, withDate: boolean) => {
+  const detail = contactDetail(contact, withDate);
+  return `• [${escapeTeams(contact.name)}](${contactUrl(appUrl, contact.id)}) ${escapeTeams(contact.purpose)}${detail ? `（${detail}）` : ''}`;
+};
+
+const teamsMessage = (body: JsonObject[], appUrl: string) => ({
+  type: 'message',
+  attachments: [{
+    contentType: 'application/vnd.microsoft.card.adaptive',
+    contentUrl: null,
+    content: {
+      $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+      type: 'AdaptiveCard',
+      version: '1.4',
+      msteams: { width: 'Full' },
+      body,
+      actions: [{ type: 'Action.OpenUrl', title: 'アプリを開く', url: appUrl }],
+    },
+  }],
+});
+
+const teamsHeading = (text: string, size = 'Medium'): JsonObject =>
+  ({ type: 'TextBlock', text, size, weight: 'Bolder', wrap: true, separator: size !== 'Large', spacing: 'Medium' });
+
+// 行は空行で区切る（改行1つでは Teams が1行につなげて表示する）
+const TEAMS_LINE_SEPARATOR = '\n\n';
+const teamsText = (text: string): JsonObject => ({ type: 'TextBlock', text, wrap: true });
+
+const teamsNotifier: Notifier = {
+  channel: 'teams',
+  isConfigured: () => true,
+  sendDigest: (url, digest, { appUrl }) => {
+    const categories = digestCategoriesOf(digest);
+    return postJson(url, teamsMessage([
+      teamsHeading(digestTitle(digest), 'Large'),
+      ...digestListsOf(digest).flatMap(list => [
+        teamsHeading(`${list.title} ${list.contacts.length}件`),
+        teamsText(listText(list, teamsLine(appUrl), Infinity, TEAMS_LINE_SEPARATOR)),
+      ]),
+      ...(categories.length > 0
+        ? [
+            teamsHeading('📊 カテゴリ別の未完了'),
+            { type: 'FactSet', facts: categories.map(({ category, count }) => ({ title: categoryLabel(category), value: `${count}件` })) },
+          ]
+        : []),
+    ], appUrl));
+  },
+  sendReminders: (url, items, { appUrl }) => postJson(url, teamsMessage([
+    teamsHeading(`⏰ 期日の通知 ${items.length}件`, 'Large'),
+    teamsText(items.map(({ contact, reminder }) =>
+      `• [${escapeTeams(describeReminder(contact, reminder))}](${contactUrl(appUrl, contact.id)})`).join(TEAMS_LINE_SEPARATOR)),
+  ], appUrl)),
+};
+
+// Discord：埋め込み（1メッセージ10個・合計6000文字まで。https://discord.com/developers/docs/resources/webhook）
+const MAX_DISCORD_EMBED_TOTAL = 5500; // 見出し・件数の分の余裕を残す
+const MAX_DISCORD_DESCRIPTION = 4096;
+const DISCORD_COLOR = 0x2563eb;
+
+const escapeDiscord = (text: string) => text.replace(/[\\*_~`|[\]()<>]/g, '\\$&');
+
+const discordLine = (appUrl: string) => (contact: Contact, withDate: boolean) => {
+  const detail = contactDetail(contact, withDate);
+  return `• [${escapeDiscord(contact.name)}](${contactUrl(appUrl, contact.id)}) ${escapeDiscord(contact.purpose)}${detail ? `（${detail}）` : ''}`;
+};
+
+// allowed_mentions を空にして、連絡先の名前などに @everyone があっても通知しない
+const discordMessage = (content: string, embeds: JsonObject[]) => ({
+  username: BOT_NAME,
+  content,
+  embeds,
+  allowed_mentions: { parse: [] },
+});
+
+const discordNotifier: Notifier = {
+  channel: 'discord',
+  isConfigured: () => true,
+  sendDigest: (url, digest, { appUrl }) => {
+    // 埋め込みの合計の文字数に収まるよう、一覧ごとに残りの文字数で行を切る
+    let remaining = MAX_DISCORD_EMBED_TOTAL;
+    const embeds = digestListsOf(digest).map(list => {
+      const title = `${list.title} ${list.contacts.length}件`;
+      const description = listText(list, discordLine(appUrl), Math.max(Math.min(remaining - title.length, MAX_DISCORD_DESCRIPTION), 0));
+      remaining -= title.length + description.length;
+      return { title, description, color: DISCORD_COLOR };
+    });
+    const categories = digestCategoriesOf(digest);
+    if (categories.length > 0) {
+      embeds.push({
+        title: '📊 カテゴリ別の未完了',
+        description: categories.map(({ category, count }) => `${escapeDiscord(categoryLabel(category))}：${count}件`).join('\n'),
+        color: DISCORD_COLOR,
+      });
+    }
+    return postJson(url, discordMessage(`**${digestSummary(digest)}**\n[アプリを開く](${appUrl})`, embeds.slice(0, 10)));
+  },
+  sendReminders: (url, items, { appUrl }) => postJson(url, discordMessage(`⏰ **期日の通知** ${items.length}件`, [{
+    description: joinWithin(items.map(({ contact, reminder }) =>
+      `• [${escapeDiscord(describeReminder(contact, reminder))}](${contactUrl(appUrl, contact.id)})`), MAX_DISCORD_DESCRIPTION),
+    color: DISCORD_COLOR,
+  }])),
+};
+
+// LINE：Messaging API のプッシュメッセージ（テキスト。https://developers.line.biz/ja/reference/messaging-api/）
+// 送信先は公式アカウントを友だち追加したユーザーの ID。プッシュメッセージは月の送信数の上限に数えられる
+const LINE_PUSH_URL = 'https://api.line.me/v2/bot/message/push';
+const MAX_LINE_TEXT_LENGTH = 5000;
+const LINE_TEXT_BUDGET = MAX_LINE_TEXT_LENGTH - 300; // 見出しと「ほか◯件」の分の余裕を残す
+
+const lineLine = (appUrl: string) => (contact: Contact, withDate: boolean) => {
+  const detail = contactDetail(contact, withDate);
+  return `・${contact.name} ${contact.purpose}${detail ? `（${detail}）` : ''}\n  ${contactUrl(appUrl, contact.id)}`;
+};
+
+const pushLine = (userId: string, text: string) => postJson(
+  LINE_PUSH_URL,
+  { to: userId, messages: [{ type: 'text', text }] },
+  { Authorization: `Bearer ${process.env.LINE_CHANNEL_ACCESS_TOKEN}` }
+);
+
+const lineNotifier: Notifier = {
+  channel: 'line',
+  isConfigured: () => !!process.env.LINE_CHANNEL_ACCESS_TOKEN,
+  sendDigest: (userId, digest, { appUrl }) => {
+    const categories = digestCategoriesOf(digest);
+    const categoryText = categories.length > 0
+      ? ['■ 📊 カテゴリ別の未完了', ...categories.map(({ category, count }) => `${categoryLabel(category)}：${count}件`)].join('\n')
+      : '';
+    const footer = `アプリを開く: ${appUrl}`;
+
+    // 全体が上限に収まるよう、一覧ごとに残りの文字数で行を切る
+    let remaining = LINE_TEXT_BUDGET - digestSummary(digest).length - categoryText.length - footer.length;
+    const lists = digestListsOf(digest).map(list => {
+      const heading = `■ ${list.title}（${list.contacts.length}件）`;
+      const text = `${heading}\n${listText(list, lineLine(appUrl), Math.max(remaining - heading.length, 0))}`;
+      remaining -= text.length + 2;
+      return text;
+    });
+    return pushLine(userId, [digestSummary(digest), ...lists, categoryText, footer].filter(Boolean).join('\n\n'));
+  },
+  sendReminders: (userId, items, { appUrl }) => pushLine(userId, joinWithin([
+    `⏰ 期日の通知 ${items.length}件`,
+    ...items.map(({ contact, reminder }) => `・${describeReminder(contact, reminder)}\n  ${contactUrl(appUrl, contact.id)}`),
+  ], MAX_LINE_TEXT_LENGTH)),
+};
+
+export const NOTIFIERS: Record<ChatChannel, Notifier> = {
+  slack: slackNotifier,
+  teams: teamsNotifier,
+  discord: discordNotifier,
+  line: lineNotifier,
+};
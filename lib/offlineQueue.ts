@@ -0,0 +1,192 @@
+import { contactsApi, fail } from './supabase';
+import type { ApiError, ApiResult, DbContact } from './supabase';
+
+// オフライン時の書き込みを保持するアウトボックス（IndexedDB）
+const DB_NAME = 'deadline-app';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+// オフライン作成した連絡先に振る仮IDの接頭辞
+export const LOCAL_ID_PREFIX = 'local-';
+
+export type QueuedMutation =
+  | { id?: number; type: 'create'; contactId: string; payload: Omit<DbContact, 'id' | 'created_at'>; queuedAt: string }
+  | { id?: number; type: 'update'; contactId: string; payload: Partial<DbContact>; baseUpdatedAt?: string; queuedAt: string }
+  | { id?: number; type: 'delete'; contactId: string; queuedAt: string }
+  | { id?: number; type: 'reorder'; contactIds: string[]; queuedAt: string };
+
+// キューに積む前の形（id と queuedAt はキュー側で付与）
+export type NewMutation =
+  | Omit<Extract<QueuedMutation, { type: 'create' }>, 'id' | 'queuedAt'>
+  | Omit<Extract<QueuedMutation, { type: 'update' }>, 'id' | 'queuedAt'>
+  | Omit<Extract<QueuedMutation, { type: 'delete' }>, 'id' | 'queuedAt'>
+  | Omit<Extract<QueuedMutation, { type: 'reorder' }>, 'id' | 'queuedAt'>;
+
+// 再送時に適用できなかった変更
+export interface SyncConflict {
+  mutation: QueuedMutation;
+  error: ApiError;
+  serverContact?: DbContact; // 競合時のサーバー側の最新行
+}
+
+export interface ReplayResult {
+  synced: number;
+  remaining: number;
+  conflicts: SyncConflict[];
+  createdIds: Record<string, DbContact>; // 仮ID → 作成された行
+  updatedRows: DbContact[];
+}
+
+const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+const openDb = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 1トランザクション内で処理を実行
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = run(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+};
+
+export const offlineQueue = {
+  // 末尾に追加（キーが自動採番のため、取り出し順＝追加順）
+  async enqueue(mutation: NewMutation): Promise<void> {
+    if (!isIndexedDbAvailable()) return;
+    await withStore('readwrite', store => store.add({ ...mutation, queuedAt: new Date().toISOString() }));
+  },
+
+  async getAll(): Promise<QueuedMutation[]> {
+    if (!isIndexedDbAvailable()) return [];
+    return (await withStore<QueuedMutation[]>('readonly', store => store.getAll())) || [];
+  },
+
+  async count(): Promise<number> {
+    if (!isIndexedDbAvailable()) return 0;
+    return (await withStore<number>('readonly', store => store.count())) || 0;
+  },
+
+  async remove(id: number): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+  },
+
+  // 残りのキューを書き換え（仮IDの置換や、更新後のバージョンの付け替え）
+  async rewrite(transform: (mutation: QueuedMutation) => QueuedMutation): Promise<void> {
+    const mutations = await offlineQueue.getAll();
+    await withStore('readwrite', store => {
+      mutations.forEach(m => store.put(transform(m)));
+    });
+  },
+};
+
+// 仮IDを実IDに置き換える
+const replaceContactId = (tempId: string, realId: string) => (m: QueuedMutation): QueuedMutation => {
+  if (m.type === 'reorder') {
+    return { ...m, contactIds: m.contactIds.map(id => id === tempId ? realId : id) };
+  }
+  return m.contactId === tempId ? { ...m, contactId: realId } : m;
+};
+
+// 同じ連絡先への後続の更新を、書き込み後のバージョン基準に付け替える
+const rebase = (contactId: string, fromVersion: string | undefined, toVersion: string | undefined) =>
+  (m: QueuedMutation): QueuedMutation => {
+    if (m.type === 'update' && m.contactId === contactId && m.baseUpdatedAt === fromVersion) {
+      return { ...m, baseUpdatedAt: toVersion };
+    }
+    return m;
+  };
+
+// キューを先頭から順に再送する。通信エラーが起きた時点で中断し、残りは次回に回す
+export async function replayOutbox(): Promise<ReplayResult> {
+  const result: ReplayResult = { synced: 0, remaining: 0, conflicts: [], createdIds: {}, updatedRows: [] };
+  const mutations = await offlineQueue.getAll();
+
+  // 未処理の残り（IndexedDB とこのループの両方）を書き換える
+  const rewriteRemaining = async (from: number, transform: (m: QueuedMutation) => QueuedMutation) => {
+    await offlineQueue.rewrite(transform);
+    for (let j = from; j < mutations.length; j++) {
+      mutations[j] = transform(mutations[j]);
+    }
+  };
+
+  for (let i = 0; i < mutations.length; i++) {
+    const mutation = mutations[i];
+
+    let outcome: { ok: true; row?: DbContact } | { ok: false; error: ApiError };
+    if (mutation.type === 'create') {
+      outcome = await contactsApi.create(mutation.payload).then(r => r.ok ? { ok: true, row: r.data } : r);
+    } else if (mutation.type === 'update') {
+      outcome = await contactsApi.update(mutation.contactId, mutation.payload, mutation.baseUpdatedAt)
+        .then(r => r.ok ? { ok: true, row: r.data } : r);
+    } else if (mutation.type === 'delete') {
+      const deleted = await contactsApi.delete(mutation.contactId);
+      outcome = deleted.ok ? { ok: true } : deleted;
+    } else {
+      const reordered = await contactsApi.reorder(mutation.contactIds);
+      outcome = reordered.ok ? { ok: true } : reordered;
+    }
+
+    if (!outcome.ok && outcome.error.kind === 'network') {
+      result.remaining = mutations.length - i;
+      return result;
+    }
+
+    await offlineQueue.remove(mutation.id!);
+
+    if (!outcome.ok) {
+      // 競合や権限エラーは再送しても解決しないため、キューから外して利用者に判断を委ねる
+      const conflict: SyncConflict = { mutation, error: outcome.error };
+      if (outcome.error.kind === 'conflict' && mutation.type === 'update') {
+        const current = await contactsApi.getById(mutation.contactId);
+        if (current.ok) conflict.serverContact = current.data;
+      }
+      result.conflicts.push(conflict);
+      continue;
+    }
+
+    result.synced++;
+    const row = outcome.row;
+    if (mutation.type === 'create' && row?.id) {
+      result.createdIds[mutation.contactId] = row;
+      await rewriteRemaining(i + 1, replaceContactId(mutation.contactId, row.id));
+      // 作成直後のバージョンを後続の更新の基準にする
+      await rewriteRemaining(i + 1, rebase(row.id, undefined, row.updated_at));
+    } else if (mutation.type === 'update' && row) {
+      result.updatedRows.push(row);
+      await rewriteRemaining(i + 1, rebase(mutation.contactId, mutation.baseUpdatedAt, row.updated_at));
+    }
+  }
+
+  return result;
+}
+
+// 競合した更新を、バージョン確認なしで適用する（「自分の変更で上書き」）
+export async function forceApply(conflict: SyncConflict): Promise<ApiResult<DbContact | void>> {
+  const { mutation } = conflict;
+  if (mutation.type !== 'update') return fail('validation', 'Only updates can be overwritten');
+  return contactsApi.update(mutation.contactId, mutation.payload);
+}
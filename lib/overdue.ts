@@ -0,0 +1,15 @@
+import type { Contact } from './contacts';
+
+// 期限切れの未完了の連絡先を今日に繰り越す（夜間ジョブの roll_overdue_contacts と同じ処理）
+// today は利用者のタイムゾーンでの今日（lib/dates.ts の todayIn）
+// 元の期日は最初に期限切れになったときの期日を残し、繰り越し回数は期限切れになるたびに1増やす
+export const rollOverdue = (contact: Contact, today: string): Contact => {
+  if (contact.status !== 'pending' || contact.deletedAt || contact.deadline >= today) return contact;
+  return {
+    ...contact,
+    originalDeadline: contact.originalDeadline || contact.deadline,
+    deadline: today,
+    isOverdue: true,
+    postponeCount: (contact.postponeCount || 0) + (contact.originalDeadline ? 0 : 1)
+  };
+};
@@ -0,0 +1,59 @@
+import { ok, pushSubscriptionsApi } from './supabase';
+import type { ApiResult } from './supabase';
+
+// Web Push の購読（ブラウザ側）。通知はサーバーの定期ジョブ（/api/cron/reminders）が送り、public/sw.js が表示する
+
+// VAPID の公開鍵（npx web-push generate-vapid-keys で作成）
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || '';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export const isPushSupported = (): boolean =>
+  typeof window !== 'undefined'
+  && 'serviceWorker' in navigator
+  && 'PushManager' in window
+  && !!VAPID_PUBLIC_KEY;
+
+// Base64URL の公開鍵を PushManager が受け取る形にする
+const toUint8Array = (base64Url: string): Uint8Array<ArrayBuffer> => {
+  const base64 = (base64Url + '='.repeat((4 - base64Url.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+// この端末の購読（未購読・非対応なら null）
+export const currentPushSubscription = async (): Promise<PushSubscription | null> => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+// この端末でプッシュ通知を受け取る（通知の許可を得てから呼ぶ）
+export const subscribeToPush = async (userId: string): Promise<ApiResult<void>> => {
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: toUint8Array(VAPID_PUBLIC_KEY),
+    });
+
+  const { endpoint, keys } = subscription.toJSON();
+  const result = await pushSubscriptionsApi.upsert({
+    user_id: userId,
+    endpoint: endpoint!,
+    p256dh: keys!.p256dh,
+    auth: keys!.auth,
+    user_agent: navigator.userAgent,
+  });
+  return result.ok ? ok(undefined) : result;
+};
+
+// この端末のプッシュ通知をやめる
+export const unsubscribeFromPush = async (): Promise<ApiResult<void>> => {
+  const subscription = await currentPushSubscription();
+  if (!subscription) return ok(undefined);
+
+  const result = await pushSubscriptionsApi.remove(subscription.endpoint);
+  await subscription.unsubscribe();
+  return result;
+};
@@ -0,0 +1,109 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { DbContact } from './supabase';
+
+// contacts テーブルの変更通知
+export type ContactChange =
+  | { type: 'INSERT' | 'UPDATE'; row: DbContact }
+  | { type: 'DELETE'; id: string };
+
+export interface ContactSubscription {
+  unsubscribe: () => void;
+  // 接続が切れていれば張り直す（スリープ復帰・オンライン復帰時に呼ぶ）
+  ensureConnected: () => void;
+}
+
+const MAX_RETRY_DELAY_MS = 30000;
+
+// ユーザーの contacts の変更を購読する
+// 再接続に成功したときは、切断中の取りこぼしを埋めるため onResync を呼ぶ
+export function subscribeToContacts(
+  userId: string,
+  onChange: (change: ContactChange) => void,
+  onResync: () => void
+): ContactSubscription {
+  let channel: RealtimeChannel | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryCount = 0;
+  let hasConnected = false;
+  let closed = false;
+
+  const connect = () => {
+    if (!supabase || closed) return;
+
+    const userFilter = `user_id=eq.${userId}`;
+    const current = supabase
+      .channel(`contacts:${userId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'contacts', filter: userFilter }, payload => {
+        onChange({ type: 'INSERT', row: payload.new as DbContact });
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'contacts', filter: userFilter }, payload => {
+        const row = payload.new as DbContact;
+        // ゴミ箱への移動は一覧から消えるため削除として通知する（復元は通常の UPDATE として届く）
+        if (row.deleted_at && row.id) {
+          onChange({ type: 'DELETE', id: row.id });
+        } else {
+          onChange({ type: 'UPDATE', row });
+        }
+      })
+      // DELETE はフィルタ指定できず主キーのみ届くため、全件を受けて ID で照合する
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'contacts' }, payload => {
+        const id = (payload.old as Partial<DbContact>).id;
+        if (id) onChange({ type: 'DELETE', id });
+      });
+
+    channel = current;
+    current.subscribe(status => {
+      // 張り直し前の古いチャンネルからの通知は無視
+      if (channel !== current) return;
+
+      if (status === 'SUBSCRIBED') {
+        if (hasConnected) onResync();
+        hasConnected = true;
+        retryCount = 0;
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        scheduleReconnect();
+      }
+    });
+  };
+
+  const reconnect = () => {
+    if (channel) {
+      const old = channel;
+      channel = null;
+      supabase?.removeChannel(old);
+    }
+    connect();
+  };
+
+  // 指数バックオフで再接続
+  const scheduleReconnect = () => {
+    if (closed || retryTimer) return;
+    const delay = Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** retryCount);
+    retryCount++;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      reconnect();
+    }, delay);
+  };
+
+  connect();
+
+  return {
+    unsubscribe: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      if (channel) {
+        const old = channel;
+        channel = null;
+        supabase?.removeChannel(old);
+      }
+    },
+    ensureConnected: () => {
+      if (closed || retryTimer) return;
+      if (!channel || channel.state !== 'joined') {
+        reconnect();
+      }
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeRecurrence, expandOccurrences, formatRRule, nextOccurrence, parseRRule, withMonthDay } from './recurrence';
+import type { RecurrenceRule } from './recurrence';
+
+const ruleOf = (text: string): RecurrenceRule => {
+  const rule = parseRRule(text);
+  assert.ok(rule, text);
+  return rule;
+};
+
+const datesOf = (rule: RecurrenceRule, anchor: string, limit: number, holidays = []) =>
+  expandOccurrences(rule, anchor, anchor, limit, holidays).map(o => o.date);
+
+test('parseRRule は対応する項目を読み、formatRRule で同じ文字列に戻る', () => {
+  const rule = ruleOf('RRULE:FREQ=MONTHLY;BYDAY=2TU;X-SHIFT=BUSINESSDAY');
+  assert.deepEqual(rule.byDay, [{ weekday: 2, ordinal: 2 }]);
+  assert.equal(rule.shiftToBusinessDay, true);
+  assert.equal(formatRRule(rule), 'FREQ=MONTHLY;BYDAY=2TU;X-SHIFT=BUSINESSDAY');
+  assert.equal(formatRRule(ruleOf('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20261231')), 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20261231');
+});
+
+test('parseRRule は解釈できないルールに null を返す', () => {
+  assert.equal(parseRRule(''), null);
+  assert.equal(parseRRule('FREQ=HOURLY'), null);
+  assert.equal(parseRRule('FREQ=WEEKLY;BYDAY=2TU'), null); // 第N は MONTHLY / YEARLY のみ
+  assert.equal(parseRRule('FREQ=MONTHLY;BYMONTHDAY=0'), null);
+  assert.equal(parseRRule('FREQ=DAILY;UNTIL=20261231;COUNT=3'), null);
+  assert.equal(parseRRule('FREQ=DAILY;FOO=1'), null);
+});
+
+test('毎月第2火曜', () => {
+  const rule = ruleOf('FREQ=MONTHLY;BYDAY=2TU');
+  assert.deepEqual(datesOf(rule, '2026-10-13', 3), ['2026-11-10', '2026-12-08', '2027-01-12']);
+  assert.equal(describeRecurrence(rule), '毎月第2火曜日');
+});
+
+test('月末は各月の末日', () => {
+  const rule = ruleOf('FREQ=MONTHLY;BYMONTHDAY=-1');
+  assert.deepEqual(datesOf(rule, '2026-01-31', 3), ['2026-02-28', '2026-03-31', '2026-04-30']);
+  assert.equal(describeRecurrence(rule), '毎月末日');
+});
+
+test('平日毎日は、祝日と会社の休日に当たる回を翌営業日に進める', () => {
+  const rule = ruleOf('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;X-SHIFT=BUSINESSDAY');
+  // 2026-11-03（火）は文化の日
+  assert.deepEqual(datesOf(rule, '2026-11-02', 4), ['2026-11-04', '2026-11-05', '2026-11-06', '2026-11-09']);
+  assert.deepEqual(
+    expandOccurrences(rule, '2026-11-02', '2026-11-02', 1, [{ date: '2026-11-04', name: '創立記念日' }]),
+    [{ anchor: '2026-11-03', date: '2026-11-05' }]
+  );
+  assert.equal(describeRecurrence(rule), '平日毎日（休日は翌営業日）');
+});
+
+test('隔週 月・木', () => {
+  const rule = ruleOf('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+  assert.deepEqual(datesOf(rule, '2026-10-19', 5), ['2026-10-22', '2026-11-02', '2026-11-05', '2026-11-16', '2026-11-19']);
+  assert.equal(describeRecurrence(rule), '隔週 月・木曜日');
+});
+
+test('四半期ごとは開始日の日を保ち、その日がない月は末日にする', () => {
+  const rule = withMonthDay(ruleOf('FREQ=MONTHLY;INTERVAL=3'), '2026-01-31');
+  assert.equal(formatRRule(rule), 'FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=28,29,30,31;BYSETPOS=-1');
+  assert.deepEqual(datesOf(rule, '2026-01-31', 4), ['2026-04-30', '2026-07-31', '2026-10-31', '2027-01-31']);
+  assert.equal(describeRecurrence(rule), '四半期ごとの31日（ない月は末日）');
+  assert.equal(describeRecurrence(withMonthDay(ruleOf('FREQ=MONTHLY;INTERVAL=3'), '2026-01-15')), '四半期ごとの15日');
+});
+
+test('毎月31日の繰り返しは、2月の回の後も31日に戻る', () => {
+  const rule = withMonthDay(ruleOf('FREQ=MONTHLY'), '2026-01-31');
+  const february = nextOccurrence(rule, '2026-01-31', '2026-01-31');
+  assert.deepEqual(february, { anchor: '2026-02-28', date: '2026-02-28' });
+  assert.deepEqual(nextOccurrence(rule, february!.anchor, '2026-02-28'), { anchor: '2026-03-31', date: '2026-03-31' });
+  assert.equal(describeRecurrence(rule), '毎月31日（ない月は末日）');
+});
+
+test('withMonthDay は日を指定したルールや毎週のルールを変えない', () => {
+  for (const text of ['FREQ=MONTHLY;BYDAY=2TU', 'FREQ=MONTHLY;BYMONTHDAY=-1', 'FREQ=WEEKLY']) {
+    const rule = ruleOf(text);
+    assert.equal(withMonthDay(rule, '2026-01-31'), rule);
+  }
+  assert.equal(formatRRule(withMonthDay(ruleOf('FREQ=YEARLY'), '2028-02-29')), 'FREQ=YEARLY;BYMONTHDAY=28,29;BYSETPOS=-1');
+});
+
+test('nextOccurrence は遅れて完了すると過ぎた回を飛ばし、COUNT に達すると null', () => {
+  const rule = ruleOf('FREQ=MONTHLY;BYDAY=2TU');
+  assert.deepEqual(nextOccurrence(rule, '2026-10-13', '2026-11-20'), { anchor: '2026-12-08', date: '2026-12-08' });
+  assert.deepEqual(
+    nextOccurrence(rule, '2026-10-13', '2026-10-13', [], { completedCount: 0, pausedUntil: '2027-01-01' }),
+    { anchor: '2027-01-12', date: '2027-01-12' }
+  );
+  assert.equal(nextOccurrence(ruleOf('FREQ=MONTHLY;BYDAY=2TU;COUNT=3'), '2026-10-13', '2026-10-13', [], { completedCount: 2 }), null);
+});
@@ -0,0 +1,447 @@
+import { actualDeadline } from './contacts';
+import type { Contact } from './contacts';
+import { addDays, daysInMonth, formatDate, parseDate } from './dates';
+import { rollToBusinessDay } from './holidays';
+import type { CompanyHoliday } from './holidays';
+
+// 繰り返しのルール（RFC 5545 の RRULE。contacts.recurrence_rule に文字列で保存する）
+// 対応する項目：FREQ（DAILY / WEEKLY / MONTHLY / YEARLY）、INTERVAL、BYDAY、BYMONTHDAY、BYMONTH、BYSETPOS、WKST、UNTIL、COUNT
+// 独自の項目 X-SHIFT=BUSINESSDAY は、休日に当たる回を翌営業日に進める（lib/holidays.ts）
+// 開始日（DTSTART）は保存せず、現在の回の本来の日付（contacts.recurrence_anchor）を起点に次の回を求める
+// そのため MONTHLY / YEARLY で日を指定しないルールは、作るときに開始日の日を BYMONTHDAY に書き込む（withMonthDay）
+// COUNT は完了した回数（contacts.occurrence_count）で数える
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdayNum {
+  weekday: number; // 0-6（日曜-土曜）
+  ordinal?: number; // 第N（1〜5）。負の値は最後から数える（-1 = 最終）。MONTHLY / YEARLY のみ
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: WeekdayNum[];
+  byMonthDay: number[]; // 1〜31。負の値は月末から数える（-1 = 末日）
+  byMonth: number[]; // 1〜12
+  bySetPos: number[]; // 期間内の候補から何番目を使うか（-1 = 最後）
+  weekStart: number; // WKST（週の始まりの曜日）
+  shiftToBusinessDay: boolean; // X-SHIFT=BUSINESSDAY
+  until?: string; // UNTIL（この日まで。YYYY-MM-DD）
+  count?: number; // COUNT（全N回）
+}
+
+// 以前の保存形式（recurring / recurringDays / recurringWeekday）
+export interface LegacyRecurrence {
+  recurring?: string;
+  recurringDays?: number;
+  recurringWeekday?: number;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAYS = [1, 2, 3, 4, 5]; // 平日（月〜金）
+
+// 条件に合う日が見つからないルール（2月31日など）で無限に探さないための上限（期間の数）
+const MAX_PERIODS = 5000;
+
+export const createRule = (freq: RecurrenceFrequency, overrides: Partial<RecurrenceRule> = {}): RecurrenceRule => ({
+  freq,
+  interval: 1,
+  byDay: [],
+  byMonthDay: [],
+  byMonth: [],
+  bySetPos: [],
+  weekStart: 1,
+  shiftToBusinessDay: false,
+  ...overrides
+});
+
+const parseIntList = (value: string, min: number, max: number): number[] | null => {
+  const numbers = value.split(',').map(v => Number(v));
+  const valid = numbers.every(n => Number.isInteger(n) && n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max);
+  return valid ? numbers : null;
+};
+
+// RRULE 文字列を読み取る（先頭の "RRULE:" は省略可）。解釈できない場合は null
+export const parseRRule = (text: string): RecurrenceRule | null => {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (!body) return null;
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(';')) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || parts.has(key.toUpperCase())) return null;
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) return null;
+  const rule = createRule(freq);
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL': {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1) return null;
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY': {
+        for (const item of value.split(',')) {
+          const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) return null;
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5 || (freq !== 'MONTHLY' && freq !== 'YEARLY'))) {
+            return null;
+          }
+          rule.byDay.push({ weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal });
+        }
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const days = parseIntList(value, 1, 31);
+        if (!days || freq === 'WEEKLY') return null;
+        rule.byMonthDay = days;
+        break;
+      }
+      case 'BYMONTH': {
+        const months = parseIntList(value, 1, 12);
+        if (!months || months.some(m => m < 0)) return null;
+        rule.byMonth = months;
+        break;
+      }
+      case 'BYSETPOS': {
+        const positions = parseIntList(value, 1, 366);
+        if (!positions) return null;
+        rule.bySetPos = positions;
+        break;
+      }
+      case 'UNTIL': {
+        const match = value.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+        if (!match || parts.has('COUNT')) return null;
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case 'COUNT': {
+        const count = Number(value);
+        if (!Number.isInteger(count) || count < 1) return null;
+        rule.count = count;
+        break;
+      }
+      case 'X-SHIFT':
+        if (value !== 'BUSINESSDAY') return null;
+        rule.shiftToBusinessDay = true;
+        break;
+      case 'WKST': {
+        const weekStart = WEEKDAY_CODES.indexOf(value);
+        if (weekStart < 0) return null;
+        rule.weekStart = weekStart;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  return rule;
+};
+
+// ルールを RRULE 文字列にする（既定値の項目は省く）
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.bySetPos.length > 0) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+  if (rule.shiftToBusinessDay) parts.push('X-SHIFT=BUSINESSDAY');
+  return parts.join(';');
+};
+
+// 以前の保存形式を RRULE に変換する（LocalStorage のデータの移行用。DB はマイグレーション 0012 で変換）
+export const legacyRecurrenceRule = (legacy: LegacyRecurrence): string | undefined => {
+  switch (legacy.recurring) {
+    case 'daily':
+      return 'FREQ=DAILY';
+    case 'weekly':
+      return legacy.recurringWeekday !== undefined && legacy.recurringWeekday !== null
+        ? `FREQ=WEEKLY;BYDAY=${WEEKDAY_CODES[legacy.recurringWeekday]}`
+        : 'FREQ=WEEKLY';
+    case 'monthly':
+      return 'FREQ=MONTHLY';
+    case 'custom':
+      return legacy.recurringDays && legacy.recurringDays > 0
+        ? formatRRule(createRule('DAILY', { interval: legacy.recurringDays }))
+        : undefined;
+    default:
+      return undefined;
+  }
+};
+
+// 連絡先に保存された繰り返しのルール（未設定・解釈できない値は null）
+export const recurrenceOf = (contact: { recurrenceRule?: string }): RecurrenceRule | null =>
+  contact.recurrenceRule ? parseRRule(contact.recurrenceRule) : null;
+
+// 現在の回の本来の日付（recurrence_anchor がない以前のデータは期日）
+export const recurrenceAnchorOf = (contact: Contact): string => contact.recurrenceAnchor || actualDeadline(contact);
+
+const utcDate = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+
+// 1か月の中で条件に合う日（BYMONTHDAY と BYDAY の両方があれば両方に合う日）
+// どちらもなければ起点日と同じ日（その月にない日は末日にする。withMonthDay を通していない以前のルール用）
+const daysInMonthMatching = (rule: RecurrenceRule, year: number, month: number, anchor: Date): number[] => {
+  const last = daysInMonth(year, month);
+
+  let days: number[] | null = null;
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay.map(d => d > 0 ? d : last + 1 + d).filter(d => d >= 1 && d <= last);
+  }
+  if (rule.byDay.length > 0) {
+    const byDay = new Set<number>();
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let d = 1; d <= last; d++) {
+        if (utcDate(year, month, d).getUTCDay() === weekday) matching.push(d);
+      }
+      if (ordinal === undefined) {
+        matching.forEach(d => byDay.add(d));
+      } else {
+        const d = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (d !== undefined) byDay.add(d);
+      }
+    }
+    days = days ? days.filter(d => byDay.has(d)) : [...byDay];
+  }
+  return days ?? [Math.min(anchor.getUTCDate(), last)];
+};
+
+// 日を指定しない MONTHLY / YEARLY のルールに、start の日を書き込む
+// 起点日は回ごとに進むため、書き込まないと31日の繰り返しが2月の後は28日のままになる
+// 29〜31日は、その日がない月は末日になるよう BYMONTHDAY=28,…,31;BYSETPOS=-1 にする
+export const withMonthDay = (rule: RecurrenceRule, start: string): RecurrenceRule => {
+  if ((rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') || rule.byMonthDay.length > 0 || rule.byDay.length > 0 || rule.bySetPos.length > 0) {
+    return rule;
+  }
+  const day = Number(start.slice(8, 10));
+  if (day <= 28) return { ...rule, byMonthDay: [day] };
+  return { ...rule, byMonthDay: Array.from({ length: day - 27 }, (_, i) => 28 + i), bySetPos: [-1] };
+};
+
+// withMonthDay が書き込んだ「29〜31日（ない月は末日）」の日（それ以外のルールは undefined）
+const clampedMonthDayOf = (rule: RecurrenceRule): number | undefined => {
+  const days = rule.byMonthDay;
+  const clamped = rule.byDay.length === 0
+    && rule.bySetPos.length === 1 && rule.bySetPos[0] === -1
+    && days.length >= 2 && days.every((d, i) => d === 28 + i);
+  return clamped ? days[days.length - 1] : undefined;
+};
+
+// k 番目の期間（日・週・月・年）に含まれる候補日（昇順。BYSETPOS 適用後）
+const candidatesInPeriod = (rule: RecurrenceRule, anchor: Date, k: number): Date[] => {
+  const step = k * rule.interval;
+  let candidates: Date[] = [];
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = utcDate(anchor.getUTCFullYear(), anchor.getUTCMonth(), anchor.getUTCDate() + step);
+      const weekdays = rule.byDay.map(d => d.weekday);
+      const monthDays = rule.byMonthDay.map(d => d > 0 ? d : daysInMonth(day.getUTCFullYear(), day.getUTCMonth()) + 1 + d);
+      if ((weekdays.length === 0 || weekdays.includes(day.getUTCDay()))
+        && (monthDays.length === 0 || monthDays.includes(day.getUTCDate()))) {
+        candidates = [day];
+      }
+      break;
+    }
+    case 'WEEKLY': {
+      const offset = (anchor.getUTCDay() - rule.weekStart + 7) % 7;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(d => d.weekday) : [anchor.getUTCDay()];
+      for (let i = 0; i < 7; i++) {
+        const day = utcDate(anchor.getUTCFullYear(), anchor.getUTCMonth(), anchor.getUTCDate() - offset + step * 7 + i);
+        if (weekdays.includes(day.getUTCDay())) candidates.push(day);
+      }
+      break;
+    }
+    case 'MONTHLY': {
+      const month = utcDate(anchor.getUTCFullYear(), anchor.getUTCMonth() + step, 1);
+      candidates = daysInMonthMatching(rule, month.getUTCFullYear(), month.getUTCMonth(), anchor)
+        .map(d => utcDate(month.getUTCFullYear(), month.getUTCMonth(), d));
+      break;
+    }
+    case 'YEARLY': {
+      // BYDAY の「第N」は年ではなく各月の中で数える
+      const year = anchor.getUTCFullYear() + step;
+      const months = rule.byMonth.length > 0 ? rule.byMonth.map(m => m - 1) : [anchor.getUTCMonth()];
+      for (const month of months) {
+        daysInMonthMatching(rule, year, month, anchor).forEach(d => candidates.push(utcDate(year, month, d)));
+      }
+      break;
+    }
+  }
+
+  if (rule.byMonth.length > 0) {
+    candidates = candidates.filter(day => rule.byMonth.includes(day.getUTCMonth() + 1));
+  }
+  candidates.sort((a, b) => a.getTime() - b.getTime());
+  if (rule.bySetPos.length > 0) {
+    candidates = rule.bySetPos
+      .map(pos => pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos])
+      .filter((day): day is Date => day !== undefined)
+      .sort((a, b) => a.getTime() - b.getTime());
+  }
+  return candidates;
+};
+
+// 繰り返しの1回分。anchor はルール上の本来の日付、date は休日をずらした後の期日
+export interface Occurrence {
+  anchor: string;
+  date: string;
+}
+
+// 繰り返しの進み具合（COUNT と一時停止の判定に使う）
+export interface SeriesProgress {
+  completedCount: number; // これまでに完了した回数
+  pausedUntil?: string; // この日より前の回は飛ばす
+}
+
+// 起点日（ルール上の本来の日付）より後の回のうち、期日が after より後のものを最大 limit 件返す
+// UNTIL を過ぎた回は含めない。X-SHIFT=BUSINESSDAY の場合は、休日（土日・祝日・companyHolidays）に当たる回を翌営業日に進める
+export const expandOccurrences = (
+  rule: RecurrenceRule,
+  anchor: string,
+  after: string,
+  limit: number,
+  companyHolidays: CompanyHoliday[] = []
+): Occurrence[] => {
+  const anchorDate = parseDate(anchor);
+  const occurrences: Occurrence[] = [];
+  for (let k = 0; k < MAX_PERIODS && occurrences.length < limit; k++) {
+    for (const day of candidatesInPeriod(rule, anchorDate, k)) {
+      const raw = formatDate(day);
+      if (rule.until && raw > rule.until) return occurrences;
+      const date = rule.shiftToBusinessDay ? rollToBusinessDay(raw, companyHolidays) : raw;
+      if (raw > anchor && date > after && !occurrences.some(o => o.date === date)) {
+        occurrences.push({ anchor: raw, date });
+      }
+      if (occurrences.length >= limit) break;
+    }
+  }
+  return occurrences;
+};
+
+export const expandRecurrence = (
+  rule: RecurrenceRule,
+  anchor: string,
+  after: string,
+  limit: number,
+  companyHolidays: CompanyHoliday[] = []
+): string[] => expandOccurrences(rule, anchor, after, limit, companyHolidays).map(o => o.date);
+
+const dayBefore = (date: string) => addDays(date, -1);
+
+// 現在の回の後に残っている回数（COUNT がなければ上限なし）
+const remainingCount = (rule: RecurrenceRule, progress: SeriesProgress) =>
+  rule.count === undefined ? Infinity : Math.max(0, rule.count - progress.completedCount - 1);
+
+// 現在の回の後に続く回（シリーズの表示用）。一時停止中の回は飛ばす
+export const upcomingOccurrences = (
+  rule: RecurrenceRule,
+  anchor: string,
+  limit: number,
+  companyHolidays: CompanyHoliday[] = [],
+  progress: SeriesProgress = { completedCount: 0 }
+): Occurrence[] => {
+  const after = progress.pausedUntil && dayBefore(progress.pausedUntil) > anchor ? dayBefore(progress.pausedUntil) : anchor;
+  return expandOccurrences(rule, anchor, after, Math.min(limit, remainingCount(rule, progress)), companyHolidays);
+};
+
+// 現在の回（本来の日付 anchor）を完了したときの次の回
+// 遅れて完了した場合は過ぎた回を、一時停止中は再開日より前の回を飛ばす。UNTIL・COUNT で終わっていれば null
+export const nextOccurrence = (
+  rule: RecurrenceRule,
+  anchor: string,
+  today: string,
+  companyHolidays: CompanyHoliday[] = [],
+  progress: SeriesProgress = { completedCount: 0 }
+): Occurrence | null => {
+  if (remainingCount(rule, progress) === 0) return null;
+  const candidates = [anchor, today, progress.pausedUntil ? dayBefore(progress.pausedUntil) : ''];
+  const after = candidates.reduce((latest, date) => date > latest ? date : latest);
+  return expandOccurrences(rule, anchor, after, 1, companyHolidays)[0] ?? null;
+};
+
+const describeWeekdays = (weekdays: number[]) => {
+  const sorted = [...new Set(weekdays)].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)); // 月曜始まりで並べる
+  if (sorted.length === WEEKDAYS.length && WEEKDAYS.every(d => sorted.includes(d))) return '平日';
+  return `${sorted.map(d => WEEKDAY_LABELS[d]).join('・')}曜日`;
+};
+
+const describeDays = (rule: RecurrenceRule): string => {
+  const clampedDay = clampedMonthDayOf(rule);
+  if (clampedDay !== undefined) return `${clampedDay}日（ない月は末日）`;
+
+  const parts: string[] = [];
+  if (rule.byMonthDay.length > 0) {
+    parts.push(rule.byMonthDay.map(d => d === -1 ? '末日' : d < 0 ? `末日の${-d - 1}日前` : `${d}日`).join('・'));
+  }
+  if (rule.byDay.length > 0) {
+    const withOrdinal = rule.byDay.filter(d => d.ordinal !== undefined);
+    const plain = rule.byDay.filter(d => d.ordinal === undefined).map(d => d.weekday);
+    withOrdinal.forEach(({ weekday, ordinal }) => {
+      const position = ordinal === -1 ? '最終' : ordinal! < 0 ? `最後から${-ordinal!}番目の` : `第${ordinal}`;
+      parts.push(`${position}${WEEKDAY_LABELS[weekday]}曜日`);
+    });
+    if (plain.length > 0) parts.push(describeWeekdays(plain));
+  }
+  const text = parts.join('・');
+  if (rule.bySetPos.length === 0) return text;
+  const positions = rule.bySetPos.map(pos => pos === -1 ? '最後' : pos < 0 ? `最後から${-pos}番目` : `${pos}番目`);
+  return `${text}の${positions.join('・')}`;
+};
+
+const describeSchedule = (rule: RecurrenceRule): string => {
+  const days = describeDays(rule);
+  const months = rule.byMonth.length > 0 ? `${rule.byMonth.join('・')}月` : '';
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      if (rule.interval === 1 && days === '平日') return '平日毎日';
+      const every = rule.interval === 1 ? '毎日' : `${rule.interval}日ごと`;
+      return [every, months, days].filter(Boolean).join(' ');
+    }
+    case 'WEEKLY': {
+      if (rule.interval === 1 && days === '平日') return '平日毎日';
+      const every = rule.interval === 1 ? '毎週' : rule.interval === 2 ? '隔週' : `${rule.interval}週ごと`;
+      return [every, months, days].filter(Boolean).join(' ');
+    }
+    case 'MONTHLY': {
+      if (rule.interval === 3 && !months) return `四半期ごと${days ? `の${days}` : ''}`;
+      const every = rule.interval === 1 ? '毎月' : `${rule.interval}か月ごと${days ? 'の' : ''}`;
+      return `${every}${days}${months ? `（${months}）` : ''}`;
+    }
+    case 'YEARLY': {
+      const every = rule.interval === 1 ? '毎年' : `${rule.interval}年ごと`;
+      return `${every}${months}${days}`;
+    }
+  }
+};
+
+// 画面表示用の文言（例：「毎月第2火曜日」「隔週 月・木曜日」「四半期ごと」「毎月末日（休日は翌営業日）」）
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const text = describeSchedule(rule);
+  return rule.shiftToBusinessDay ? `${text}（休日は翌営業日）` : text;
+};
+
+// 終了条件の文言（例：「2026/12/31まで」「全10回」）。終了条件がなければ undefined
+export const describeRecurrenceEnd = (rule: RecurrenceRule): string | undefined => {
+  if (rule.until) return `${rule.until.replace(/-/g, '/')}まで`;
+  if (rule.count !== undefined) return `全${rule.count}回`;
+  return undefined;
+};
@@ -0,0 +1,189 @@
+import { actualDeadline } from './contacts';
+import type { Contact } from './contacts';
+import { addDays, formatDisplayDate, zonedDateTime } from './dates';
+
+// 期日の時刻の何分前に通知するか（0 は時刻ちょうど）
+export const REMINDER_OFFSET_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 0, label: '時刻ちょうど' },
+  { minutes: 10, label: '10分前' },
+  { minutes: 30, label: '30分前' },
+  { minutes: 60, label: '1時間前' },
+  { minutes: 120, label: '2時間前' },
+  { minutes: 1440, label: '前日の同じ時刻' },
+];
+
+// 通知の時刻を過ぎてから通知する猶予（画面を開いていなかった・定期ジョブの間隔のずれ）
+// 猶予を過ぎても期日の時刻より前なら通知する
+export const REMINDER_GRACE_MS = 15 * 60 * 1000;
+
+// 通知1回分（key で送信済みかを判定する）
+export interface Reminder {
+  key: string;
+  contactId: string;
+  offsetMinutes: number;
+  rule?: ReminderRule; // ルールの通知（時刻の通知はなし）
+  dueAt: Date; // 期日の日時（ルールの通知は通知する日の終わり）
+  remindAt: Date; // 通知する日時
+}
+
+export const describeReminderOffset = (minutes: number): string =>
+  REMINDER_OFFSET_OPTIONS.find(o => o.minutes === minutes)?.label
+    ?? (minutes % 60 === 0 ? `${minutes / 60}時間前` : `${minutes}分前`);
+
+// 期日の日時（時刻がなければ null）。時刻は利用者のタイムゾーンでの時刻
+export const dueAtOf = (contact: Contact, timeZone: string): Date | null =>
+  contact.dueTime ? zonedDateTime(contact.deadline, contact.dueTime, timeZone) : null;
+
+// 期日・時刻を変えると別の通知になるよう、key に期日の日時を含める
+export const reminderKey = (contactId: string, dueAt: Date, offsetMinutes: number) =>
+  `${contactId}:${dueAt.toISOString()}:${offsetMinutes}`;
+
+// 連絡先の通知（未完了で時刻のあるもののみ）
+export const remindersOf = (contact: Contact, timeZone: string): Reminder[] => {
+  const dueAt = dueAtOf(contact, timeZone);
+  if (!dueAt || contact.status !== 'pending' || contact.deletedAt) return [];
+  return [...new Set(contact.reminderOffsets || [])].map(offsetMinutes => ({
+    key: reminderKey(contact.id, dueAt, offsetMinutes),
+    contactId: contact.id,
+    offsetMinutes,
+    dueAt,
+    remindAt: new Date(dueAt.getTime() - offsetMinutes * 60 * 1000),
+  }));
+};
+
+// 期日を基準にした通知のルール（連絡先ごと、またはカテゴリの既定）
+//   before:N … 期日の N 日前の朝、day … 期日の朝、overdue … 期限切れのあいだ毎朝
+export type ReminderRule = `before:${number}` | 'day' | 'overdue';
+
+export const MAX_REMINDER_DAYS_BEFORE = 30;
+
+export const REMINDER_RULE_OPTIONS: { rule: ReminderRule; label: string }[] = [
+  { rule: 'before:7', label: '1週間前' },
+  { rule: 'before:3', label: '3日前' },
+  { rule: 'before:1', label: '前日' },
+  { rule: 'day', label: '当日' },
+  { rule: 'overdue', label: '期限切れの間は毎日' },
+];
+
+const daysBeforeOf = (rule: string): number | null => {
+  const match = /^before:(\d{1,2})$/.exec(rule);
+  const days = match ? Number(match[1]) : 0;
+  return days >= 1 && days <= MAX_REMINDER_DAYS_BEFORE ? days : null;
+};
+
+export const isReminderRule = (value: string): value is ReminderRule =>
+  value === 'day' || value === 'overdue' || daysBeforeOf(value) !== null;
+
+// 通知の早い順（◯日前 → 当日 → 期限切れ）
+const ruleOrder = (rule: ReminderRule) => rule === 'day' ? 0 : rule === 'overdue' ? 1 : -daysBeforeOf(rule)!;
+
+// 不正なルールを除き、重複をなくして通知の早い順に並べる
+export const normalizeReminderRules = (rules: readonly unknown[]): ReminderRule[] =>
+  [...new Set(rules)]
+    .filter((rule): rule is ReminderRule => typeof rule === 'string' && isReminderRule(rule))
+    .sort((a, b) => ruleOrder(a) - ruleOrder(b));
+
+export const describeReminderRule = (rule: ReminderRule): string =>
+  REMINDER_RULE_OPTIONS.find(o => o.rule === rule)?.label ?? `${daysBeforeOf(rule)}日前`;
+
+// カテゴリごとの既定のルール（カテゴリ → ルール。user_settings.category_reminder_rules）
+export type CategoryReminderRules = Record<string, ReminderRule[]>;
+
+export const normalizeCategoryReminderRules = (value: unknown): CategoryReminderRules =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? Object.fromEntries(Object.entries(value)
+      .filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]))
+      .map(([category, rules]) => [category, normalizeReminderRules(rules)]))
+    : {};
+
+// 連絡先にもカテゴリにもルールがなければ、時刻のない連絡先だけ当日と期限切れの間の朝に通知する
+// （時刻のある連絡先は「◯分前」の通知のみ）
+export const DEFAULT_REMINDER_RULES: ReminderRule[] = ['day', 'overdue'];
+
+// 連絡先に適用するルール（連絡先の設定 → カテゴリの既定 → 既定の順）
+export const reminderRulesOf = (
+  contact: Pick<Contact, 'reminderRules' | 'category' | 'dueTime'>,
+  defaults: CategoryReminderRules = {}): ReminderRule[] => {
+  if (contact.reminderRules) return normalizeReminderRules(contact.reminderRules);
+  return defaults[contact.category || 'customer'] ?? (contact.dueTime ? [] : DEFAULT_REMINDER_RULES);
+};
+
+// ルールの通知は、その日の RULE_REMINDER_TIME からその日のうちに1回送る
+export const RULE_REMINDER_TIME = '09:00';
+export const RULE_REMINDER_OFFSET = -1; // 送信記録（reminder_deliveries.offset_minutes）で時刻の通知と区別する
+
+const ruleReminderOn = (contact: Contact, rule: ReminderRule, date: string, timeZone: string): Reminder => ({
+  key: `${contact.id}:${date}:${rule}`,
+  contactId: contact.id,
+  offsetMinutes: RULE_REMINDER_OFFSET,
+  rule,
+  dueAt: zonedDateTime(addDays(date, 1), '00:00', timeZone), // その日の終わり
+  remindAt: zonedDateTime(date, RULE_REMINDER_TIME, timeZone),
+});
+
+// ルールの通知（未完了のもののみ）。期限切れの連絡先は本日に繰り越されているため、期限切れの通知は本日になる
+export const ruleRemindersOf = (contact: Contact, timeZone: string, rules: ReminderRule[]): Reminder[] => {
+  if (contact.status !== 'pending' || contact.deletedAt) return [];
+  return rules.flatMap(rule => {
+    if (rule === 'overdue') return contact.isOverdue ? [ruleReminderOn(contact, rule, contact.deadline, timeZone)] : [];
+    const date = addDays(actualDeadline(contact), rule === 'day' ? 0 : -daysBeforeOf(rule)!);
+    return [ruleReminderOn(contact, rule, date, timeZone)];
+  });
+};
+
+// 連絡先の通知すべて（時刻の◯分前と、ルールの通知）
+export const allRemindersOf = (contact: Contact, timeZone: string, defaults: CategoryReminderRules = {}): Reminder[] =>
+  [...remindersOf(contact, timeZone), ...ruleRemindersOf(contact, timeZone, reminderRulesOf(contact, defaults))];
+
+// いま通知する時刻になっているか（猶予を過ぎた古い通知は送らない）
+export const isReminderDue = (reminder: Reminder, now: Date = new Date()): boolean =>
+  reminder.remindAt <= now
+  && now.getTime() < Math.max(reminder.remindAt.getTime() + REMINDER_GRACE_MS, reminder.dueAt.getTime());
+
+const formatDay = (date: string) => formatDisplayDate(date, { month: 'numeric', day: 'numeric' });
+
+// 通知の本文（例：「15:00 田中様への連絡: 見積送付（30分前）」「田中様への連絡: 見積送付（10/22・3日前）」）
+export const describeReminder = (contact: Contact, reminder: Reminder): string => {
+  if (!reminder.rule) {
+    return `${contact.dueTime} ${contact.name}への連絡: ${contact.purpose}（${describeReminderOffset(reminder.offsetMinutes)}）`;
+  }
+  const when = reminder.rule === 'overdue'
+    ? `期限切れ・元の期日 ${formatDay(actualDeadline(contact))}`
+    : [
+      `${reminder.rule === 'day' ? '本日' : formatDay(actualDeadline(contact))}${contact.dueTime ? ` ${contact.dueTime}` : ''}`,
+      reminder.rule === 'day' ? '' : describeReminderRule(reminder.rule),
+    ].filter(Boolean).join('・');
+  return `${contact.name}への連絡: ${contact.purpose}（${when}）`;
+};
+
+// 通知の見出しと本文（画面の通知・サーバーからの通知で共通）
+export const reminderNotificationOf = (contact: Contact, reminder: Reminder): { title: string; body: string } => {
+  switch (reminder.rule) {
+    case 'day':
+      return { title: '期日管理システム - 本日の連絡', body: `${contact.name}への連絡: ${contact.purpose}${contact.dueTime ? `（${contact.dueTime}）` : ''}` };
+    case 'overdue':
+      return { title: '期日管理システム - 期限切れの連絡', body: describeReminder(contact, reminder) };
+    default:
+      return { title: '期日管理システム - まもなく期日', body: describeReminder(contact, reminder) };
+  }
+};
+
+// ブラウザで送信済みの通知（端末ごと。LocalStorage に保存し、古いものは捨てる）
+const SENT_STORAGE_KEY = 'sentReminders';
+const SENT_RETENTION_MS = 3 * 24 * 60 * 60 * 1000;
+
+const readSentReminders = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(SENT_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const wasReminderSent = (key: string): boolean => key in readSentReminders();
+
+export const markReminderSent = (key: string, now: Date = new Date()) => {
+  const cutoff = now.getTime() - SENT_RETENTION_MS;
+  const kept = Object.entries(readSentReminders()).filter(([, sentAt]) => new Date(sentAt).getTime() >= cutoff);
+  localStorage.setItem(SENT_STORAGE_KEY, JSON.stringify(Object.fromEntries([...kept, [key, now.toISOString()]])));
+};
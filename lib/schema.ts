@@ -0,0 +1,92 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DbContact } from './supabase';
+
+// DbContact の列（型から漏れなく列挙するため Record で定義する）
+const DB_CONTACT_COLUMN_MAP: Record<keyof DbContact, true> = {
+  id: true,
+  name: true,
+  purpose: true,
+  deadline: true,
+  due_time: true,
+  reminder_offsets: true,
+  reminder_rules: true,
+  status: true,
+  category: true,
+  priority: true,
+  recurrence_rule: true,
+  recurrence_anchor: true,
+  recurrence_paused_until: true,
+  occurrence_count: true,
+  order: true,
+  created_at: true,
+  updated_at: true,
+  completed_at: true,
+  user_id: true,
+  search_text: true,
+  deleted_at: true,
+  original_deadline: true,
+  postpone_count: true,
+  sort_deadline: true,
+  sort_due_time: true,
+};
+
+export const DB_CONTACT_COLUMNS = Object.keys(DB_CONTACT_COLUMN_MAP) as (keyof DbContact)[];
+
+// contacts テーブルと DbContact の照合結果
+export interface SchemaCheckResult {
+  ok: boolean;
+  missing: string[]; // DbContact にあってテーブルにない列
+  unexpected: string[]; // テーブルにあって DbContact にない列（旧列名など）
+  error?: string; // 照合自体ができなかった理由
+}
+
+// contact_columns() が存在しない（マイグレーション未適用）
+const isMissingFunction = (code?: string) => code === 'PGRST202' || code === '42883';
+
+// 実際の contacts の列を取得し、DbContact と照合する（サーバー側で実行）
+export async function verifyContactsSchema(client: SupabaseClient): Promise<SchemaCheckResult> {
+  const { data, error } = await client.rpc('contact_columns');
+
+  if (error) {
+    return {
+      ok: false,
+      missing: [],
+      unexpected: [],
+      error: isMissingFunction(error.code)
+        ? 'contact_columns() がありません'
+        : error.message,
+    };
+  }
+
+  const columns = ((data || []) as { column_name: string }[]).map(c => c.column_name);
+  if (columns.length === 0) {
+    return { ok: false, missing: [], unexpected: [], error: 'contacts テーブルがありません' };
+  }
+
+  const expected: string[] = DB_CONTACT_COLUMNS;
+  const missing = expected.filter(column => !columns.includes(column));
+  const unexpected = columns.filter(column => !expected.includes(column));
+  return { ok: missing.length === 0, missing, unexpected };
+}
+
+// 照合結果を画面に出すメッセージにする
+export const describeSchemaProblem = (result: SchemaCheckResult): string => {
+  const parts: string[] = [];
+  if (result.error) parts.push(result.error);
+  if (result.missing.length > 0) parts.push(`不足している列: ${result.missing.join(', ')}`);
+  if (result.unexpected.length > 0) parts.push(`不明な列: ${result.unexpected.join(', ')}`);
+  return `データベースのスキーマがアプリと一致していません（${parts.join(' / ')}）。supabase/migrations のSQLを番号順に適用してください。`;
+};
+
+// 画面から /api/schema を呼び、不一致があればメッセージを返す
+// 確認できない場合（オフライン・未デプロイ等）は読み込みを妨げないよう null を返す
+export async function fetchSchemaProblem(): Promise<string | null> {
+  try {
+    const response = await fetch('/api/schema');
+    if (!response.ok) return null;
+    const result: SchemaCheckResult = await response.json();
+    return result.ok ? null : describeSchemaProblem(result);
+  } catch {
+    return null;
+  }
+}
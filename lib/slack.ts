@@ -0,0 +1,43 @@
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+
+// Slack からのリクエストの検証（https://api.slack.com/authentication/verifying-requests-from-slack）
+// サーバー専用（Node の crypto を使う）
+
+// 古いリクエストの再送（リプレイ）を受け付けない
+export const SLACK_REQUEST_MAX_AGE_SECONDS = 5 * 60;
+
+// リクエスト本文の署名（X-Slack-Signature と同じ形式）。ローカルで偽の Slack リクエストを作るときにも使う
+export const signSlackRequest = (signingSecret: string, timestamp: string, body: string): string =>
+  `v0=${createHmac('sha256', signingSecret).update(`v0:${timestamp}:${body}`).digest('hex')}`;
+
+// X-Slack-Request-Timestamp と X-Slack-Signature が、Signing Secret で署名した本文と一致するか
+export const verifySlackRequest = (
+  signingSecret: string,
+  timestamp: string | null,
+  signature: string | null,
+  body: string,
+  now = Date.now()
+): boolean => {
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(now / 1000 - Number(timestamp)) > SLACK_REQUEST_MAX_AGE_SECONDS) return false;
+
+  const expected = Buffer.from(signSlackRequest(signingSecret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// Slack との連携（0025_slack_link_verification.sql）。リンクと確認コードの有効期限と、確認コードの入力を受け付ける回数
+export const SLACK_LINK_TTL_MINUTES = 15;
+export const SLACK_LINK_MAX_ATTEMPTS = 5;
+
+// 確認コード（6桁の数字。アプリで表示し、Slack で /deadline link <コード> と入力する）
+export const createSlackVerificationCode = (): string => String(randomInt(0, 1_000_000)).padStart(6, '0');
+
+// ボタンを押したときに Slack から届く内容（block_actions）のうち使う部分
+export interface SlackBlockActionsPayload {
+  type: 'block_actions';
+  team?: { id: string };
+  user: { id: string; username?: string; name?: string; team_id?: string };
+  response_url: string;
+  actions: { action_id: string; value?: string }[];
+}
@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { linkCodeOf, parseSlashCommand } from './slashCommand';
+
+test('linkCodeOf は連携の確認コードを取り出す', () => {
+  assert.equal(linkCodeOf('link 012345'), '012345');
+  assert.equal(linkCodeOf(' 連携　987654 '), '987654');
+  assert.equal(linkCodeOf('LINK 123456'), '123456');
+});
+
+test('linkCodeOf は形式の違うコードを空文字にする', () => {
+  assert.equal(linkCodeOf('link'), '');
+  assert.equal(linkCodeOf('link 12345'), '');
+  assert.equal(linkCodeOf('link 123456 extra'), '');
+});
+
+test('linkCodeOf はほかのコマンドを null にする', () => {
+  assert.equal(linkCodeOf('today'), null);
+  assert.equal(linkCodeOf('add 田中様 link 123456'), null);
+  assert.equal(parseSlashCommand('today', '2026-10-19').kind, 'today');
+});
@@ -0,0 +1,113 @@
+import type { ContactPriority, NewContact } from './contacts';
+import { addDays, daysInMonth, parseDate } from './dates';
+
+// Slack のスラッシュコマンド（/deadline）の解釈
+//   /deadline add 田中様 見積送付 明日 A   … 連絡先を追加（期日・優先度は省略可。省略時は今日・C）
+//   /deadline today                       … 今日の期日と期限切れを表示
+//   /deadline help                        … 使い方
+//   /deadline link 123456                 … アプリで承認した連携を確定する（確認コードはアプリの設定画面に表示）
+
+export type SlashCommand =
+  | { kind: 'add'; contact: NewContact }
+  | { kind: 'today' }
+  | { kind: 'help' }
+  | { kind: 'error'; message: string };
+
+export const SLASH_COMMAND_USAGE = [
+  '*使い方*',
+  '• `/deadline add 田中様 見積送付 明日 A` … 連絡先を追加（名前・目的・期日・優先度。期日と優先度は省略可）',
+  '• `/deadline today` … 今日の期日と期限切れを表示',
+  '期日は 今日・明日・明後日・来週・3日後・10/25・2025-10-25 のように書けます',
+].join('\n');
+
+// 連携の確認（/deadline link <確認コード>）ならコード、ほかのコマンドなら null（コードの形式が違えば空文字）
+export const linkCodeOf = (text: string): string | null => {
+  const [subcommand = '', code = '', ...rest] = text.trim().split(/[\s　]+/).filter(Boolean);
+  if (!['link', '連携'].includes(subcommand.toLowerCase())) return null;
+  return /^\d{6}$/.test(code) && rest.length === 0 ? code : '';
+};
+
+const RELATIVE_DAYS: Record<string, number> = { 今日: 0, 本日: 0, 明日: 1, 明後日: 2, 来週: 7 };
+
+// 期日の書き方を YYYY-MM-DD にする（解釈できなければ null）
+// 月/日 は今日以降で最も近い日（過ぎていれば来年）
+export const parseDeadline = (text: string, today: string): string | null => {
+  if (text in RELATIVE_DAYS) return addDays(today, RELATIVE_DAYS[text]);
+
+  const relative = text.match(/^(\d{1,3})日後$/);
+  if (relative) return addDays(today, Number(relative[1]));
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    const date = parseDate(text);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === text ? text : null;
+  }
+
+  const monthDay = text.match(/^(\d{1,2})\/(\d{1,2})$/);
+  if (monthDay) {
+    const month = Number(monthDay[1]);
+    const day = Number(monthDay[2]);
+    const year = Number(today.slice(0, 4));
+    if (month < 1 || month > 12 || day < 1) return null;
+    const candidate = (y: number) => day <= daysInMonth(y, month - 1)
+      ? `${y}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+      : null;
+    const thisYear = candidate(year);
+    return thisYear && thisYear >= today ? thisYear : candidate(year + 1);
+  }
+
+  return null;
+};
+
+const isPriority = (text: string): text is ContactPriority => text === 'A' || text === 'B' || text === 'C';
+
+// コマンドの本文（/deadline の後ろ）を解釈する。today は利用者のタイムゾーンでの今日
+export const parseSlashCommand = (text: string, today: string): SlashCommand => {
+  const [subcommand = '', ...args] = text.trim().split(/[\s　]+/).filter(Boolean);
+
+  switch (subcommand.toLowerCase()) {
+    case 'today':
+    case '今日':
+      return { kind: 'today' };
+
+    case 'add':
+    case '追加': {
+      // 末尾から優先度・期日を取り出し、残りを名前と目的にする
+      const rest = [...args];
+      let priority: ContactPriority = 'C';
+      let deadline = today;
+      const last = rest[rest.length - 1]?.toUpperCase();
+      if (last && isPriority(last)) {
+        priority = last;
+        rest.pop();
+      }
+      const date = rest.length > 2 ? parseDeadline(rest[rest.length - 1], today) : null;
+      if (date) {
+        deadline = date;
+        rest.pop();
+      }
+
+      const [name, ...purpose] = rest;
+      if (!name || purpose.length === 0) {
+        return { kind: 'error', message: `名前と目的を入力してください\n${SLASH_COMMAND_USAGE}` };
+      }
+      return {
+        kind: 'add',
+        contact: {
+          name,
+          purpose: purpose.join(' '),
+          deadline,
+          status: 'pending',
+          category: 'customer',
+          priority
+        }
+      };
+    }
+
+    case '':
+    case 'help':
+      return { kind: 'help' };
+
+    default:
+      return { kind: 'error', message: `「${subcommand}」は使えません\n${SLASH_COMMAND_USAGE}` };
+  }
+};
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { ActivityDetails, ActivityType } from './activity';
 
 // Supabaseクライアントの初期化
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -26,49 +27,394 @@ export interface DbContact {
   name: string;
   purpose: string;
   deadline: string;
+  due_time?: string | null; // 期日の時刻（TIME。利用者のタイムゾーン）
+  reminder_offsets?: number[]; // 期日の時刻の何分前に通知するか
+  reminder_rules?: string[] | null; // 期日を基準にした通知のルール（NULL ならカテゴリの既定）
   status: 'pending' | 'completed';
   category?: string;
   priority?: 'A' | 'B' | 'C';
-  recurring?: string;
-  recurring_days?: number;
-  recurring_weekday?: number;
+  recurrence_rule?: string | null; // RRULE（例：FREQ=MONTHLY;BYDAY=2TU）
+  recurrence_anchor?: string | null; // 現在の回のルール上の本来の日付
+  recurrence_paused_until?: string | null; // 繰り返しの一時停止（この日より前の回は飛ばす）
+  occurrence_count?: number; // 繰り返しで完了した回数
   order?: number;
   created_at?: string;
+  updated_at?: string; // 更新のたびにトリガーで設定（競合検出に使用）
   completed_at?: string | null;
   user_id?: string;
+  search_text?: string; // name + purpose を正規化した生成列（検索用。書き込まない）
+  deleted_at?: string | null; // ゴミ箱に移動した日時（NULL なら通常の連絡先）
+  original_deadline?: string | null; // 期限切れになった元の期日（夜間ジョブが設定。期日を変更すると NULL）
+  postpone_count?: number; // 期限切れで繰り越された回数（夜間ジョブが加算）
+  sort_deadline?: string; // COALESCE(original_deadline, deadline) の生成列（並び替え用。書き込まない）
+  sort_due_time?: string; // COALESCE(due_time, '24:00') の生成列（同じ期日の中の並び替え用。書き込まない）
 }
 
+// 操作履歴（contacts への書き込み時にトリガーで追記される）
+export interface DbContactActivity {
+  id: number;
+  contact_id: string;
+  user_id?: string;
+  type: ActivityType;
+  details: ActivityDetails | null;
+  actor_id?: string | null;
+  actor?: string | null;
+  created_at: string;
+}
+
+// ユーザーごとの設定（設定がなければ行がない）
+export interface DbUserSettings {
+  user_id: string;
+  time_zone: string; // IANA のタイムゾーン名（「今日」の判定に使用）
+  category_reminder_rules?: Record<string, string[]>; // カテゴリごとの通知のルールの既定
+  updated_at?: string;
+}
+
+// 保存する設定（変更した列だけを送り、ほかの列は上書きしない）
+export type UserSettingsInput = Pick<DbUserSettings, 'user_id'> & Partial<Omit<DbUserSettings, 'user_id' | 'updated_at'>>;
+
+// 会社の休日（ユーザーと日付で一意。営業日の計算に使う）
+export interface DbCompanyHoliday {
+  user_id: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+  created_at?: string;
+}
+
+// ユーザーごとの通知の設定（設定がなければ行がない）
+export interface DbNotificationSettings {
+  user_id: string;
+  slack_webhook_url: string | null; // https://hooks.slack.com/ で始まる Incoming Webhook の URL
+  teams_webhook_url?: string | null;
+  discord_webhook_url?: string | null;
+  line_user_id?: string | null; // LINE 公式アカウントを友だち追加したユーザーの ID（連携したときにサーバーのみが書き込む）
+  line_display_name?: string | null; // 連携した LINE ユーザーの表示名
+  digest_channel?: string | null; // 毎朝のまとめを送るチャット（lib/notificationSettings.ts の ChatChannel。NULL なら送らない）
+  reminder_channel?: string | null; // 期日の通知を送るチャット
+  slack_send_time: string; // チャットに毎朝のまとめを送る時刻（TIME。利用者のタイムゾーン。Slack 以外のチャットでも使う）
+  slack_digest_sections?: string[]; // まとめに含める項目（lib/digest.ts の DigestSection）
+  slack_last_sent_on?: string | null; // 最後にチャットにまとめを送った日（定期ジョブのみが書き込む）
+  email_enabled?: boolean;
+  email_address?: string | null; // まとめを送るメールアドレス
+  email_send_time?: string; // メールのまとめを送る時刻（TIME。利用者のタイムゾーン）
+  email_last_sent_on?: string | null; // 最後にメールを送った日（定期ジョブのみが書き込む）
+  email_unsubscribe_token?: string; // 配信停止のリンクに使う（DB が生成）
+  email_verified_address?: string | null; // 確認のリンクを開いたアドレス（email_address と同じときだけメールを送る。サーバーのみが書き込む）
+  email_verification_token?: string | null; // 確認のリンクに使う
+  email_verification_sent_at?: string | null; // 確認メールを送った日時
+  updated_at?: string;
+}
+
+// 定期ジョブ・DB・LINE の連携・メールの確認が書き込む列（画面からは保存しない）
+export type NotificationSettingsInput = Omit<
+  DbNotificationSettings,
+  | 'line_user_id' | 'line_display_name' | 'slack_last_sent_on' | 'email_last_sent_on' | 'email_unsubscribe_token'
+  | 'email_verified_address' | 'email_verification_token' | 'email_verification_sent_at' | 'updated_at'
+>;
+
+// 確認メールの送信（/api/email/verify）の結果。ログインに使っている確認済みのアドレスなら、送らずに確認済みにする
+export interface EmailVerificationResult {
+  status: 'sent' | 'verified';
+  email_address: string;
+}
+
+// Web Push の購読（端末ごと。endpoint で一意）
+export interface DbPushSubscription {
+  id?: number;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent: string | null;
+  created_at?: string;
+}
+
+// Slack のユーザーとアプリのユーザーの連携（スラッシュコマンド用。登録はサーバーのみ）
+export interface DbSlackUserLink {
+  slack_team_id: string;
+  slack_user_id: string;
+  user_id: string;
+  slack_user_name: string | null;
+  linked_at: string;
+}
+
+// Slack との連携の申請（スラッシュコマンドが作り、アプリで承認して、同じ Slack ユーザーが確認コードを送ると連携する。サーバーのみが読み書きする）
+export interface DbSlackLinkRequest {
+  code: string;
+  slack_team_id: string;
+  slack_user_id: string;
+  slack_user_name: string | null;
+  slack_team_name: string | null;
+  user_id: string | null; // 承認したアプリのユーザー（承認前は null）
+  verification_code: string | null;
+  failed_attempts: number;
+  expires_at: string;
+}
+
+// 承認の前に画面に表示する、申請した Slack のユーザー（GET /api/slack/link）
+export type SlackLinkPreview = Pick<DbSlackLinkRequest, 'slack_user_name' | 'slack_team_name' | 'expires_at'>;
+
+// 承認したときに返す確認コード（POST /api/slack/link。申請した Slack ユーザーが /deadline link <コード> で送ると連携する）
+export type SlackLinkApproval = SlackLinkPreview & Pick<DbSlackLinkRequest, 'verification_code'>;
+
+// LINE の連携の申請（公式アカウントを友だち追加したときに作る。読み書きはサーバーのみ）
+export interface DbLineLinkRequest {
+  code: string;
+  line_user_id: string;
+  line_display_name: string | null;
+  user_id: string | null; // 承認したアプリのユーザー（承認前は null）
+  verification_code: string | null;
+  failed_attempts: number;
+  expires_at: string;
+}
+
+// 承認の前に画面に表示する、申請した LINE のユーザー（GET /api/line/link）
+export type LineLinkPreview = Pick<DbLineLinkRequest, 'line_display_name' | 'expires_at'>;
+
+// 承認したときに返す確認コード（POST /api/line/link。申請した LINE ユーザーが公式アカウントに送ると連携する）
+export type LineLinkApproval = LineLinkPreview & Pick<DbLineLinkRequest, 'verification_code'>;
+
+// 連絡先のイベントを送る Webhook の送信先（secret は DB が生成する署名の鍵）
+export interface DbWebhookEndpoint {
+  id: string;
+  user_id: string;
+  url: string;
+  description: string;
+  events: string[]; // 購読するイベント（lib/webhooks.ts の WebhookEvent）
+  secret: string;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Webhook の送信ログ（書き込みはトリガーとサーバーのみ）
+export interface DbWebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  user_id: string;
+  event: string;
+  payload: { id: string; event: string; created_at: string; data: DbContact };
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  last_error: string | null; // 失敗の種類（lib/webhooks.ts の WebhookError）。応答本文は残さない
+  created_at: string;
+  delivered_at: string | null;
+}
+
+// テスト送信（/api/webhooks/test）の結果
+export type WebhookTestResult = Pick<DbWebhookDelivery, 'id' | 'status' | 'response_status' | 'last_error'>;
+
+// 一覧の並び順
+export type ContactSort = 'deadline' | 'priority' | 'created' | 'manual';
+
+// 一覧の絞り込み条件（サーバー側で適用）
+export interface ContactQuery {
+  category?: string;
+  status?: 'pending' | 'completed';
+  priority?: 'A' | 'B' | 'C';
+  deadlineFrom?: string; // YYYY-MM-DD（この日を含む）
+  deadlineTo?: string; // YYYY-MM-DD（この日を含む）
+  search?: string; // 名前・目的の部分一致（空白区切りで AND）
+  sort?: ContactSort;
+}
+
+// カーソル方式のページ（nextCursor が null なら最後のページ）
+export interface ContactPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export const CONTACT_PAGE_SIZE = 50;
+
+// 検索語を正規化して分割（全角/半角・大文字/小文字を区別しない。search_text 列と同じ正規化）
+export const toSearchTerms = (search?: string): string[] =>
+  (search || '').normalize('NFKC').toLowerCase().split(/\s+/).filter(Boolean);
+
+// API呼び出しの失敗種別
+export type ApiErrorKind =
+  | 'network' // 通信エラー（オフライン等）
+  | 'rls_denied' // RLSによりアクセス拒否
+  | 'validation' // 入力値が制約に違反
+  | 'not_found' // 対象の行が存在しない
+  | 'conflict' // 読み込み後に他の端末で変更された
+  | 'not_configured' // Supabase未設定
+  | 'unknown';
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  message: string;
+}
+
+// contactsApi の戻り値（成功時は data、失敗時は error）
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: ApiError };
+
+export const ok = <T>(data: T): ApiResult<T> => ({ ok: true, data });
+export const fail = <T>(kind: ApiErrorKind, message: string): ApiResult<T> => ({ ok: false, error: { kind, message } });
+const notConfigured = <T>(): ApiResult<T> => fail('not_configured', 'Supabase is not configured');
+
+// Supabase(PostgREST)のエラーを種別に分類
+const classifyError = (error: { code?: string; message?: string }): ApiErrorKind => {
+  const code = error.code || '';
+  const message = error.message || '';
+
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return 'network';
+  if (message.includes('Failed to fetch') || message.includes('NetworkError') || message.includes('fetch failed')) {
+    return 'network';
+  }
+  if (code === '42501' || code === 'PGRST301' || code === 'PGRST302') return 'rls_denied';
+  if (code === 'PGRST116') return 'not_found';
+  if (code.startsWith('22') || code.startsWith('23')) return 'validation';
+  return 'unknown';
+};
+
+const toFailure = <T>(label: string, error: { code?: string; message?: string }): ApiResult<T> => {
+  console.error(`Error ${label}:`, error);
+  return fail(classifyError(error), error.message || label);
+};
+
+// エラー種別ごとのユーザー向けメッセージ
+export const describeApiError = (error: ApiError): string => {
+  switch (error.kind) {
+    case 'network': return '通信できませんでした。接続を確認してください';
+    case 'rls_denied': return 'この操作を行う権限がありません。再ログインしてください';
+    case 'validation': return '入力内容に誤りがあります';
+    case 'not_found': return '対象の連絡先が見つかりません。他の端末で削除された可能性があります';
+    case 'conflict': return '他の端末で変更されています';
+    case 'not_configured': return 'データベースが設定されていません';
+    default: return '予期しないエラーが発生しました';
+  }
+};
+
+// 並び順ごとのキー（カーソルにも使うため、最後は一意な id にする）
+const SORT_KEYS: Record<ContactSort, { column: keyof DbContact; ascending: boolean }[]> = {
+  deadline: [
+    { column: 'sort_deadline', ascending: true },
+    { column: 'sort_due_time', ascending: true },
+    { column: 'id', ascending: true }
+  ],
+  priority: [
+    { column: 'priority', ascending: true },
+    { column: 'sort_deadline', ascending: true },
+    { column: 'sort_due_time', ascending: true },
+    { column: 'id', ascending: true }
+  ],
+  created: [{ column: 'created_at', ascending: false }, { column: 'id', ascending: false }],
+  manual: [{ column: 'order', ascending: true }, { column: 'id', ascending: true }],
+};
+
+// LIKE の特殊文字をエスケープ
+const escapeLike = (term: string) => term.replace(/[\\%_]/g, c => `\\${c}`);
+
+// カーソル = 前のページの最後の行の並び順キーの値
+const encodeCursor = (row: DbContact, sort: ContactSort): string =>
+  btoa(JSON.stringify(SORT_KEYS[sort].map(key => row[key.column])));
+
+const decodeCursor = (cursor: string): unknown[] => JSON.parse(atob(cursor));
+
+// カーソルより後ろの行の条件（(a, b) > (x, y) を or/and で展開）
+const afterCursor = (sort: ContactSort, values: unknown[]): string => {
+  const keys = SORT_KEYS[sort];
+  const quote = (value: unknown) => `"${String(value).replace(/"/g, '\\"')}"`;
+  return keys.map((key, i) => {
+    const equal = keys.slice(0, i).map((k, j) => `${k.column}.eq.${quote(values[j])}`);
+    const beyond = `${key.column}.${key.ascending ? 'gt' : 'lt'}.${quote(values[i])}`;
+    return equal.length === 0 ? beyond : `and(${[...equal, beyond].join(',')})`;
+  }).join(',');
+};
+
+// 絞り込み条件と並び順を適用したクエリを作る
+// undefinedが明示的に渡された場合はuser_idがNULLのデータを取得
+const buildContactsQuery = (userId: string | undefined, query: ContactQuery) => {
+  // ゴミ箱の連絡先は一覧に含めない
+  let request = supabase!.from('contacts').select('*').is('deleted_at', null);
+
+  if (userId) {
+    request = request.eq('user_id', userId);
+  } else if (userId === undefined) {
+    request = request.is('user_id', null);
+  }
+
+  if (query.category) request = request.eq('category', query.category);
+  if (query.status) request = request.eq('status', query.status);
+  if (query.priority) request = request.eq('priority', query.priority);
+  // 期日の範囲は元の期日で判定（期限切れで本日に繰り越したものも元の期日で絞り込む）
+  if (query.deadlineFrom) request = request.gte('sort_deadline', query.deadlineFrom);
+  if (query.deadlineTo) request = request.lte('sort_deadline', query.deadlineTo);
+  for (const term of toSearchTerms(query.search)) {
+    request = request.ilike('search_text', `%${escapeLike(term)}%`);
+  }
+
+  for (const key of SORT_KEYS[query.sort || 'deadline']) {
+    request = request.order(key.column, { ascending: key.ascending });
+  }
+  return request;
+};
+
 // Contacts テーブル操作用の関数
 export const contactsApi = {
-  // 全件取得（ユーザーIDでフィルタリング）
-  async getAll(userId?: string): Promise<DbContact[]> {
-    if (!supabase) return [];
+  // 条件に一致する全件を取得（ユーザーIDでフィルタリング）
+  async getAll(userId?: string, query: ContactQuery = {}): Promise<ApiResult<DbContact[]>> {
+    if (!supabase) return notConfigured();
 
-    let query = supabase
-      .from('contacts')
-      .select('*');
-
-    // ユーザーIDが指定されている場合はフィルタリング
-    // undefinedが明示的に渡された場合はuser_idがNULLのデータを取得
-    if (userId) {
-      query = query.eq('user_id', userId);
-    } else if (userId === undefined) {
-      query = query.is('user_id', null);
-    }
+    const { data, error } = await buildContactsQuery(userId, query);
 
-    const { data, error } = await query.order('deadline', { ascending: true });
+    if (error) return toFailure('fetching contacts', error);
 
-    if (error) {
-      console.error('Error fetching contacts:', error);
-      return [];
+    return ok(data || []);
+  },
+
+  // 条件に一致する行を1ページ分取得（cursor は前のページの nextCursor）
+  async getPage(
+    userId: string,
+    query: ContactQuery = {},
+    cursor?: string | null,
+    limit = CONTACT_PAGE_SIZE
+  ): Promise<ApiResult<ContactPage<DbContact>>> {
+    if (!supabase) return notConfigured();
+
+    const sort = query.sort || 'deadline';
+    let request = buildContactsQuery(userId, query);
+    if (cursor) {
+      try {
+        request = request.or(afterCursor(sort, decodeCursor(cursor)));
+      } catch {
+        return fail('validation', 'Invalid cursor');
+      }
     }
 
-    return data || [];
+    // 1件多く取得して、次のページがあるかを判定する
+    const { data, error } = await request.limit(limit + 1);
+
+    if (error) return toFailure('fetching contacts page', error);
+
+    const rows = data || [];
+    const items = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? encodeCursor(items[items.length - 1], sort) : null;
+    return ok({ items, nextCursor });
+  },
+
+  // 1件取得
+  async getById(id: string): Promise<ApiResult<DbContact>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('contacts')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) return toFailure('fetching contact', error);
+
+    return ok(data);
   },
 
   // 新規作成
-  async create(contact: Omit<DbContact, 'id' | 'created_at'>): Promise<DbContact | null> {
-    if (!supabase) return null;
+  async create(contact: Omit<DbContact, 'id' | 'created_at'>): Promise<ApiResult<DbContact>> {
+    if (!supabase) return notConfigured();
 
     const { data, error } = await supabase
       .from('contacts')
@@ -76,47 +422,447 @@ export const contactsApi = {
       .select()
       .single();
 
-    if (error) {
-      console.error('Error creating contact:', error);
-      return null;
-    }
+    if (error) return toFailure('creating contact', error);
 
-    return data;
+    return ok(data);
   },
 
   // 更新
-  async update(id: string, updates: Partial<DbContact>): Promise<DbContact | null> {
-    if (!supabase) return null;
+  // expectedUpdatedAt を渡すと、読み込み後に他で変更されていた場合は 'conflict' を返す
+  async update(id: string, updates: Partial<DbContact>, expectedUpdatedAt?: string): Promise<ApiResult<DbContact>> {
+    if (!supabase) return notConfigured();
+
+    let query = supabase
+      .from('contacts')
+      .update(updates)
+      .eq('id', id);
+
+    if (expectedUpdatedAt) {
+      query = query.eq('updated_at', expectedUpdatedAt);
+    }
+
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) return toFailure('updating contact', error);
+
+    if (!data) {
+      // 0件更新：行が消えたのか、バージョンが変わったのかを区別する
+      if (expectedUpdatedAt) {
+        const current = await contactsApi.getById(id);
+        if (current.ok) return fail('conflict', 'Contact was modified after it was loaded');
+      }
+      return fail('not_found', 'Contact not found');
+    }
+
+    return ok(data);
+  },
+
+  // 削除（ゴミ箱に移動。restore で元に戻せる）
+  async delete(id: string): Promise<ApiResult<void>> {
+    if (!supabase) return notConfigured();
+
+    const { error } = await supabase
+      .from('contacts')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) return toFailure('deleting contact', error);
+
+    return ok(undefined);
+  },
+
+  // 一括作成（1リクエストで挿入。失敗時は1件も作成されない）
+  async bulkCreate(contacts: Omit<DbContact, 'id' | 'created_at'>[]): Promise<ApiResult<DbContact[]>> {
+    if (!supabase) return notConfigured();
+    if (contacts.length === 0) return ok([]);
+
+    const { data, error } = await supabase
+      .from('contacts')
+      .insert(contacts)
+      .select();
+
+    if (error) return toFailure('bulk creating contacts', error);
+
+    return ok(data || []);
+  },
+
+  // 一括更新（同じ変更を複数件に1リクエストで適用）
+  async bulkUpdate(ids: string[], updates: Partial<DbContact>): Promise<ApiResult<DbContact[]>> {
+    if (!supabase) return notConfigured();
+    if (ids.length === 0) return ok([]);
 
     const { data, error } = await supabase
       .from('contacts')
       .update(updates)
+      .in('id', ids)
+      .select();
+
+    if (error) return toFailure('bulk updating contacts', error);
+
+    return ok(data || []);
+  },
+
+  // 一括削除（ゴミ箱に移動）
+  async bulkDelete(ids: string[]): Promise<ApiResult<void>> {
+    if (!supabase) return notConfigured();
+    if (ids.length === 0) return ok(undefined);
+
+    const { error } = await supabase
+      .from('contacts')
+      .update({ deleted_at: new Date().toISOString() })
+      .in('id', ids);
+
+    if (error) return toFailure('bulk deleting contacts', error);
+
+    return ok(undefined);
+  },
+
+  // ゴミ箱の連絡先を取得（削除が新しい順）
+  async getTrashed(userId: string): Promise<ApiResult<DbContact[]>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('contacts')
+      .select('*')
+      .eq('user_id', userId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
+
+    if (error) return toFailure('fetching trashed contacts', error);
+
+    return ok(data || []);
+  },
+
+  // ゴミ箱から元に戻す
+  async restore(ids: string[]): Promise<ApiResult<DbContact[]>> {
+    if (!supabase) return notConfigured();
+    if (ids.length === 0) return ok([]);
+
+    const { data, error } = await supabase
+      .from('contacts')
+      .update({ deleted_at: null })
+      .in('id', ids)
+      .select();
+
+    if (error) return toFailure('restoring contacts', error);
+
+    return ok(data || []);
+  },
+
+  // 完全に削除（ゴミ箱にあるものに限る）
+  async purge(ids: string[]): Promise<ApiResult<void>> {
+    if (!supabase) return notConfigured();
+    if (ids.length === 0) return ok(undefined);
+
+    const { error } = await supabase
+      .from('contacts')
+      .delete()
+      .in('id', ids)
+      .not('deleted_at', 'is', null);
+
+    if (error) return toFailure('purging contacts', error);
+
+    return ok(undefined);
+  },
+
+  // 並び替え（ids の順に order を 0 から振り直す。RPC内で1トランザクション）
+  async reorder(ids: string[]): Promise<ApiResult<void>> {
+    if (!supabase) return notConfigured();
+    if (ids.length === 0) return ok(undefined);
+
+    const { error } = await supabase.rpc('reorder_contacts', { contact_ids: ids });
+
+    if (error) return toFailure('reordering contacts', error);
+
+    return ok(undefined);
+  }
+};
+
+// 操作履歴の取得（追記はDB側のトリガーのみが行う）
+export const activitiesApi = {
+  // 連絡先ごとの履歴（新しい順）
+  async listForContact(contactId: string, limit = 100): Promise<ApiResult<DbContactActivity[]>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('contact_activities')
+      .select('*')
+      .eq('contact_id', contactId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit);
+
+    if (error) return toFailure('fetching activities', error);
+
+    return ok(data || []);
+  }
+};
+
+// ユーザーごとの設定（RLS で自分の行のみ読み書きできる）
+export const userSettingsApi = {
+  // 設定がまだなければ null
+  async get(userId: string): Promise<ApiResult<DbUserSettings | null>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) return toFailure('fetching user settings', error);
+
+    return ok(data);
+  },
+
+  async upsert(settings: UserSettingsInput): Promise<ApiResult<DbUserSettings>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('user_settings')
+      .upsert(settings, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) return toFailure('saving user settings', error);
+
+    return ok(data);
+  }
+};
+
+// 会社の休日（RLS で自分の行のみ読み書きできる）
+export const companyHolidaysApi = {
+  async list(userId: string): Promise<ApiResult<DbCompanyHoliday[]>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('company_holidays')
+      .select('*')
+      .eq('user_id', userId)
+      .order('date', { ascending: true });
+
+    if (error) return toFailure('fetching company holidays', error);
+
+    return ok(data || []);
+  },
+
+  // 同じ日付の休日は名前を上書きする
+  async upsert(holidays: Omit<DbCompanyHoliday, 'created_at'>[]): Promise<ApiResult<void>> {
+    if (!supabase) return notConfigured();
+    if (holidays.length === 0) return ok(undefined);
+
+    const { error } = await supabase
+      .from('company_holidays')
+      .upsert(holidays, { onConflict: 'user_id,date' });
+
+    if (error) return toFailure('saving company holidays', error);
+
+    return ok(undefined);
+  },
+
+  async remove(userId: string, dates: string[]): Promise<ApiResult<void>> {
+    if (!supabase) return notConfigured();
+    if (dates.length === 0) return ok(undefined);
+
+    const { error } = await supabase
+      .from('company_holidays')
+      .delete()
+      .eq('user_id', userId)
+      .in('date', dates);
+
+    if (error) return toFailure('deleting company holidays', error);
+
+    return ok(undefined);
+  }
+};
+
+// ユーザーごとの通知の設定（RLS で自分の行のみ読み書きできる）
+export const notificationSettingsApi = {
+  // 設定がまだなければ null
+  async get(userId: string): Promise<ApiResult<DbNotificationSettings | null>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('notification_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) return toFailure('fetching notification settings', error);
+
+    return ok(data);
+  },
+
+  async upsert(settings: NotificationSettingsInput): Promise<ApiResult<DbNotificationSettings>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('notification_settings')
+      .upsert(settings, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) return toFailure('saving notification settings', error);
+
+    return ok(data);
+  },
+
+  // LINE の連携を解除する（連携はサーバーのみが登録する）
+  async unlinkLine(userId: string): Promise<ApiResult<DbNotificationSettings>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('notification_settings')
+      .update({ line_user_id: null, line_display_name: null })
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) return toFailure('removing line link', error);
+
+    return ok(data);
+  }
+};
+
+// Slack のユーザーとの連携（RLS で自分の連携のみ確認・解除できる）
+export const slackUserLinksApi = {
+  async list(userId: string): Promise<ApiResult<DbSlackUserLink[]>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('slack_user_links')
+      .select('*')
+      .eq('user_id', userId)
+      .order('linked_at', { ascending: true });
+
+    if (error) return toFailure('fetching slack links', error);
+
+    return ok(data || []);
+  },
+
+  async remove(link: Pick<DbSlackUserLink, 'slack_team_id' | 'slack_user_id'>): Promise<ApiResult<void>> {
+    if (!supabase) return notConfigured();
+
+    const { error } = await supabase
+      .from('slack_user_links')
+      .delete()
+      .eq('slack_team_id', link.slack_team_id)
+      .eq('slack_user_id', link.slack_user_id);
+
+    if (error) return toFailure('removing slack link', error);
+
+    return ok(undefined);
+  }
+};
+
+// Web Push の購読（RLS で自分の購読のみ読み書きできる）
+export const pushSubscriptionsApi = {
+  // 同じ端末で購読し直した場合は鍵を更新する
+  async upsert(subscription: Omit<DbPushSubscription, 'id' | 'created_at'>): Promise<ApiResult<DbPushSubscription>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('push_subscriptions')
+      .upsert(subscription, { onConflict: 'endpoint' })
+      .select()
+      .single();
+
+    if (error) return toFailure('saving push subscription', error);
+
+    return ok(data);
+  },
+
+  async remove(endpoint: string): Promise<ApiResult<void>> {
+    if (!supabase) return notConfigured();
+
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('endpoint', endpoint);
+
+    if (error) return toFailure('removing push subscription', error);
+
+    return ok(undefined);
+  }
+};
+
+// Webhook の送信先（RLS で自分の送信先のみ読み書きできる）
+export const webhookEndpointsApi = {
+  async list(userId: string): Promise<ApiResult<DbWebhookEndpoint[]>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) return toFailure('fetching webhook endpoints', error);
+
+    return ok(data || []);
+  },
+
+  async create(endpoint: Pick<DbWebhookEndpoint, 'user_id' | 'url' | 'description' | 'events'>): Promise<ApiResult<DbWebhookEndpoint>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .insert(endpoint)
+      .select()
+      .single();
+
+    if (error) return toFailure('creating webhook endpoint', error);
+
+    return ok(data);
+  },
+
+  async update(
+    id: string,
+    patch: Partial<Pick<DbWebhookEndpoint, 'url' | 'description' | 'events' | 'enabled'>>
+  ): Promise<ApiResult<DbWebhookEndpoint>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .update(patch)
       .eq('id', id)
       .select()
       .single();
 
-    if (error) {
-      console.error('Error updating contact:', error);
-      return null;
-    }
+    if (error) return toFailure('updating webhook endpoint', error);
 
-    return data;
+    return ok(data);
   },
 
-  // 削除
-  async delete(id: string): Promise<boolean> {
-    if (!supabase) return false;
+  async remove(id: string): Promise<ApiResult<void>> {
+    if (!supabase) return notConfigured();
 
     const { error } = await supabase
-      .from('contacts')
+      .from('webhook_endpoints')
       .delete()
       .eq('id', id);
 
-    if (error) {
-      console.error('Error deleting contact:', error);
-      return false;
-    }
+    if (error) return toFailure('removing webhook endpoint', error);
 
-    return true;
+    return ok(undefined);
   }
-};
\ No newline at end of file
+};
+
+// Webhook の送信ログ（RLS で自分のログのみ読める。書き込みはトリガーとサーバーのみ）
+export const webhookDeliveriesApi = {
+  // 新しい順
+  async list(endpointId: string, limit = 20): Promise<ApiResult<DbWebhookDelivery[]>> {
+    if (!supabase) return notConfigured();
+
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('endpoint_id', endpointId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) return toFailure('fetching webhook deliveries', error);
+
+    return ok(data || []);
+  }
+};
@@ -0,0 +1,12 @@
+// ゴミ箱の保持期間（これを過ぎた連絡先は定期ジョブで完全に削除される）
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// これより前にゴミ箱に移動した連絡先は削除対象
+export const trashCutoff = (now: Date = new Date()): string =>
+  new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS).toISOString();
+
+// 完全に削除されるまでの残り日数
+export const daysUntilPurge = (deletedAt: string, now: Date = new Date()): number =>
+  Math.max(0, Math.ceil((new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS - now.getTime()) / DAY_MS));
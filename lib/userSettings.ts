@@ -0,0 +1,58 @@
+import { ok, userSettingsApi } from './supabase';
+import type { ApiResult, DbUserSettings } from './supabase';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from './dates';
+import { normalizeCategoryReminderRules } from './reminders';
+import type { CategoryReminderRules } from './reminders';
+
+// ユーザーごとの設定（Supabase では user_settings、それ以外は LocalStorage に保存する）
+export interface UserSettings {
+  timeZone: string;
+  categoryReminderRules: CategoryReminderRules; // カテゴリごとの通知のルールの既定（lib/reminders.ts）
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = { timeZone: DEFAULT_TIME_ZONE, categoryReminderRules: {} };
+
+const STORAGE_KEY = 'userSettings';
+
+// 不正なタイムゾーンは既定に戻し、不正なルールは除く
+const normalize = (settings: Partial<UserSettings>): UserSettings => ({
+  ...DEFAULT_USER_SETTINGS,
+  ...settings,
+  timeZone: settings.timeZone && isValidTimeZone(settings.timeZone) ? settings.timeZone : DEFAULT_TIME_ZONE,
+  categoryReminderRules: normalizeCategoryReminderRules(settings.categoryReminderRules),
+});
+
+export const fromDbUserSettings = (row: DbUserSettings | null): UserSettings =>
+  normalize({ timeZone: row?.time_zone, categoryReminderRules: normalizeCategoryReminderRules(row?.category_reminder_rules) });
+
+const readLocalUserSettings = (): UserSettings => {
+  if (typeof window === 'undefined') return DEFAULT_USER_SETTINGS;
+  try {
+    return normalize(JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}'));
+  } catch {
+    return DEFAULT_USER_SETTINGS;
+  }
+};
+
+// userId があれば Supabase から、なければ LocalStorage から読み込む
+export const loadUserSettings = async (userId?: string): Promise<ApiResult<UserSettings>> => {
+  if (!userId) return ok(readLocalUserSettings());
+  const result = await userSettingsApi.get(userId);
+  return result.ok ? ok(fromDbUserSettings(result.data)) : result;
+};
+
+// 変更した項目だけを保存する（ほかの画面で変更した項目を上書きしない）
+export const saveUserSettings = async (patch: Partial<UserSettings>, userId?: string): Promise<ApiResult<UserSettings>> => {
+  if (!userId) {
+    const normalized = normalize({ ...readLocalUserSettings(), ...patch });
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(normalized));
+    return ok(normalized);
+  }
+  const normalized = normalize(patch);
+  const result = await userSettingsApi.upsert({
+    user_id: userId,
+    ...('timeZone' in patch ? { time_zone: normalized.timeZone } : {}),
+    ...('categoryReminderRules' in patch ? { category_reminder_rules: normalized.categoryReminderRules } : {}),
+  });
+  return result.ok ? ok(fromDbUserSettings(result.data)) : result;
+};
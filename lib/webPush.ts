@@ -0,0 +1,43 @@
+import webpush from 'web-push';
+import type { DbPushSubscription } from './supabase';
+
+// Web Push の送信（サーバー専用。VAPID の鍵は環境変数から読む）
+//   NEXT_PUBLIC_VAPID_PUBLIC_KEY・VAPID_PRIVATE_KEY（npx web-push generate-vapid-keys で作成）
+//   VAPID_SUBJECT（連絡先。mailto: か https: の URL）
+
+// Service Worker（public/sw.js）が表示する内容
+export interface PushPayload {
+  title: string;
+  body: string;
+  tag: string; // 同じ通知を端末上で重ねて表示しない
+  url: string; // クリックで開く URL
+}
+
+export type PushResult = 'sent' | 'gone' | 'failed';
+
+export const isPushConfigured = (): boolean =>
+  !!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY && !!process.env.VAPID_PRIVATE_KEY && !!process.env.VAPID_SUBJECT;
+
+// 1端末に送る。購読が無効になっていれば 'gone'（購読を削除してよい）
+export const sendPush = async (subscription: DbPushSubscription, payload: PushPayload): Promise<PushResult> => {
+  try {
+    await webpush.sendNotification(
+      { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+      JSON.stringify(payload),
+      {
+        vapidDetails: {
+          subject: process.env.VAPID_SUBJECT!,
+          publicKey: process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!,
+          privateKey: process.env.VAPID_PRIVATE_KEY!,
+        },
+        TTL: 60 * 60, // 端末がオフラインでも1時間は届ける
+      }
+    );
+    return 'sent';
+  } catch (error) {
+    const statusCode = (error as { statusCode?: number }).statusCode;
+    if (statusCode === 404 || statusCode === 410) return 'gone';
+    console.error('Push error:', error);
+    return 'failed';
+  }
+};
@@ -0,0 +1,124 @@
+import { createHmac } from 'crypto';
+import { lookup } from 'dns';
+import { request } from 'https';
+import type { LookupFunction } from 'net';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DbWebhookDelivery, DbWebhookEndpoint } from './supabase';
+import { isPublicAddress, isWebhookUrl } from './webhooks';
+import type { WebhookError } from './webhooks';
+
+// Webhook の送信と署名（サーバー専用。Node の crypto を使う）
+// 受信側は X-Webhook-Signature の t と本文から同じ HMAC を計算して照合する（README_DEPLOYMENT.md）
+
+// 失敗したら 1分・2分・4分…と間隔を倍にして再送し（最大6時間）、この回数で諦める
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+// 受信側の応答を待つ時間
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// 名前解決の結果に外部から届かないアドレスが含まれていたときのエラーコード
+const BLOCKED_ADDRESS = 'EWEBHOOKBLOCKED';
+
+// attempts 回目の失敗の後、次に送るまでの間隔
+export const retryDelayMs = (attempts: number): number =>
+  Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+
+// 本文の署名（HMAC-SHA256 の16進）。署名する文字列は `${UNIX 秒}.${本文}`
+export const signWebhook = (secret: string, timestamp: string, body: string): string =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+// X-Webhook-Signature の値（t=<UNIX 秒>,v1=<署名>）
+export const webhookSignatureHeader = (secret: string, body: string, now: Date = new Date()): string => {
+  const timestamp = String(Math.floor(now.getTime() / 1000));
+  return `t=${timestamp},v1=${signWebhook(secret, timestamp, body)}`;
+};
+
+// 名前解決の結果がすべて公開のアドレスのときだけ接続する
+// 接続する直前に確かめるので、登録の後で DNS の応答を社内のアドレスに変えられても届かない
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { family: options.family, hints: options.hints, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    if (addresses.length === 0 || !addresses.every(a => isPublicAddress(a.address))) {
+      return callback(Object.assign(new Error(`Blocked address: ${hostname}`), { code: BLOCKED_ADDRESS }), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// 1回 POST して HTTP ステータスを返す（転送はたどらない。応答本文は読み捨てる）
+const postWebhook = (url: string, headers: Record<string, string>, body: string): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }, response => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+
+// 接続の失敗の種類（詳細は送信ログに残さない）
+const connectionErrorOf = (error: unknown): WebhookError => {
+  const code = (error as NodeJS.ErrnoException | null)?.code;
+  if (code === BLOCKED_ADDRESS) return 'blocked_address';
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') return 'dns_failed';
+  if (error instanceof Error && error.name === 'AbortError') return 'timeout';
+  return 'connection_failed';
+};
+
+// 1回送り、結果を送信ログに記録する（失敗したら次に送る時刻を決める。retry が false なら再送しない）
+export const attemptWebhookDelivery = async (
+  client: SupabaseClient,
+  delivery: DbWebhookDelivery,
+  endpoint: DbWebhookEndpoint,
+  { retry = true, now = new Date() }: { retry?: boolean; now?: Date } = {}
+): Promise<DbWebhookDelivery> => {
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let lastError: WebhookError | null = null;
+
+  if (!endpoint.enabled) {
+    lastError = 'disabled';
+  } else if (!isWebhookUrl(endpoint.url)) {
+    lastError = 'invalid_url';
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    try {
+      responseStatus = await postWebhook(endpoint.url, {
+        'Content-Type': 'application/json',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Signature': webhookSignatureHeader(endpoint.secret, body, now),
+      }, body);
+      // 転送先（社内ネットワークなど）には送らない
+      if (responseStatus >= 300 && responseStatus < 400) lastError = 'redirect';
+      else if (responseStatus < 200 || responseStatus >= 300) lastError = 'http_error';
+    } catch (error) {
+      console.error(`Webhook delivery ${delivery.id} failed:`, error);
+      lastError = connectionErrorOf(error);
+    }
+  }
+
+  const succeeded = lastError === null;
+  const giveUp = !succeeded && (!retry || !endpoint.enabled || attempts >= WEBHOOK_MAX_ATTEMPTS);
+  const patch: Partial<DbWebhookDelivery> = {
+    status: succeeded ? 'succeeded' : giveUp ? 'failed' : 'pending',
+    attempts,
+    response_status: responseStatus,
+    last_error: lastError,
+    delivered_at: succeeded ? now.toISOString() : null,
+    next_attempt_at: new Date(now.getTime() + (succeeded || giveUp ? 0 : retryDelayMs(attempts))).toISOString(),
+  };
+
+  const { error } = await client.from('webhook_deliveries').update(patch).eq('id', delivery.id);
+  if (error) console.error('Supabase error:', error);
+
+  return { ...delivery, ...patch };
+};
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isPublicAddress, isWebhookUrl } from './webhooks';
+
+test('isPublicAddress は外部から届かない IPv4 を拒否する', () => {
+  for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '0.0.0.0', '100.64.0.1', '100.127.255.255', '224.0.0.1', '255.255.255.255']) {
+    assert.equal(isPublicAddress(address), false, address);
+  }
+  for (const address of ['8.8.8.8', '172.32.0.1', '100.63.255.255', '100.128.0.1', '93.184.216.34']) {
+    assert.equal(isPublicAddress(address), true, address);
+  }
+});
+
+test('isPublicAddress は外部から届かない IPv6 と、IPv4 を埋め込んだ IPv6 を拒否する', () => {
+  for (const address of ['::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1%eth0', 'ff02::1', '::ffff:7f00:1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe', '::ffff:100.64.0.1', '64:ff9b::a00:1', '2002:c0a8:101::1', '2001:db8::1']) {
+    assert.equal(isPublicAddress(address), false, address);
+  }
+  for (const address of ['2606:4700:4700::1111', '::ffff:8.8.8.8', '2002:808:808::1']) {
+    assert.equal(isPublicAddress(address), true, address);
+  }
+  assert.equal(isPublicAddress('not-an-address'), false);
+});
+
+test('isWebhookUrl は https の外部の URL のみ受け付ける', () => {
+  assert.equal(isWebhookUrl('https://example.com/webhooks'), true);
+  assert.equal(isWebhookUrl('http://example.com/webhooks'), false);
+  assert.equal(isWebhookUrl('https://localhost/'), false);
+  assert.equal(isWebhookUrl('https://metadata.google.internal/'), false);
+  assert.equal(isWebhookUrl('https://intranet/'), false);
+  assert.equal(isWebhookUrl('https://[::ffff:7f00:1]/'), false);
+  assert.equal(isWebhookUrl('https://[::ffff:127.0.0.1]/'), false);
+  assert.equal(isWebhookUrl('https://0x7f.1/'), false);
+  assert.equal(isWebhookUrl('https://2130706433/'), false);
+  assert.equal(isWebhookUrl('https://100.64.0.1/'), false);
+  assert.equal(isWebhookUrl('https://8.8.8.8/'), true);
+});
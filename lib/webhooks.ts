@@ -0,0 +1,144 @@
+// 連絡先のイベントを外部の URL に送る Webhook（画面とサーバーで共通の定義）
+// 送信・署名は lib/webhookDelivery.ts（サーバー専用）
+
+export type WebhookEvent = 'contact.created' | 'contact.completed' | 'contact.overdue' | 'contact.deleted';
+
+export const WEBHOOK_EVENTS: { value: WebhookEvent; label: string }[] = [
+  { value: 'contact.created', label: '作成' },
+  { value: 'contact.completed', label: '完了' },
+  { value: 'contact.overdue', label: '期限切れ' },
+  { value: 'contact.deleted', label: '削除（ゴミ箱へ移動）' },
+];
+
+// 「テスト送信」で送るイベント（購読の有無に関わらず送る）
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export const describeWebhookEvent = (event: string): string =>
+  WEBHOOK_EVENTS.find(e => e.value === event)?.label ?? (event === WEBHOOK_TEST_EVENT ? 'テスト' : event);
+
+// 送信ログの last_error（受信側の応答本文やエラーの詳細は残さない。HTTP ステータスは response_status）
+export type WebhookError =
+  | 'disabled'
+  | 'invalid_url'
+  | 'blocked_address'
+  | 'dns_failed'
+  | 'timeout'
+  | 'connection_failed'
+  | 'redirect'
+  | 'http_error';
+
+export const WEBHOOK_ERRORS: { value: WebhookError; label: string }[] = [
+  { value: 'disabled', label: '送信先が無効になっています' },
+  { value: 'invalid_url', label: '送信先の URL が不正です' },
+  { value: 'blocked_address', label: '送信先が外部から届かないアドレスです' },
+  { value: 'dns_failed', label: '送信先のホスト名が見つかりません' },
+  { value: 'timeout', label: '応答がありませんでした' },
+  { value: 'connection_failed', label: '接続できませんでした' },
+  { value: 'redirect', label: '転送の応答は受け付けていません' },
+  { value: 'http_error', label: '2xx 以外の応答でした' },
+];
+
+export const describeWebhookError = (error: string): string =>
+  WEBHOOK_ERRORS.find(e => e.value === error)?.label ?? '送信に失敗しました';
+
+// IPv4 の表記を32ビットの数に（形式が違えば null）
+const parseIPv4 = (value: string): number | null => {
+  const parts = value.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.reduce((address, part) => address * 256 + Number(part), 0);
+};
+
+// IPv6 の表記を16ビット×8 に（末尾の IPv4 の表記も読む。形式が違えば null）
+const parseIPv6 = (value: string): number[] | null => {
+  let text = value.toLowerCase().replace(/%.*$/, ''); // ゾーン ID は除く
+  const embedded = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const v4 = parseIPv4(embedded[2]);
+    if (v4 === null) return null;
+    text = `${embedded[1]}${Math.floor(v4 / 65536).toString(16)}:${(v4 % 65536).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const groupsOf = (part: string) => part === '' ? [] : part.split(':');
+  const head = groupsOf(halves[0]);
+  const tail = halves.length === 2 ? groupsOf(halves[1]) : [];
+  const omitted = 8 - head.length - tail.length;
+  if (halves.length === 2 ? omitted < 1 : omitted !== 0) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? omitted : 0).fill('0'), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+};
+
+// 外部から届かない・特別な用途の IPv4 の範囲（未指定・プライベート・CGNAT・ループバック・リンクローカル・文書用・マルチキャストなど）
+const NON_PUBLIC_IPV4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+const isPublicIPv4 = (address: number): boolean =>
+  NON_PUBLIC_IPV4.every(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(address / size) !== Math.floor(parseIPv4(base)! / size);
+  });
+
+const isPublicIPv6 = (groups: number[]): boolean => {
+  const zeros = (count: number) => groups.slice(0, count).every(group => group === 0);
+  const v4At = (index: number) => groups[index] * 65536 + groups[index + 1];
+
+  if (zeros(7) && groups[7] <= 1) return false; // ::（未指定）・::1（ループバック）
+  if (zeros(5) && groups[5] === 0xffff) return isPublicIPv4(v4At(6)); // ::ffff:a.b.c.d（IPv4 射影）
+  if (zeros(6)) return isPublicIPv4(v4At(6)); // ::a.b.c.d（IPv4 互換）
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) return isPublicIPv4(v4At(6)); // NAT64
+  if (groups[0] === 0x2002) return isPublicIPv4(v4At(1)); // 6to4
+  if (groups[0] === 0x2001 && (groups[1] === 0 || groups[1] === 0xdb8)) return false; // Teredo・文書用
+  if ((groups[0] & 0xfe00) === 0xfc00) return false; // fc00::/7（ユニークローカル）
+  if ((groups[0] & 0xffc0) === 0xfe80 || (groups[0] & 0xffc0) === 0xfec0) return false; // リンクローカル・サイトローカル
+  if ((groups[0] & 0xff00) === 0xff00) return false; // マルチキャスト
+  return true;
+};
+
+// 外部から届く（公開の）IP アドレスか（IPv4・IPv6 とも。形式が違えば false）
+export const isPublicAddress = (address: string): boolean => {
+  const v4 = parseIPv4(address);
+  if (v4 !== null) return isPublicIPv4(v4);
+  const v6 = parseIPv6(address);
+  return v6 !== null && isPublicIPv6(v6);
+};
+
+// 送信先の URL（https のみ。社内ネットワークなど外から届かない宛先は受け付けない）
+// ホスト名が指すアドレスは、送るたびに lib/webhookDelivery.ts が名前解決して確かめる
+export const isWebhookUrl = (value: string): boolean => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:') return false;
+
+  // URL は 0x7f.1 や 2130706433 などの IPv4 の表記を 127.0.0.1 に直す
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase().replace(/\.$/, '');
+  if (parseIPv4(host) !== null || host.includes(':')) return isPublicAddress(host);
+  return host.includes('.') && !/\.(localhost|local|internal|home\.arpa)$/.test(host);
+};
+
+// 入力の検証（問題があればメッセージ、なければ null）
+export const validateWebhookEndpoint = ({ url, events }: { url: string; events: string[] }): string | null => {
+  if (!isWebhookUrl(url.trim())) return 'URL は https:// で始まる、外部から届く URL を指定してください';
+  if (events.length === 0) return '送るイベントを1つ以上選んでください';
+  return null;
+};
@@ -0,0 +1,30 @@
+// プッシュ通知を表示する Service Worker（lib/push.ts が登録する）
+// 通知の内容はサーバーの定期ジョブ（/api/cron/reminders）が送る { title, body, tag, url }
+
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+  event.waitUntil(
+    self.registration.showNotification(data.title || '期日管理システム', {
+      body: data.body || '',
+      icon: '/favicon.ico',
+      tag: data.tag,
+      data: { url: data.url || '/' },
+    })
+  );
+});
+
+// 通知をクリックしたら、その連絡先を開く（アプリのタブがあればそのタブで開く）
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        return existing.navigate(url).then((client) => (client || existing).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,36 @@
+#!/bin/sh
+# Slack のボタン操作（block_actions）を偽装して /api/slack/interactions に送る（ローカルでの動作確認用）
+# 例: npm run slack:interaction -- <連絡先のID> complete
+#     操作は complete（完了）・snooze_tomorrow（明日へ）・snooze_week（1週間後）
+# 押した Slack ユーザーは SLACK_TEAM_ID・SLACK_USER_ID で指定する（連絡先の持ち主と slack_user_links で連携している必要がある）
+# SLACK_SIGNING_SECRET を設定していれば Slack と同じ方法で署名する。送り先は SLACK_INTERACTION_URL で変えられる
+set -e
+
+if [ -z "$1" ]; then
+  echo "使い方: $0 <連絡先のID> [complete|snooze_tomorrow|snooze_week]" >&2
+  exit 1
+fi
+
+CONTACT_ID="$1"
+ACTION="${2:-complete}"
+URL="${SLACK_INTERACTION_URL:-http://localhost:3000/api/slack/interactions}"
+TEAM_ID="${SLACK_TEAM_ID:-T0LOCAL}"
+USER_ID="${SLACK_USER_ID:-U0LOCAL}"
+
+# response_url は Slack 以外の URL のため、メッセージの書き換え結果はレスポンスとして表示される
+PAYLOAD=$(printf '{"type":"block_actions","team":{"id":"%s"},"user":{"id":"%s","username":"local-test"},"response_url":"http://localhost/","actions":[{"action_id":"%s","value":"%s"}]}' "$TEAM_ID" "$USER_ID" "$ACTION" "$CONTACT_ID")
+BODY="payload=$(node -e 'process.stdout.write(encodeURIComponent(process.argv[1]))' "$PAYLOAD")"
+TIMESTAMP=$(date +%s)
+
+if [ -n "$SLACK_SIGNING_SECRET" ]; then
+  SIGNATURE="v0=$(printf 'v0:%s:%s' "$TIMESTAMP" "$BODY" | openssl dgst -sha256 -hmac "$SLACK_SIGNING_SECRET" | sed 's/^.* //')"
+else
+  SIGNATURE=""
+fi
+
+curl -sS -X POST "$URL" \
+  -H 'Content-Type: application/x-www-form-urlencoded' \
+  -H "X-Slack-Request-Timestamp: $TIMESTAMP" \
+  -H "X-Slack-Signature: $SIGNATURE" \
+  --data "$BODY"
+echo
@@ -0,0 +1,56 @@
+-- 0001: contacts テーブルと RLS ポリシー
+-- 当初の README の定義（order_index 列、priority 列なし）。列の修正は 0002 で行う
+
+-- auth スキーマがない環境（素の Postgres）では、以降のマイグレーションが使う最小限の代わりを作る
+-- auth.uid()・auth.jwt() は PostgREST と同じく request.jwt.claims から読む（Supabase では何もしない）
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_namespace WHERE nspname = 'auth') THEN
+    CREATE SCHEMA auth;
+    CREATE TABLE auth.users (
+      id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+      email TEXT
+    );
+    CREATE FUNCTION auth.jwt() RETURNS JSONB LANGUAGE sql STABLE AS
+      $f$ SELECT COALESCE(NULLIF(current_setting('request.jwt.claims', true), ''), '{}')::jsonb $f$;
+    CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql STABLE AS
+      $f$ SELECT NULLIF(auth.jwt() ->> 'sub', '')::uuid $f$;
+  END IF;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS contacts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  purpose TEXT NOT NULL,
+  deadline DATE NOT NULL,
+  status TEXT DEFAULT 'pending',
+  category TEXT DEFAULT 'customer',
+  recurring TEXT,
+  recurring_days INTEGER,
+  recurring_weekday INTEGER,
+  order_index INTEGER,
+  created_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+-- RLS（Row Level Security）を有効化
+ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+
+-- ポリシーを作成（ユーザーは自分のデータのみアクセス可能）
+DROP POLICY IF EXISTS "Users can view own contacts" ON contacts;
+CREATE POLICY "Users can view own contacts" ON contacts
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own contacts" ON contacts;
+CREATE POLICY "Users can insert own contacts" ON contacts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own contacts" ON contacts;
+CREATE POLICY "Users can update own contacts" ON contacts
+  FOR UPDATE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own contacts" ON contacts;
+CREATE POLICY "Users can delete own contacts" ON contacts
+  FOR DELETE USING (auth.uid() = user_id);
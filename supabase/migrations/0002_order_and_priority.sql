@@ -0,0 +1,34 @@
+-- 0002: アプリが書き込む列に合わせる
+-- - order_index → "order"（DbContact.order）
+-- - priority 列を追加（Slack通知の cron が priority = 'A' で絞り込む）
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'contacts' AND column_name = 'order_index'
+  ) THEN
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'contacts' AND column_name = 'order'
+    ) THEN
+      -- 手動で "order" 列を追加済みの環境：order_index の値を引き継いでから削除
+      UPDATE contacts SET "order" = order_index WHERE "order" IS NULL;
+      ALTER TABLE contacts DROP COLUMN order_index;
+    ELSE
+      ALTER TABLE contacts RENAME COLUMN order_index TO "order";
+    END IF;
+  END IF;
+END;
+$$;
+
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS "order" INTEGER DEFAULT 0;
+
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS priority TEXT DEFAULT 'C';
+UPDATE contacts SET priority = 'C' WHERE priority IS NULL;
+
+ALTER TABLE contacts DROP CONSTRAINT IF EXISTS contacts_priority_check;
+ALTER TABLE contacts ADD CONSTRAINT contacts_priority_check CHECK (priority IN ('A', 'B', 'C'));
+
+-- Slack通知の cron（当日期日 & 未完了 & 優先度A）用
+CREATE INDEX IF NOT EXISTS contacts_deadline_status_priority_idx ON contacts (deadline, status, priority);
@@ -0,0 +1,18 @@
+-- 0003: updated_at を更新のたびに設定（オフライン同期時の競合検出に使用）
+
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION set_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contacts_set_updated_at ON contacts;
+CREATE TRIGGER contacts_set_updated_at
+  BEFORE UPDATE ON contacts
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
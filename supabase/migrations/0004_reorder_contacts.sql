@@ -0,0 +1,13 @@
+-- 0004: 並び替え用の関数（手動ソートの順序を1トランザクションで更新）
+-- SECURITY INVOKER のため、RLSポリシーがそのまま適用される
+
+CREATE OR REPLACE FUNCTION reorder_contacts(contact_ids UUID[])
+RETURNS void
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+  UPDATE contacts AS c
+  SET "order" = t.idx - 1
+  FROM unnest(contact_ids) WITH ORDINALITY AS t(id, idx)
+  WHERE c.id = t.id;
+$$;
@@ -0,0 +1,14 @@
+-- 0005: 複数端末の同期用にRealtimeを有効化
+-- supabase_realtime がない環境（素の Postgres）では何もしない
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'contacts'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE contacts;
+  END IF;
+END;
+$$;
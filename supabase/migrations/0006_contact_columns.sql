@@ -0,0 +1,15 @@
+-- 0006: スキーマ確認用の関数（/api/schema が contacts の列と DbContact を照合する）
+-- 列名と型のみを返す。information_schema は PostgREST から直接参照できないため関数で公開する
+
+CREATE OR REPLACE FUNCTION contact_columns()
+RETURNS TABLE (column_name TEXT, data_type TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.column_name::TEXT, c.data_type::TEXT
+  FROM information_schema.columns AS c
+  WHERE c.table_schema = 'public' AND c.table_name = 'contacts'
+  ORDER BY c.ordinal_position;
+$$;
@@ -0,0 +1,28 @@
+-- 0007: サーバー側の絞り込み・検索・カーソル方式のページング
+-- 並び順キーに NULL があるとカーソルで行を取りこぼすため、既存データを埋めて NOT NULL にする
+
+UPDATE contacts SET category = 'customer' WHERE category IS NULL;
+UPDATE contacts SET priority = 'C' WHERE priority IS NULL;
+UPDATE contacts SET "order" = 0 WHERE "order" IS NULL;
+UPDATE contacts SET created_at = NOW() WHERE created_at IS NULL;
+
+ALTER TABLE contacts ALTER COLUMN category SET NOT NULL;
+ALTER TABLE contacts ALTER COLUMN priority SET NOT NULL;
+ALTER TABLE contacts ALTER COLUMN "order" SET NOT NULL;
+ALTER TABLE contacts ALTER COLUMN created_at SET NOT NULL;
+
+-- 名前・目的の部分一致検索（日本語を含む）。全角/半角・大文字/小文字を区別しないよう正規化する
+-- アプリ側の toSearchTerms と同じ正規化（NFKC + 小文字）
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS search_text TEXT
+  GENERATED ALWAYS AS (lower(normalize(name || ' ' || purpose, NFKC))) STORED;
+
+-- トライグラム索引は 3 文字以上の語で使われる（2 文字以下は索引なしで照合）
+CREATE INDEX IF NOT EXISTS contacts_search_text_trgm_idx ON contacts USING gin (search_text gin_trgm_ops);
+
+-- 並び順ごとの索引（user_id で絞り込んだうえでカーソル位置から読む）
+CREATE INDEX IF NOT EXISTS contacts_user_deadline_idx ON contacts (user_id, deadline, id);
+CREATE INDEX IF NOT EXISTS contacts_user_priority_idx ON contacts (user_id, priority, deadline, id);
+CREATE INDEX IF NOT EXISTS contacts_user_created_idx ON contacts (user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS contacts_user_order_idx ON contacts (user_id, "order", id);
@@ -0,0 +1,7 @@
+-- 0008: ゴミ箱（論理削除）
+-- 削除は deleted_at を設定するだけにし、30日後に /api/cron/purge-trash が完全に削除する
+
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- ゴミ箱の一覧と、保持期間を過ぎた行の削除用
+CREATE INDEX IF NOT EXISTS contacts_trashed_idx ON contacts (user_id, deleted_at DESC) WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,102 @@
+-- 0009: 連絡先の操作履歴（追記のみ）
+-- contacts への書き込みをトリガーで記録するため、オフライン同期・一括操作・定期ジョブの変更も漏れなく残る
+-- クライアントには SELECT のみ許可し、変更・削除はできない（連絡先を完全に削除したときのみ CASCADE で消える）
+
+CREATE TABLE IF NOT EXISTS contact_activities (
+  id BIGSERIAL PRIMARY KEY,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN (
+    'created', 'edited', 'completed', 'reopened', 'rescheduled',
+    'priority_changed', 'category_changed', 'deleted', 'restored'
+  )),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  actor_id UUID, -- 操作したユーザー（service role の定期ジョブ等は NULL）
+  actor TEXT, -- 表示用（メールアドレス。定期ジョブ等は 'system'）
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS contact_activities_contact_idx ON contact_activities (contact_id, created_at DESC, id DESC);
+
+ALTER TABLE contact_activities ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own activities" ON contact_activities;
+CREATE POLICY "Users can view own activities" ON contact_activities
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- 変更前後の差分から履歴を追記する（lib/activity.ts の diffActivities と同じ判定）
+CREATE OR REPLACE FUNCTION log_contact_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_actor TEXT := COALESCE(auth.jwt() ->> 'email', 'system');
+  v_fields JSONB := '{}'::jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'created',
+      jsonb_build_object('deadline', NEW.deadline, 'priority', NEW.priority, 'category', NEW.category),
+      v_actor_id, v_actor);
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'deleted', v_actor_id, v_actor);
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'restored', v_actor_id, v_actor);
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM 'completed' AND NEW.status = 'completed' THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'completed', jsonb_build_object('deadline', OLD.deadline), v_actor_id, v_actor);
+  ELSIF OLD.status = 'completed' AND NEW.status IS DISTINCT FROM 'completed' AND NEW.deadline = OLD.deadline THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'reopened', v_actor_id, v_actor);
+  END IF;
+
+  IF NEW.deadline IS DISTINCT FROM OLD.deadline THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'rescheduled',
+      jsonb_build_object('from', OLD.deadline, 'to', NEW.deadline), v_actor_id, v_actor);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'priority_changed',
+      jsonb_build_object('from', OLD.priority, 'to', NEW.priority), v_actor_id, v_actor);
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'category_changed',
+      jsonb_build_object('from', OLD.category, 'to', NEW.category), v_actor_id, v_actor);
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    v_fields := v_fields || jsonb_build_object('name', jsonb_build_object('from', OLD.name, 'to', NEW.name));
+  END IF;
+  IF NEW.purpose IS DISTINCT FROM OLD.purpose THEN
+    v_fields := v_fields || jsonb_build_object('purpose', jsonb_build_object('from', OLD.purpose, 'to', NEW.purpose));
+  END IF;
+  IF NEW.recurring IS DISTINCT FROM OLD.recurring THEN
+    v_fields := v_fields || jsonb_build_object('recurring', jsonb_build_object('from', OLD.recurring, 'to', NEW.recurring));
+  END IF;
+  IF v_fields <> '{}'::jsonb THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'edited', jsonb_build_object('fields', v_fields), v_actor_id, v_actor);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contacts_log_activity ON contacts;
+CREATE TRIGGER contacts_log_activity
+  AFTER INSERT OR UPDATE ON contacts
+  FOR EACH ROW EXECUTE FUNCTION log_contact_activity();
@@ -0,0 +1,124 @@
+-- 0010: 期限切れの状態をDBに保存する
+-- 夜間ジョブ（/api/cron/roll-overdue）が roll_overdue_contacts を呼び、期限切れの未完了の連絡先を本日に繰り越す
+-- 元の期日（original_deadline）は最初に期限切れになったときの期日を残し、期日を変更すると NULL に戻る
+
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS original_deadline DATE;
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS postpone_count INTEGER NOT NULL DEFAULT 0;
+
+-- 並び替え・期日の範囲指定は元の期日で行う（期限切れで本日に繰り越しても並び順が変わらない）
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS sort_deadline DATE
+  GENERATED ALWAYS AS (COALESCE(original_deadline, deadline)) STORED;
+
+DROP INDEX IF EXISTS contacts_user_deadline_idx;
+DROP INDEX IF EXISTS contacts_user_priority_idx;
+CREATE INDEX IF NOT EXISTS contacts_user_sort_deadline_idx ON contacts (user_id, sort_deadline, id);
+CREATE INDEX IF NOT EXISTS contacts_user_priority_sort_deadline_idx ON contacts (user_id, priority, sort_deadline, id);
+
+-- 期限切れの繰り越し（lib/overdue.ts の rollOverdue と同じ処理）。繰り越した件数を返す
+CREATE OR REPLACE FUNCTION roll_overdue_contacts(p_today DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE contacts
+  SET
+    original_deadline = COALESCE(original_deadline, deadline),
+    postpone_count = postpone_count + CASE WHEN original_deadline IS NULL THEN 1 ELSE 0 END,
+    deadline = p_today
+  WHERE status = 'pending'
+    AND deleted_at IS NULL
+    AND deadline < p_today;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- 夜間ジョブ（service role）からのみ呼べるようにする
+REVOKE EXECUTE ON FUNCTION roll_overdue_contacts(DATE) FROM PUBLIC;
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+    REVOKE EXECUTE ON FUNCTION roll_overdue_contacts(DATE) FROM anon, authenticated;
+  END IF;
+END;
+$$;
+
+-- 操作履歴：期日の比較を元の期日で行い、繰り越しだけの変更は「期日を変更」として記録しない
+CREATE OR REPLACE FUNCTION log_contact_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_actor TEXT := COALESCE(auth.jwt() ->> 'email', 'system');
+  v_fields JSONB := '{}'::jsonb;
+  v_old_deadline DATE;
+  v_new_deadline DATE;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'created',
+      jsonb_build_object('deadline', NEW.deadline, 'priority', NEW.priority, 'category', NEW.category),
+      v_actor_id, v_actor);
+    RETURN NEW;
+  END IF;
+
+  v_old_deadline := COALESCE(OLD.original_deadline, OLD.deadline);
+  v_new_deadline := COALESCE(NEW.original_deadline, NEW.deadline);
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'deleted', v_actor_id, v_actor);
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'restored', v_actor_id, v_actor);
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM 'completed' AND NEW.status = 'completed' THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'completed', jsonb_build_object('deadline', v_old_deadline), v_actor_id, v_actor);
+  ELSIF OLD.status = 'completed' AND NEW.status IS DISTINCT FROM 'completed' AND NEW.deadline = OLD.deadline THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'reopened', v_actor_id, v_actor);
+  END IF;
+
+  IF v_new_deadline IS DISTINCT FROM v_old_deadline THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'rescheduled',
+      jsonb_build_object('from', v_old_deadline, 'to', v_new_deadline), v_actor_id, v_actor);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'priority_changed',
+      jsonb_build_object('from', OLD.priority, 'to', NEW.priority), v_actor_id, v_actor);
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'category_changed',
+      jsonb_build_object('from', OLD.category, 'to', NEW.category), v_actor_id, v_actor);
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    v_fields := v_fields || jsonb_build_object('name', jsonb_build_object('from', OLD.name, 'to', NEW.name));
+  END IF;
+  IF NEW.purpose IS DISTINCT FROM OLD.purpose THEN
+    v_fields := v_fields || jsonb_build_object('purpose', jsonb_build_object('from', OLD.purpose, 'to', NEW.purpose));
+  END IF;
+  IF NEW.recurring IS DISTINCT FROM OLD.recurring THEN
+    v_fields := v_fields || jsonb_build_object('recurring', jsonb_build_object('from', OLD.recurring, 'to', NEW.recurring));
+  END IF;
+  IF v_fields <> '{}'::jsonb THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'edited', jsonb_build_object('fields', v_fields), v_actor_id, v_actor);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
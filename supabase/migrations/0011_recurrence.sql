@@ -0,0 +1,87 @@
+-- 0011: 繰り返しの連絡先の自動リスケジュール
+-- 繰り返しの連絡先を完了すると、アプリは status を pending のまま completed_at と次回の期日を1回の更新で書き込む
+-- 操作履歴では completed_at が新しくなったことを1回分の完了として記録し、期日の変更は別に記録しない
+
+CREATE OR REPLACE FUNCTION log_contact_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_actor TEXT := COALESCE(auth.jwt() ->> 'email', 'system');
+  v_fields JSONB := '{}'::jsonb;
+  v_old_deadline DATE;
+  v_new_deadline DATE;
+  v_occurrence_completed BOOLEAN;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'created',
+      jsonb_build_object('deadline', NEW.deadline, 'priority', NEW.priority, 'category', NEW.category),
+      v_actor_id, v_actor);
+    RETURN NEW;
+  END IF;
+
+  v_old_deadline := COALESCE(OLD.original_deadline, OLD.deadline);
+  v_new_deadline := COALESCE(NEW.original_deadline, NEW.deadline);
+  v_occurrence_completed := NEW.status = 'pending'
+    AND NEW.completed_at IS NOT NULL
+    AND NEW.completed_at IS DISTINCT FROM OLD.completed_at;
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'deleted', v_actor_id, v_actor);
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'restored', v_actor_id, v_actor);
+  END IF;
+
+  IF v_occurrence_completed THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'completed',
+      jsonb_build_object('deadline', v_old_deadline, 'next', v_new_deadline), v_actor_id, v_actor);
+  ELSIF OLD.status IS DISTINCT FROM 'completed' AND NEW.status = 'completed' THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'completed', jsonb_build_object('deadline', v_old_deadline), v_actor_id, v_actor);
+  ELSIF OLD.status = 'completed' AND NEW.status IS DISTINCT FROM 'completed' AND NEW.deadline = OLD.deadline THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'reopened', v_actor_id, v_actor);
+  END IF;
+
+  IF NOT v_occurrence_completed AND v_new_deadline IS DISTINCT FROM v_old_deadline THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'rescheduled',
+      jsonb_build_object('from', v_old_deadline, 'to', v_new_deadline), v_actor_id, v_actor);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'priority_changed',
+      jsonb_build_object('from', OLD.priority, 'to', NEW.priority), v_actor_id, v_actor);
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'category_changed',
+      jsonb_build_object('from', OLD.category, 'to', NEW.category), v_actor_id, v_actor);
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    v_fields := v_fields || jsonb_build_object('name', jsonb_build_object('from', OLD.name, 'to', NEW.name));
+  END IF;
+  IF NEW.purpose IS DISTINCT FROM OLD.purpose THEN
+    v_fields := v_fields || jsonb_build_object('purpose', jsonb_build_object('from', OLD.purpose, 'to', NEW.purpose));
+  END IF;
+  IF NEW.recurring IS DISTINCT FROM OLD.recurring THEN
+    v_fields := v_fields || jsonb_build_object('recurring', jsonb_build_object('from', OLD.recurring, 'to', NEW.recurring));
+  END IF;
+  IF v_fields <> '{}'::jsonb THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'edited', jsonb_build_object('fields', v_fields), v_actor_id, v_actor);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
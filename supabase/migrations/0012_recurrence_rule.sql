@@ -0,0 +1,119 @@
+-- 0012: 繰り返しを RFC 5545 の RRULE 文字列（recurrence_rule）で保存する
+-- 以前の列（recurring / recurring_days / recurring_weekday）の値を RRULE に変換してから削除する
+
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS recurrence_rule TEXT;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'contacts' AND column_name = 'recurring'
+  ) THEN
+    UPDATE contacts
+    SET recurrence_rule = CASE recurring
+      WHEN 'daily' THEN 'FREQ=DAILY'
+      WHEN 'weekly' THEN 'FREQ=WEEKLY' || CASE
+        WHEN recurring_weekday BETWEEN 0 AND 6
+          THEN ';BYDAY=' || (ARRAY['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'])[recurring_weekday + 1]
+        ELSE ''
+      END
+      WHEN 'monthly' THEN 'FREQ=MONTHLY'
+      WHEN 'custom' THEN CASE
+        WHEN recurring_days = 1 THEN 'FREQ=DAILY'
+        WHEN recurring_days > 1 THEN 'FREQ=DAILY;INTERVAL=' || recurring_days
+      END
+    END
+    WHERE recurrence_rule IS NULL AND recurring IS NOT NULL;
+
+    ALTER TABLE contacts
+      DROP COLUMN recurring,
+      DROP COLUMN recurring_days,
+      DROP COLUMN recurring_weekday;
+  END IF;
+END;
+$$;
+
+-- 操作履歴：繰り返しの変更は recurrence_rule で比較する（履歴上の項目名は recurring のまま）
+CREATE OR REPLACE FUNCTION log_contact_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_actor TEXT := COALESCE(auth.jwt() ->> 'email', 'system');
+  v_fields JSONB := '{}'::jsonb;
+  v_old_deadline DATE;
+  v_new_deadline DATE;
+  v_occurrence_completed BOOLEAN;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'created',
+      jsonb_build_object('deadline', NEW.deadline, 'priority', NEW.priority, 'category', NEW.category),
+      v_actor_id, v_actor);
+    RETURN NEW;
+  END IF;
+
+  v_old_deadline := COALESCE(OLD.original_deadline, OLD.deadline);
+  v_new_deadline := COALESCE(NEW.original_deadline, NEW.deadline);
+  v_occurrence_completed := NEW.status = 'pending'
+    AND NEW.completed_at IS NOT NULL
+    AND NEW.completed_at IS DISTINCT FROM OLD.completed_at;
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'deleted', v_actor_id, v_actor);
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'restored', v_actor_id, v_actor);
+  END IF;
+
+  IF v_occurrence_completed THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'completed',
+      jsonb_build_object('deadline', v_old_deadline, 'next', v_new_deadline), v_actor_id, v_actor);
+  ELSIF OLD.status IS DISTINCT FROM 'completed' AND NEW.status = 'completed' THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'completed', jsonb_build_object('deadline', v_old_deadline), v_actor_id, v_actor);
+  ELSIF OLD.status = 'completed' AND NEW.status IS DISTINCT FROM 'completed' AND NEW.deadline = OLD.deadline THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'reopened', v_actor_id, v_actor);
+  END IF;
+
+  IF NOT v_occurrence_completed AND v_new_deadline IS DISTINCT FROM v_old_deadline THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'rescheduled',
+      jsonb_build_object('from', v_old_deadline, 'to', v_new_deadline), v_actor_id, v_actor);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'priority_changed',
+      jsonb_build_object('from', OLD.priority, 'to', NEW.priority), v_actor_id, v_actor);
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'category_changed',
+      jsonb_build_object('from', OLD.category, 'to', NEW.category), v_actor_id, v_actor);
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    v_fields := v_fields || jsonb_build_object('name', jsonb_build_object('from', OLD.name, 'to', NEW.name));
+  END IF;
+  IF NEW.purpose IS DISTINCT FROM OLD.purpose THEN
+    v_fields := v_fields || jsonb_build_object('purpose', jsonb_build_object('from', OLD.purpose, 'to', NEW.purpose));
+  END IF;
+  IF NEW.recurrence_rule IS DISTINCT FROM OLD.recurrence_rule THEN
+    v_fields := v_fields || jsonb_build_object('recurring', jsonb_build_object('from', OLD.recurrence_rule, 'to', NEW.recurrence_rule));
+  END IF;
+  IF v_fields <> '{}'::jsonb THEN
+    INSERT INTO contact_activities (contact_id, user_id, type, details, actor_id, actor)
+    VALUES (NEW.id, NEW.user_id, 'edited', jsonb_build_object('fields', v_fields), v_actor_id, v_actor);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,12 @@
+-- 0013: 繰り返しの終了条件と一時停止
+-- 終了条件（UNTIL・COUNT）は recurrence_rule の RRULE に含め、COUNT は完了した回数（occurrence_count）で数える
+-- recurrence_anchor は現在の回のルール上の本来の日付。「この回だけ」期日を変えても、次の回はここから数える
+
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS recurrence_anchor DATE;
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS recurrence_paused_until DATE;
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS occurrence_count INTEGER NOT NULL DEFAULT 0;
+
+-- 既存の繰り返しは、現在の期日（期限切れの場合は元の期日）を本来の日付とする
+UPDATE contacts
+SET recurrence_anchor = COALESCE(original_deadline, deadline)
+WHERE recurrence_rule IS NOT NULL AND recurrence_anchor IS NULL;
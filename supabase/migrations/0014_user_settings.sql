@@ -0,0 +1,83 @@
+-- 0014: ユーザーごとの設定（タイムゾーン）
+-- 「今日」は画面・夜間ジョブともに利用者のタイムゾーンで決める（lib/dates.ts の todayIn）
+-- 設定がないユーザーは日本時間とする
+
+CREATE TABLE IF NOT EXISTS user_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  time_zone TEXT NOT NULL DEFAULT 'Asia/Tokyo', -- IANA のタイムゾーン名（例：Asia/Tokyo）
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own settings" ON user_settings;
+CREATE POLICY "Users can view own settings" ON user_settings
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own settings" ON user_settings;
+CREATE POLICY "Users can insert own settings" ON user_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own settings" ON user_settings;
+CREATE POLICY "Users can update own settings" ON user_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS user_settings_set_updated_at ON user_settings;
+CREATE TRIGGER user_settings_set_updated_at
+  BEFORE UPDATE ON user_settings
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- ユーザーのタイムゾーンでの今日（設定がない・不正なタイムゾーンは日本時間）
+CREATE OR REPLACE FUNCTION user_today(p_user_id UUID)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (NOW() AT TIME ZONE COALESCE(
+    (SELECT s.time_zone FROM user_settings s
+      WHERE s.user_id = p_user_id
+        AND s.time_zone IN (SELECT name FROM pg_timezone_names)),
+    'Asia/Tokyo'
+  ))::date;
+$$;
+
+-- 期限切れの繰り越しを、ユーザーごとのタイムゾーンでの今日で行う（1時間ごとに実行し、各地の日付の変わり目に追従する）
+-- 以前の日付を受け取る版（0010）は使わない
+DROP FUNCTION IF EXISTS roll_overdue_contacts(DATE);
+
+CREATE OR REPLACE FUNCTION roll_overdue_contacts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH targets AS (
+    SELECT c.id, user_today(c.user_id) AS today
+    FROM contacts c
+    WHERE c.status = 'pending'
+      AND c.deleted_at IS NULL
+      AND c.deadline < user_today(c.user_id)
+  )
+  UPDATE contacts
+  SET
+    original_deadline = COALESCE(contacts.original_deadline, contacts.deadline),
+    postpone_count = contacts.postpone_count + CASE WHEN contacts.original_deadline IS NULL THEN 1 ELSE 0 END,
+    deadline = targets.today
+  FROM targets
+  WHERE contacts.id = targets.id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- 夜間ジョブ（service role）からのみ呼べるようにする
+REVOKE EXECUTE ON FUNCTION roll_overdue_contacts() FROM PUBLIC;
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+    REVOKE EXECUTE ON FUNCTION roll_overdue_contacts() FROM anon, authenticated;
+  END IF;
+END;
+$$;
@@ -0,0 +1,34 @@
+-- 0015: 期日の時刻と、時刻の何分前かの通知
+-- 時刻は利用者のタイムゾーン（user_settings.time_zone）での時刻。時刻のない連絡先は終日として扱う
+-- 通知は定期ジョブ（/api/cron/reminders）が送り、送信済みを reminder_deliveries に記録して二重に送らない
+
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS due_time TIME;
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS reminder_offsets INTEGER[] NOT NULL DEFAULT '{}';
+
+-- 同じ期日の中は時刻順、時刻のないものは最後（lib/contacts.ts の sortDueTime と同じ）
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS sort_due_time TIME
+  GENERATED ALWAYS AS (COALESCE(due_time, '24:00'::time)) STORED;
+
+DROP INDEX IF EXISTS contacts_user_sort_deadline_idx;
+DROP INDEX IF EXISTS contacts_user_priority_sort_deadline_idx;
+CREATE INDEX IF NOT EXISTS contacts_user_sort_deadline_time_idx ON contacts (user_id, sort_deadline, sort_due_time, id);
+CREATE INDEX IF NOT EXISTS contacts_user_priority_sort_deadline_time_idx
+  ON contacts (user_id, priority, sort_deadline, sort_due_time, id);
+
+-- 通知の送信記録（連絡先・期日の日時・何分前・送信先ごとに1回）
+-- 期日や時刻を変えると due_at が変わるため、新しい日時で改めて通知する
+CREATE TABLE IF NOT EXISTS reminder_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  due_at TIMESTAMPTZ NOT NULL,
+  offset_minutes INTEGER NOT NULL,
+  channel TEXT NOT NULL, -- 'slack' など
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (contact_id, due_at, offset_minutes, channel)
+);
+
+CREATE INDEX IF NOT EXISTS reminder_deliveries_sent_at_idx ON reminder_deliveries (sent_at);
+
+-- 定期ジョブ（service role）のみが読み書きする
+ALTER TABLE reminder_deliveries ENABLE ROW LEVEL SECURITY;
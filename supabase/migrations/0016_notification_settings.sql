@@ -0,0 +1,31 @@
+-- 0016: ユーザーごとの Slack 通知の設定
+-- 以前は環境変数 SLACK_WEBHOOK_URL の1つのチャンネルに全ユーザーの連絡先を送っていた
+-- 定期ジョブ（/api/cron/slack-notify・/api/cron/reminders）はユーザーごとに、その人の Webhook にその人の連絡先だけを送る
+
+CREATE TABLE IF NOT EXISTS notification_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  slack_webhook_url TEXT CHECK (slack_webhook_url IS NULL OR slack_webhook_url LIKE 'https://hooks.slack.com/services/%'),
+  slack_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  slack_send_time TIME NOT NULL DEFAULT '08:30', -- 毎朝のまとめを送る時刻（利用者のタイムゾーン）
+  slack_last_sent_on DATE, -- 最後にまとめを送った日（定期ジョブが設定。1日1回にする）
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE notification_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notification settings" ON notification_settings;
+CREATE POLICY "Users can view own notification settings" ON notification_settings
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own notification settings" ON notification_settings;
+CREATE POLICY "Users can insert own notification settings" ON notification_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own notification settings" ON notification_settings;
+CREATE POLICY "Users can update own notification settings" ON notification_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS notification_settings_set_updated_at ON notification_settings;
+CREATE TRIGGER notification_settings_set_updated_at
+  BEFORE UPDATE ON notification_settings
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
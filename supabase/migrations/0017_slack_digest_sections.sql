@@ -0,0 +1,9 @@
+-- 0017: 毎朝の Slack のまとめに含める項目をユーザーごとに選べるようにする
+-- 項目：overdue（期限切れ）・today（本日の期日、優先度別）・upcoming（今後7日間）・categories（カテゴリ別の件数）
+
+ALTER TABLE notification_settings
+  ADD COLUMN IF NOT EXISTS slack_digest_sections TEXT[] NOT NULL DEFAULT ARRAY['overdue', 'today', 'upcoming', 'categories'];
+
+ALTER TABLE notification_settings DROP CONSTRAINT IF EXISTS notification_settings_slack_digest_sections_check;
+ALTER TABLE notification_settings ADD CONSTRAINT notification_settings_slack_digest_sections_check
+  CHECK (slack_digest_sections <@ ARRAY['overdue', 'today', 'upcoming', 'categories']);
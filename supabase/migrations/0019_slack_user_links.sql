@@ -0,0 +1,36 @@
+-- 0019: Slack のユーザーとアプリのユーザーの連携（スラッシュコマンド /deadline 用）
+-- 連携していない Slack ユーザーがコマンドを使うと、slack_link_requests に使い捨てのコードを作り、
+-- ログイン中のアプリでそのコードを確認して slack_user_links に登録する（/api/slack/link）
+
+CREATE TABLE IF NOT EXISTS slack_user_links (
+  slack_team_id TEXT NOT NULL,
+  slack_user_id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  slack_user_name TEXT, -- 表示用
+  linked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (slack_team_id, slack_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS slack_user_links_user_id_idx ON slack_user_links (user_id);
+
+-- 登録はサーバー（service role）のみ。本人は確認と解除ができる
+ALTER TABLE slack_user_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own slack links" ON slack_user_links;
+CREATE POLICY "Users can view own slack links" ON slack_user_links
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own slack links" ON slack_user_links;
+CREATE POLICY "Users can delete own slack links" ON slack_user_links
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS slack_link_requests (
+  code TEXT PRIMARY KEY,
+  slack_team_id TEXT NOT NULL,
+  slack_user_id TEXT NOT NULL,
+  slack_user_name TEXT,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- サーバー（service role）のみが読み書きする
+ALTER TABLE slack_link_requests ENABLE ROW LEVEL SECURITY;
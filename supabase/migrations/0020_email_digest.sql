@@ -0,0 +1,11 @@
+-- 0020: 毎朝のまとめをメールでも送る（/api/cron/email-digest が SMTP で送信）
+-- 配信停止のリンクは email_unsubscribe_token で本人を特定する（ログイン不要）
+
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS email_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS email_address TEXT;
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS email_send_time TIME NOT NULL DEFAULT '08:00'; -- 利用者のタイムゾーン
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS email_last_sent_on DATE; -- 最後にまとめを送った日（定期ジョブが設定）
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS email_unsubscribe_token UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS notification_settings_email_unsubscribe_token_idx
+  ON notification_settings (email_unsubscribe_token);
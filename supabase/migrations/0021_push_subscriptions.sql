@@ -0,0 +1,33 @@
+-- 0021: Web Push の購読（ユーザー・端末ごと）
+-- 画面を閉じていても、定期ジョブ（/api/cron/push）が通知の時刻にプッシュ通知を送る
+-- 同じ通知を二重に送らないよう、送信済みは reminder_deliveries（channel = 'push'）に記録する
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE, -- ブラウザのプッシュサービスの URL（端末ごとに異なる）
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT, -- 表示用（どの端末か）
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS push_subscriptions_user_id_idx ON push_subscriptions (user_id);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own push subscriptions" ON push_subscriptions;
+CREATE POLICY "Users can view own push subscriptions" ON push_subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own push subscriptions" ON push_subscriptions;
+CREATE POLICY "Users can insert own push subscriptions" ON push_subscriptions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own push subscriptions" ON push_subscriptions;
+CREATE POLICY "Users can update own push subscriptions" ON push_subscriptions
+  FOR UPDATE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own push subscriptions" ON push_subscriptions;
+CREATE POLICY "Users can delete own push subscriptions" ON push_subscriptions
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,30 @@
+-- 0022: 期日を基準にした通知のルール（◯日前・当日・期限切れの間は毎日）
+-- ルールは連絡先ごと（contacts.reminder_rules）か、カテゴリごとの既定（user_settings.category_reminder_rules）で決める
+--   before:N … 期日の N 日前の朝、day … 期日の朝、overdue … 期限切れのあいだ毎朝（lib/reminders.ts）
+-- 定期ジョブ（/api/cron/reminders）がルールを評価し、ユーザーが有効にしている送信先（Slack・メール・プッシュ通知）に送る
+
+-- NULL ならカテゴリの既定に従う（空の配列はルールの通知をしない）
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS reminder_rules TEXT[];
+
+ALTER TABLE contacts DROP CONSTRAINT IF EXISTS contacts_reminder_rules_check;
+ALTER TABLE contacts ADD CONSTRAINT contacts_reminder_rules_check CHECK (
+  reminder_rules IS NULL
+  OR array_to_string(reminder_rules, ',') ~ '^((before:([1-9]|[12][0-9]|30)|day|overdue)(,|$))*$'
+);
+
+-- カテゴリ → ルールの配列（例：{"customer": ["before:3", "day"]}）。ないカテゴリは既定の通知
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS category_reminder_rules JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE user_settings DROP CONSTRAINT IF EXISTS user_settings_category_reminder_rules_check;
+ALTER TABLE user_settings ADD CONSTRAINT user_settings_category_reminder_rules_check
+  CHECK (jsonb_typeof(category_reminder_rules) = 'object');
+
+-- 送信記録にルールを加え、同じ日に複数のルールの通知があっても区別する（時刻の通知は ''）
+ALTER TABLE reminder_deliveries ADD COLUMN IF NOT EXISTS rule TEXT NOT NULL DEFAULT '';
+
+-- 以前の「本日の連絡」（offset_minutes = -1）は day のルールの通知として扱い、送り直さない
+UPDATE reminder_deliveries SET rule = 'day' WHERE offset_minutes = -1 AND rule = '';
+
+ALTER TABLE reminder_deliveries DROP CONSTRAINT IF EXISTS reminder_deliveries_contact_id_due_at_offset_minutes_channel_key;
+CREATE UNIQUE INDEX IF NOT EXISTS reminder_deliveries_unique_idx
+  ON reminder_deliveries (contact_id, due_at, offset_minutes, rule, channel);
@@ -0,0 +1,136 @@
+-- 0023: 連絡先のイベントを外部の URL に送る Webhook（CRM・社内ツールとの連携用）
+-- イベント：contact.created（作成）・contact.completed（完了。繰り返しの回の完了を含む）・
+--           contact.overdue（期限切れ）・contact.deleted（ゴミ箱へ移動）
+-- contacts への書き込み時にトリガーが送信待ちを webhook_deliveries に積み、
+-- 定期ジョブ（/api/cron/webhooks）が署名付きで送る（失敗したら間隔を空けて再送する。lib/webhooks.ts）
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  url TEXT NOT NULL CHECK (url ~ '^https?://'),
+  description TEXT NOT NULL DEFAULT '',
+  events TEXT[] NOT NULL DEFAULT '{}' CHECK (
+    events <@ ARRAY['contact.created', 'contact.completed', 'contact.overdue', 'contact.deleted']
+  ),
+  -- 署名（HMAC-SHA256）の鍵。エンドポイントごとに DB が生成する
+  secret TEXT NOT NULL DEFAULT 'whsec_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_endpoints_user_id_idx ON webhook_endpoints (user_id);
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own webhook endpoints" ON webhook_endpoints;
+CREATE POLICY "Users can view own webhook endpoints" ON webhook_endpoints
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own webhook endpoints" ON webhook_endpoints;
+CREATE POLICY "Users can insert own webhook endpoints" ON webhook_endpoints
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own webhook endpoints" ON webhook_endpoints;
+CREATE POLICY "Users can update own webhook endpoints" ON webhook_endpoints
+  FOR UPDATE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own webhook endpoints" ON webhook_endpoints;
+CREATE POLICY "Users can delete own webhook endpoints" ON webhook_endpoints
+  FOR DELETE USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS webhook_endpoints_set_updated_at ON webhook_endpoints;
+CREATE TRIGGER webhook_endpoints_set_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- 送信ログ（1イベント・1エンドポイントごとに1行。再送のたびに attempts を増やす）
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(), -- 受信側の重複排除に使える（X-Webhook-Delivery）
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event TEXT NOT NULL, -- contact.created など（テスト送信は webhook.test）
+  payload JSONB NOT NULL, -- { id（イベントの ID）, event, created_at, data: contacts の行（DbContact） }
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  response_status INTEGER, -- 最後の送信の HTTP ステータス（接続できなければ NULL）
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_pending_idx ON webhook_deliveries (next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS webhook_deliveries_endpoint_idx ON webhook_deliveries (endpoint_id, created_at DESC);
+
+-- 画面からは読むだけ（書き込みはトリガーと定期ジョブ・テスト送信の API（service role）のみ）
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own webhook deliveries" ON webhook_deliveries;
+CREATE POLICY "Users can view own webhook deliveries" ON webhook_deliveries
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- contacts の変更からイベントを決め、そのイベントを購読している有効なエンドポイントごとに送信待ちを積む
+CREATE OR REPLACE FUNCTION enqueue_contact_webhooks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row contacts%ROWTYPE;
+  v_events TEXT[] := '{}';
+  v_event TEXT;
+  v_event_id UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_row := NEW;
+    v_events := ARRAY['contact.created'];
+  ELSIF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+    -- ゴミ箱から完全に削除したときは、ゴミ箱へ移動したときに送っている
+    IF OLD.deleted_at IS NULL THEN
+      v_events := ARRAY['contact.deleted'];
+    END IF;
+  ELSE
+    v_row := NEW;
+    IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+      v_events := v_events || 'contact.deleted'::text;
+    END IF;
+    -- 完了（繰り返しの回の完了は、status は pending のまま completed_at が変わる。0018 と同じ判定）
+    IF (OLD.status IS DISTINCT FROM 'completed' AND NEW.status = 'completed')
+      OR (NEW.status = 'pending' AND NEW.completed_at IS NOT NULL AND NEW.completed_at IS DISTINCT FROM OLD.completed_at) THEN
+      v_events := v_events || 'contact.completed'::text;
+    END IF;
+    -- 夜間ジョブが期限切れとして繰り越したとき（roll_overdue_contacts が original_deadline を設定する）
+    IF OLD.original_deadline IS NULL AND NEW.original_deadline IS NOT NULL THEN
+      v_events := v_events || 'contact.overdue'::text;
+    END IF;
+  END IF;
+
+  FOREACH v_event IN ARRAY v_events LOOP
+    v_event_id := gen_random_uuid(); -- 同じイベントはどのエンドポイントにも同じ ID で送る
+    INSERT INTO webhook_deliveries (endpoint_id, user_id, event, payload)
+    SELECT e.id, e.user_id, v_event, jsonb_build_object(
+      'id', v_event_id,
+      'event', v_event,
+      'created_at', NOW(),
+      'data', to_jsonb(v_row)
+    )
+    FROM webhook_endpoints e
+    WHERE e.user_id = v_row.user_id
+      AND e.enabled
+      AND v_event = ANY (e.events);
+  END LOOP;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contacts_enqueue_webhooks ON contacts;
+CREATE TRIGGER contacts_enqueue_webhooks
+  AFTER INSERT OR UPDATE OR DELETE ON contacts
+  FOR EACH ROW EXECUTE FUNCTION enqueue_contact_webhooks();
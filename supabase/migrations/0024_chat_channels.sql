@@ -0,0 +1,43 @@
+-- 0024: Slack 以外のチャット（Microsoft Teams・Discord・LINE）への通知
+-- 毎朝のまとめ（digest_channel）と期日の通知（reminder_channel）を、それぞれどのチャットに送るか選ぶ（NULL なら送らない）
+-- 送信は lib/notifiers.ts の各チャットの通知先が行う。slack_enabled はこの2列に置き換える（0027 で削除）
+-- まとめの送信時刻・項目・送信日（slack_send_time・slack_digest_sections・slack_last_sent_on）は、送り先のチャットに関わらずこの列を使う
+
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS teams_webhook_url TEXT; -- Teams の Incoming Webhook（またはワークフロー）の URL
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS discord_webhook_url TEXT;
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS line_user_id TEXT; -- LINE 公式アカウントを友だち追加したユーザーの ID
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS digest_channel TEXT;
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS reminder_channel TEXT;
+
+ALTER TABLE notification_settings DROP CONSTRAINT IF EXISTS notification_settings_discord_webhook_url_check;
+ALTER TABLE notification_settings ADD CONSTRAINT notification_settings_discord_webhook_url_check CHECK (
+  discord_webhook_url IS NULL
+  OR discord_webhook_url ~ '^https://(discord\.com|discordapp\.com|ptb\.discord\.com|canary\.discord\.com)/api/webhooks/'
+);
+
+ALTER TABLE notification_settings DROP CONSTRAINT IF EXISTS notification_settings_line_user_id_check;
+ALTER TABLE notification_settings ADD CONSTRAINT notification_settings_line_user_id_check
+  CHECK (line_user_id IS NULL OR line_user_id ~ '^U[0-9a-f]{32}$');
+
+ALTER TABLE notification_settings DROP CONSTRAINT IF EXISTS notification_settings_digest_channel_check;
+ALTER TABLE notification_settings ADD CONSTRAINT notification_settings_digest_channel_check
+  CHECK (digest_channel IS NULL OR digest_channel IN ('slack', 'teams', 'discord', 'line'));
+
+ALTER TABLE notification_settings DROP CONSTRAINT IF EXISTS notification_settings_reminder_channel_check;
+ALTER TABLE notification_settings ADD CONSTRAINT notification_settings_reminder_channel_check
+  CHECK (reminder_channel IS NULL OR reminder_channel IN ('slack', 'teams', 'discord', 'line'));
+
+-- Slack に通知していたユーザーは、まとめ・期日の通知とも Slack に送り続ける（slack_enabled は 0027 で削除する）
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notification_settings' AND column_name = 'slack_enabled'
+  ) THEN
+    UPDATE notification_settings
+      SET digest_channel = 'slack', reminder_channel = 'slack'
+      WHERE slack_enabled AND digest_channel IS NULL AND reminder_channel IS NULL;
+  END IF;
+END $$;
+
+-- 期日の通知の送信記録（reminder_deliveries.channel）は 'slack'・'teams'・'discord'・'line'・'email'・'push'
@@ -0,0 +1,10 @@
+-- 0025: Slack の連携を、コマンドを実行した Slack ユーザー本人が確認してから登録する
+-- 以前はアプリで連携用のリンクを開いて確認するだけで、リンクを作った Slack ユーザーと連携していた（他人のリンクを開くと乗っ取られる）
+--   1. 連携していない Slack ユーザーが /deadline を使うと、連携用のリンク（code）を返す
+--   2. アプリでリンクを開き、Slack のユーザー名とワークスペースを確認して承認すると、確認コード（verification_code）を表示する
+--   3. 同じ Slack ユーザーが /deadline link <確認コード> を実行すると、slack_user_links に登録する（/api/slack/commands）
+
+ALTER TABLE slack_link_requests ADD COLUMN IF NOT EXISTS slack_team_name TEXT; -- 表示用（ワークスペースのドメイン）
+ALTER TABLE slack_link_requests ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE; -- 承認したアプリのユーザー
+ALTER TABLE slack_link_requests ADD COLUMN IF NOT EXISTS verification_code TEXT; -- 承認したときに発行する
+ALTER TABLE slack_link_requests ADD COLUMN IF NOT EXISTS failed_attempts INTEGER NOT NULL DEFAULT 0; -- 確認コードの入力の失敗回数
@@ -0,0 +1,30 @@
+-- 0026: Webhook の送信先は https のみにし、送信ログに受信側の応答本文を残さない
+-- 送信のたびに送信先のホスト名を名前解決し、社内ネットワークなど外から届かないアドレスには送らない（lib/webhookDelivery.ts）
+-- last_error は失敗の種類（lib/webhooks.ts の WebhookError）のみ。HTTP ステータスは response_status
+
+-- http の送信先は無効にする（https の URL に変えるまで再び有効にはできない）
+UPDATE webhook_endpoints SET enabled = FALSE WHERE url !~ '^https://' AND enabled;
+
+ALTER TABLE webhook_endpoints DROP CONSTRAINT IF EXISTS webhook_endpoints_url_check;
+ALTER TABLE webhook_endpoints ADD CONSTRAINT webhook_endpoints_url_check CHECK (url ~ '^https://') NOT VALID;
+
+-- これまでに記録した応答本文・エラーの詳細は消し、失敗の種類に置き換える
+UPDATE webhook_deliveries
+  SET last_error = CASE
+    WHEN last_error = '送信先が無効になっています' THEN 'disabled'
+    WHEN last_error = '送信先の URL が不正です' THEN 'invalid_url'
+    WHEN response_status IS NULL THEN 'connection_failed'
+    WHEN response_status BETWEEN 300 AND 399 THEN 'redirect'
+    ELSE 'http_error'
+  END
+  WHERE last_error IS NOT NULL
+    AND last_error NOT IN (
+      'disabled', 'invalid_url', 'blocked_address', 'dns_failed', 'timeout', 'connection_failed', 'redirect', 'http_error'
+    );
+
+ALTER TABLE webhook_deliveries DROP CONSTRAINT IF EXISTS webhook_deliveries_last_error_check;
+ALTER TABLE webhook_deliveries ADD CONSTRAINT webhook_deliveries_last_error_check CHECK (
+  last_error IS NULL OR last_error IN (
+    'disabled', 'invalid_url', 'blocked_address', 'dns_failed', 'timeout', 'connection_failed', 'redirect', 'http_error'
+  )
+);
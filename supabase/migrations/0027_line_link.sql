@@ -0,0 +1,25 @@
+-- 0027: LINE の連携（ユーザー ID を入力する代わりに、公式アカウントを友だち追加して連携する）
+--   1. 公式アカウントを友だち追加（またはメッセージを送信）すると、Webhook（/api/line/webhook）が連携用のリンク（code）を返す
+--   2. アプリでリンクを開き、LINE の表示名を確認して承認すると、確認コード（verification_code）を表示する
+--   3. 同じ LINE ユーザーが確認コードを公式アカウントに送ると、notification_settings.line_user_id に登録する
+-- あわせて、0024 で digest_channel・reminder_channel に置き換えた slack_enabled を削除する
+
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS line_display_name TEXT; -- 表示用（連携したときの LINE の表示名）
+
+CREATE TABLE IF NOT EXISTS line_link_requests (
+  code TEXT PRIMARY KEY,
+  line_user_id TEXT NOT NULL CHECK (line_user_id ~ '^U[0-9a-f]{32}$'),
+  line_display_name TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- 承認したアプリのユーザー
+  verification_code TEXT, -- 承認したときに発行する
+  failed_attempts INTEGER NOT NULL DEFAULT 0, -- 確認コードの入力の失敗回数
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS line_link_requests_line_user_id_idx ON line_link_requests (line_user_id);
+
+-- サーバー（service role）のみが読み書きする
+ALTER TABLE line_link_requests ENABLE ROW LEVEL SECURITY;
+
+-- 0024 で Slack に通知していたユーザーは digest_channel・reminder_channel に移してある
+ALTER TABLE notification_settings DROP COLUMN IF EXISTS slack_enabled;
@@ -0,0 +1,42 @@
+-- 0028: notification_settings の、サーバーのみが書き込む列をログインユーザーから変更させない
+-- RLS は行単位のため、自分の行なら PostgREST からどの列でも書き込めていた
+-- （line_user_id を任意の ID にすると、連携の確認を経ずに他人の LINE に通知を送れる）
+-- サーバー（service role。auth.uid() が NULL）の書き込みはそのまま通す
+
+CREATE OR REPLACE FUNCTION protect_notification_settings_server_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- 画面から作る行は、サーバーのみが書き込む列を既定の値にする
+    NEW.line_user_id := NULL;
+    NEW.line_display_name := NULL;
+    NEW.slack_last_sent_on := NULL;
+    NEW.email_last_sent_on := NULL;
+    NEW.email_unsubscribe_token := gen_random_uuid();
+    RETURN NEW;
+  END IF;
+
+  -- LINE の連携の解除（NULL にする）だけは画面から行える
+  IF (NEW.line_user_id IS NOT NULL AND NEW.line_user_id IS DISTINCT FROM OLD.line_user_id)
+    OR (NEW.line_display_name IS NOT NULL AND NEW.line_display_name IS DISTINCT FROM OLD.line_display_name)
+    OR NEW.slack_last_sent_on IS DISTINCT FROM OLD.slack_last_sent_on
+    OR NEW.email_last_sent_on IS DISTINCT FROM OLD.email_last_sent_on
+    OR NEW.email_unsubscribe_token IS DISTINCT FROM OLD.email_unsubscribe_token THEN
+    RAISE EXCEPTION 'notification_settings: server-managed columns cannot be changed'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notification_settings_protect_server_columns ON notification_settings;
+CREATE TRIGGER notification_settings_protect_server_columns
+  BEFORE INSERT OR UPDATE ON notification_settings
+  FOR EACH ROW EXECUTE FUNCTION protect_notification_settings_server_columns();
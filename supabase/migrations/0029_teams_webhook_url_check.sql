@@ -0,0 +1,20 @@
+-- 0029: Teams の送信先 URL を、Discord と同じくデータベースでも確認する（lib/notificationSettings.ts の isTeamsWebhookUrl と同じ条件）
+-- https で、ホストが *.webhook.office.com・*.logic.azure.com・*.environment.api.powerplatform.com のもののみ
+
+-- 条件に合わない URL は消し、その URL に送っていたまとめ・期日の通知は送らないようにする（通知設定で登録し直す）
+WITH invalid AS (
+  SELECT user_id FROM notification_settings
+  WHERE teams_webhook_url IS NOT NULL
+    AND teams_webhook_url !~* '^https://([a-z0-9-]+\.)+(webhook\.office\.com|logic\.azure\.com|environment\.api\.powerplatform\.com)(:[0-9]+)?([/?#]|$)'
+)
+UPDATE notification_settings
+  SET teams_webhook_url = NULL,
+      digest_channel = CASE WHEN digest_channel = 'teams' THEN NULL ELSE digest_channel END,
+      reminder_channel = CASE WHEN reminder_channel = 'teams' THEN NULL ELSE reminder_channel END
+  WHERE user_id IN (SELECT user_id FROM invalid);
+
+ALTER TABLE notification_settings DROP CONSTRAINT IF EXISTS notification_settings_teams_webhook_url_check;
+ALTER TABLE notification_settings ADD CONSTRAINT notification_settings_teams_webhook_url_check CHECK (
+  teams_webhook_url IS NULL
+  OR teams_webhook_url ~* '^https://([a-z0-9-]+\.)+(webhook\.office\.com|logic\.azure\.com|environment\.api\.powerplatform\.com)(:[0-9]+)?([/?#]|$)'
+);
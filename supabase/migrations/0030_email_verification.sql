@@ -0,0 +1,74 @@
+-- 0030: メールは、確認のリンクを開いて受け取れることを確かめたアドレスにだけ送る
+-- 入力しただけのアドレス（他人のアドレスでも）にまとめや期日の通知を送り続けないようにする
+-- 確認メールは /api/email/verify が送り、リンク（/api/email/confirm）を開くと email_verified_address に記録する
+-- 定期ジョブは email_address と email_verified_address が同じときだけ送る。アドレスを変えたら確認し直す
+
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS email_verified_address TEXT; -- 確認済みのアドレス（サーバーのみが書き込む）
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS email_verification_token UUID; -- 確認のリンクのトークン
+ALTER TABLE notification_settings ADD COLUMN IF NOT EXISTS email_verification_sent_at TIMESTAMPTZ; -- 確認メールを送った日時（リンクの期限と再送の間隔に使う）
+
+CREATE UNIQUE INDEX IF NOT EXISTS notification_settings_email_verification_token_idx
+  ON notification_settings (email_verification_token);
+
+-- ログインに使っている確認済みのアドレスに送っていたユーザーは、そのまま送り続ける
+-- （auth.users.email_confirmed_at がない環境では何もしない）
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'auth' AND table_name = 'users' AND column_name = 'email_confirmed_at'
+  ) THEN
+    UPDATE notification_settings AS s
+      SET email_verified_address = s.email_address
+      FROM auth.users AS u
+      WHERE u.id = s.user_id
+        AND u.email_confirmed_at IS NOT NULL
+        AND lower(u.email) = lower(s.email_address)
+        AND s.email_verified_address IS NULL;
+  END IF;
+END $$;
+
+-- 0028 のトリガーに、確認の列を加える
+CREATE OR REPLACE FUNCTION protect_notification_settings_server_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- 画面から作る行は、サーバーのみが書き込む列を既定の値にする
+    NEW.line_user_id := NULL;
+    NEW.line_display_name := NULL;
+    NEW.slack_last_sent_on := NULL;
+    NEW.email_last_sent_on := NULL;
+    NEW.email_unsubscribe_token := gen_random_uuid();
+    NEW.email_verified_address := NULL;
+    NEW.email_verification_token := NULL;
+    NEW.email_verification_sent_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- LINE の連携の解除（NULL にする）だけは画面から行える
+  IF (NEW.line_user_id IS NOT NULL AND NEW.line_user_id IS DISTINCT FROM OLD.line_user_id)
+    OR (NEW.line_display_name IS NOT NULL AND NEW.line_display_name IS DISTINCT FROM OLD.line_display_name)
+    OR NEW.slack_last_sent_on IS DISTINCT FROM OLD.slack_last_sent_on
+    OR NEW.email_last_sent_on IS DISTINCT FROM OLD.email_last_sent_on
+    OR NEW.email_unsubscribe_token IS DISTINCT FROM OLD.email_unsubscribe_token
+    OR NEW.email_verified_address IS DISTINCT FROM OLD.email_verified_address
+    OR NEW.email_verification_token IS DISTINCT FROM OLD.email_verification_token
+    OR NEW.email_verification_sent_at IS DISTINCT FROM OLD.email_verification_sent_at THEN
+    RAISE EXCEPTION 'notification_settings: server-managed columns cannot be changed'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- アドレスを変えたら、前のアドレスに送った確認のリンクは使えなくする
+  IF NEW.email_address IS DISTINCT FROM OLD.email_address THEN
+    NEW.email_verification_token := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
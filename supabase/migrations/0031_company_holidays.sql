@@ -0,0 +1,29 @@
+-- 0031: 会社の休日（年末年始休業など）をユーザーごとに保存する
+-- これまではブラウザ（LocalStorage）にのみ保存していたため、Slack のボタンなどサーバーでの営業日の計算に使えなかった
+-- 画面は初めて読み込んだときに、ブラウザに保存していた休日をこの表に移す（lib/companyHolidays.ts）
+
+CREATE TABLE IF NOT EXISTS company_holidays (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, date)
+);
+
+ALTER TABLE company_holidays ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own company holidays" ON company_holidays;
+CREATE POLICY "Users can view own company holidays" ON company_holidays
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own company holidays" ON company_holidays;
+CREATE POLICY "Users can insert own company holidays" ON company_holidays
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own company holidays" ON company_holidays;
+CREATE POLICY "Users can update own company holidays" ON company_holidays
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own company holidays" ON company_holidays;
+CREATE POLICY "Users can delete own company holidays" ON company_holidays
+  FOR DELETE USING (auth.uid() = user_id);